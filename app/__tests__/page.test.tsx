@@ -0,0 +1,863 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import PosPage from '@/app/page';
+import { setApiTransport } from '@/app/lib/api';
+import { clearApiCallSamples } from '@/app/lib/connection';
+import { createMockBackend, MOCK_PRODUCTS } from '@/app/lib/mockBackend';
+import type { ApiTransport } from '@/app/lib/mockBackend';
+import { putJournalEntry } from '@/app/lib/offlineStore';
+import type { OutboxEntry } from '@/app/types';
+
+const session = vi.hoisted(() => ({
+  recordSale: vi.fn(),
+  enqueue: vi.fn(async () => undefined),
+  failedEntries: [] as OutboxEntry[],
+  retryFailed: vi.fn(async () => undefined),
+  discardFailed: vi.fn(async () => undefined),
+}));
+
+vi.mock('@/app/components/SessionProvider', () => ({
+  useSession: () => ({
+    operator: { emp_cd: '0001', emp_name: '山田 太郎', role: 'cashier' },
+    shift: null,
+    isLocked: false,
+    isLoaded: true,
+    signIn: vi.fn(),
+    unlock: vi.fn(),
+    lock: vi.fn(),
+    recordSale: session.recordSale,
+    endShift: vi.fn(() => null),
+  }),
+}));
+
+vi.mock('@/app/hooks/useOutbox', () => ({
+  useOutbox: () => ({
+    pendingCount: 0,
+    failedCount: session.failedEntries.length,
+    failedEntries: session.failedEntries,
+    isFlushing: false,
+    enqueue: session.enqueue,
+    flush: vi.fn(),
+    retryFailed: session.retryFailed,
+    discardFailed: session.discardFailed,
+  }),
+}));
+
+vi.mock('@/app/lib/offlineStore', () => ({
+  cacheProduct: vi.fn(async () => undefined),
+  getCachedProduct: vi.fn(async () => null),
+  putJournalEntry: vi.fn(async () => undefined),
+}));
+
+// 購入だけ失敗させ、それ以外はモックバックエンドに渡す
+const failPurchase = (failure: () => Promise<Response>): ApiTransport => {
+  const backend = createMockBackend();
+  return (url, init) => (new URL(url).pathname === '/purchase' ? failure() : backend(url, init));
+};
+
+const addByCode = async (code: string) => {
+  fireEvent.change(screen.getByRole('textbox', { name: 'JANコード' }), { target: { value: code } });
+  fireEvent.click(screen.getByRole('button', { name: '追加' }));
+};
+
+// 購入リストの明細（手入力パネルの最近の商品と区別する）
+const findCartLine = async (name: string) =>
+  (await screen.findByText(name, { selector: 'p.text-lg' })).closest('div.p-4') as HTMLElement;
+
+const payExact = async () => {
+  fireEvent.click(screen.getByRole('button', { name: '💳 お会計' }));
+  fireEvent.click(await screen.findByRole('button', { name: 'ちょうど' }));
+  fireEvent.click(screen.getByRole('button', { name: '✓ 会計を確定' }));
+};
+
+beforeEach(() => {
+  window.localStorage.setItem('pos-terminal-config', JSON.stringify({
+    store_cd: '30',
+    pos_no: '90',
+    api_url: 'http://api.test',
+    settings_pin: '1234',
+  }));
+  setApiTransport(createMockBackend());
+  clearApiCallSamples();
+  session.recordSale.mockClear();
+  session.enqueue.mockClear();
+  session.failedEntries = [];
+  session.retryFailed.mockClear();
+  session.discardFailed.mockClear();
+  vi.mocked(putJournalEntry).mockClear();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setApiTransport(null);
+  vi.restoreAllMocks();
+});
+
+describe('会計の流れ', () => {
+  it('商品を追加し、数量を変えて会計する', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    const tea = await findCartLine('おーいお茶 500ml');
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    // お茶を2点に
+    fireEvent.click(within(tea).getByRole('button', { name: '＋' }));
+    expect(within(tea).getByText('小計: 300円')).toBeInTheDocument();
+    expect(screen.getByText('420円', { selector: 'span.text-blue-600' })).toBeInTheDocument();
+
+    await payExact();
+
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    expect(screen.getByText('取引番号: 1')).toBeInTheDocument();
+    expect(session.recordSale).toHaveBeenCalledWith(420, 3);
+    expect(putJournalEntry).toHaveBeenCalledWith(expect.objectContaining({
+      emp_cd: '0001',
+      receipt: expect.objectContaining({ total_amount: 420, transaction_no: 1 }),
+      response: expect.objectContaining({ transaction_no: 1 }),
+    }));
+
+    fireEvent.click(screen.getByRole('button', { name: '次のお客様へ' }));
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+  });
+
+  it('数量1の商品を減らすと購入リストから消える', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    const tea = await findCartLine('おーいお茶 500ml');
+
+    fireEvent.click(within(tea).getByRole('button', { name: '−' }));
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '💳 お会計' })).toBeDisabled();
+  });
+
+  it('見つからない商品はエラーを表示する', async () => {
+    setApiTransport(createMockBackend({ products: MOCK_PRODUCTS.slice(1) }));
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('商品が見つかりませんでした');
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+  });
+
+  it('購入APIのエラーでは購入リストを残す', async () => {
+    setApiTransport(failPurchase(async () => new Response('bad request', { status: 400 })));
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    await payExact();
+
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent('購入処理中にエラーが発生しました')
+    );
+    expect(screen.getByRole('button', { name: '✓ 会計を確定' })).toBeEnabled();
+    expect(session.recordSale).not.toHaveBeenCalled();
+  });
+
+  // 購入リクエストの取引IDを記録し、指定した回数だけ失敗させる
+  const recordPurchases = (failures: number, status: number) => {
+    const backend = createMockBackend();
+    const transactionIds: string[] = [];
+    setApiTransport((url, init) => {
+      if (new URL(url).pathname !== '/purchase') return backend(url, init);
+      transactionIds.push(JSON.parse(init.body as string).transaction_id);
+      return transactionIds.length <= failures
+        ? Promise.resolve(new Response('error', { status }))
+        : backend(url, init);
+    });
+    return transactionIds;
+  };
+
+  it('結果が分からない購入は、再送・リロード後も同じ取引IDで送信する', async () => {
+    // 5xxは再試行（0.5秒・1秒・2秒）の後にエラーになる
+    const transactionIds = recordPurchases(4, 503);
+    const { unmount } = render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    await payExact();
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent('購入処理中にエラーが発生しました')
+    , { timeout: 6000 });
+
+    // 支払画面を開いたままリロードしても、取引IDは端末に保存されている
+    unmount();
+    render(<PosPage />);
+    await findCartLine('ボールペン 黒');
+    await payExact();
+
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    expect(transactionIds).toHaveLength(5);
+    expect(new Set(transactionIds).size).toBe(1);
+  }, 10000);
+
+  it('拒否された購入は、新しい取引IDで送信する', async () => {
+    const transactionIds = recordPurchases(1, 400);
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    await payExact();
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent('購入処理中にエラーが発生しました')
+    );
+    fireEvent.click(screen.getByRole('button', { name: '✓ 会計を確定' }));
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+
+    expect(transactionIds).toHaveLength(2);
+    expect(transactionIds[1]).not.toBe(transactionIds[0]);
+  });
+
+  it('結果が分からない購入も、明細を変えた後は新しい取引IDで送信する', async () => {
+    const transactionIds = recordPurchases(4, 503);
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    await payExact();
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent('購入処理中にエラーが発生しました')
+    , { timeout: 6000 });
+    fireEvent.click(screen.getByRole('button', { name: '✕ 戻る' }));
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    await findCartLine('おーいお茶 500ml');
+    await payExact();
+
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    expect(transactionIds).toHaveLength(5);
+    expect(transactionIds[4]).not.toBe(transactionIds[0]);
+  }, 10000);
+
+  it('オフライン時は取引を保留して会計を完了する', async () => {
+    setApiTransport(failPurchase(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    await payExact();
+
+    // 再試行（0.5秒・1秒・2秒）の後に保留する
+    expect(await screen.findByText('取引を保留しました', undefined, { timeout: 6000 })).toBeInTheDocument();
+    expect(session.enqueue).toHaveBeenCalledWith(expect.objectContaining({ store_cd: '30', pos_no: '90' }));
+    expect(session.recordSale).toHaveBeenCalledWith(120, 1);
+    expect(putJournalEntry).toHaveBeenCalledWith(expect.objectContaining({ response: null }));
+  }, 10000);
+});
+
+describe('手入力パネル', () => {
+  // 端末の履歴に保存された時点の商品情報（価格改定前）
+  const saveHistory = (...products: typeof MOCK_PRODUCTS) =>
+    window.localStorage.setItem('pos-product-history', JSON.stringify(
+      products.map((product, index) => ({ product, count: 1, last_used: index }))
+    ));
+
+  it('よく使う商品は商品マスタを検索し直し、現在の価格で追加する', async () => {
+    saveHistory({ ...MOCK_PRODUCTS[0], prd_price: 100 });
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    fireEvent.click(await screen.findByRole('button', { name: /おーいお茶 500ml/ }));
+    const tea = await findCartLine('おーいお茶 500ml');
+    expect(within(tea).getByText('小計: 150円')).toBeInTheDocument();
+  });
+
+  it('インストアバーコードの商品は最近の商品に載せない', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    await addByCode('0212345004982');
+    await findCartLine('日替わり弁当');
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    expect(screen.getByRole('button', { name: /ボールペン 黒/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /日替わり弁当/ })).not.toBeInTheDocument();
+  });
+
+  it('販売停止になった商品は履歴から追加できない', async () => {
+    setApiTransport(createMockBackend({
+      products: MOCK_PRODUCTS.map(product => (product.prd_id === 2 ? { ...product, is_active: false } : product)),
+    }));
+    saveHistory(MOCK_PRODUCTS[1]);
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    fireEvent.click(await screen.findByRole('button', { name: /ボールペン 黒/ }));
+    expect(await screen.findByText('「ボールペン 黒」は販売停止中です。店員にお声掛けください')).toBeInTheDocument();
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+  });
+
+  it('スキャナーと同じくITF-14・UPC-Eのコードも手入力できる', async () => {
+    const backend = createMockBackend({
+      products: [...MOCK_PRODUCTS, { prd_id: 20, prd_code: '14901234500010', prd_name: 'お茶 24本入ケース', prd_price: 3000 }],
+    });
+    setApiTransport(backend);
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    await addByCode('14901234500011');
+    expect(await screen.findByText(/チェックデジットが一致しません/)).toBeInTheDocument();
+    await addByCode('14901234500010');
+    expect(await findCartLine('お茶 24本入ケース')).toBeInTheDocument();
+  });
+
+  it('販売停止の商品は商品名検索の候補からも追加できない', async () => {
+    // 商品名検索（/products）はモックバックエンドにないため、ここで応答する
+    const backend = createMockBackend();
+    setApiTransport((url, init) => {
+      if (new URL(url).pathname === '/products') {
+        const products = [{ ...MOCK_PRODUCTS[1], is_active: false }];
+        return Promise.resolve(new Response(JSON.stringify({ products }), { headers: { 'Content-Type': 'application/json' } }));
+      }
+      return backend(url, init);
+    });
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    fireEvent.click(screen.getByRole('button', { name: '商品名検索' }));
+    fireEvent.change(screen.getByRole('textbox', { name: '商品名' }), { target: { value: 'ボールペン' } });
+
+    fireEvent.click(await screen.findByRole('button', { name: /ボールペン 黒/ }));
+    expect(await screen.findByText('「ボールペン 黒」は販売停止中です。店員にお声掛けください')).toBeInTheDocument();
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+  });
+});
+
+describe('保留', () => {
+  // 保留の取出し（/holds/:id/claim）の結果を差し替え、他の端末の保留はないものとする
+  const holdsTransport = (claim: () => Promise<Response>): ApiTransport => {
+    const backend = createMockBackend();
+    return (url, init) => {
+      const { pathname } = new URL(url);
+      if (pathname.endsWith('/claim')) return claim();
+      if (pathname === '/holds') {
+        return Promise.resolve(new Response(JSON.stringify({ holds: [] }), { headers: { 'Content-Type': 'application/json' } }));
+      }
+      return backend(url, init);
+    };
+  };
+
+  const holdAndReopen = async () => {
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+    fireEvent.click(screen.getByRole('button', { name: /⏸ 保留/ }));
+    fireEvent.click(await screen.findByRole('button', { name: '保留する' }));
+    expect(await screen.findByText('商品がありません')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /⏸ 保留/ }));
+    fireEvent.click(await screen.findByRole('button', { name: '再開' }));
+  };
+
+  it('共有済みの保留が他の端末で再開されていれば、この端末では再開しない', async () => {
+    setApiTransport(holdsTransport(async () =>
+      new Response(JSON.stringify({ hold: null }), { headers: { 'Content-Type': 'application/json' } })
+    ));
+    render(<PosPage />);
+    await holdAndReopen();
+
+    expect(await screen.findByText('この保留はすでに他の端末で再開されています')).toBeInTheDocument();
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+    expect(JSON.parse(window.localStorage.getItem('pos-held-carts') ?? '[]')).toEqual([]);
+  });
+
+  it('サーバーに接続できない場合はこの端末の保留をそのまま再開する', async () => {
+    setApiTransport(holdsTransport(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+    render(<PosPage />);
+    await holdAndReopen();
+
+    expect(await findCartLine('ボールペン 黒')).toBeInTheDocument();
+    expect(screen.getByText(/を再開しました/)).toBeInTheDocument();
+  });
+});
+
+describe('販売制限', () => {
+  const beer = MOCK_PRODUCTS.find(product => product.age_restriction === 'alcohol')!;
+  const masks = MOCK_PRODUCTS.find(product => product.purchase_limit !== undefined)!;
+
+  it('酒類は年齢確認の後に追加し、確認した担当者を購入リクエストに記録する', async () => {
+    const backend = createMockBackend();
+    const requests: any[] = [];
+    setApiTransport((url, init) => {
+      if (new URL(url).pathname === '/purchase') requests.push(JSON.parse(init.body as string));
+      return backend(url, init);
+    });
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+
+    await addByCode(beer.prd_code);
+    expect(await screen.findByText('🔞 年齢確認')).toBeInTheDocument();
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '✔ 20歳以上であることを確認しました' }));
+    const line = await findCartLine(beer.prd_name);
+
+    // 同じ会計では再確認しない
+    fireEvent.click(within(line).getByRole('button', { name: '＋' }));
+    expect(screen.queryByText('🔞 年齢確認')).not.toBeInTheDocument();
+
+    await payExact();
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    expect(requests[0].age_verification).toMatchObject({ method: 'visual', verified_by: '0001' });
+  });
+
+  it('20歳未満の生年月日では追加しない', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(beer.prd_code);
+
+    const birthYear = new Date().getFullYear() - 18;
+    fireEvent.change(await screen.findByRole('textbox', { name: '身分証の生年月日' }), {
+      target: { value: `${birthYear}0101` },
+    });
+    fireEvent.click(screen.getByRole('button', { name: '確認' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('20歳未満のお客様には販売できません');
+
+    fireEvent.click(screen.getByRole('button', { name: '✕ 販売しない' }));
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+  });
+
+  it('購入点数の上限を超える数量は理由を表示して受け付けない', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(masks.prd_code);
+    const line = await findCartLine(masks.prd_name);
+
+    fireEvent.click(within(line).getByRole('button', { name: '＋' }));
+    expect(within(line).getByText('小計: 1,196円')).toBeInTheDocument();
+    fireEvent.click(within(line).getByRole('button', { name: '＋' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('お一人様2点までです');
+    expect(within(line).getByText('小計: 1,196円')).toBeInTheDocument();
+  });
+});
+
+describe('ポイントカード', () => {
+  it('会員番号で会員を登録し、ポイントを一部利用して会計する', async () => {
+    const backend = createMockBackend();
+    const requests: any[] = [];
+    setApiTransport((url, init) => {
+      if (new URL(url).pathname === '/purchase') requests.push(JSON.parse(init.body as string));
+      return backend(url, init);
+    });
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[3].prd_code);
+    await findCartLine('乾電池 単3 4本');
+
+    fireEvent.click(screen.getByRole('button', { name: '🎫 会員カード' }));
+    fireEvent.change(screen.getByRole('textbox', { name: '会員番号' }), { target: { value: '2900000000018' } });
+    fireEvent.click(screen.getByRole('button', { name: '検索' }));
+    expect(await screen.findByText('1,200ポイント')).toBeInTheDocument();
+
+    // 480円のうち100ポイントを利用し、残りを現金で支払う
+    fireEvent.click(screen.getByRole('button', { name: '💳 お会計' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'ポイント' }));
+    fireEvent.click(screen.getByRole('button', { name: '1' }));
+    fireEvent.click(screen.getByRole('button', { name: '00' }));
+    fireEvent.click(screen.getByRole('button', { name: 'ポイントで預る' }));
+    fireEvent.click(screen.getByRole('button', { name: '現金' }));
+    fireEvent.click(screen.getByRole('button', { name: 'ちょうど' }));
+    fireEvent.click(screen.getByRole('button', { name: '✓ 会計を確定' }));
+
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    expect(requests[0].member).toEqual({ member_id: '2900000000018', points_earned: 3, points_redeemed: 100 });
+    expect(requests[0].tenders).toEqual([{ type: 'points', amount: 100 }, { type: 'cash', amount: 380 }]);
+    expect(screen.getByText('3ポイント（1,103ポイント）')).toBeInTheDocument();
+  });
+
+  it('見つからない会員番号はエラーを表示する', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '🎫 会員カード' }));
+    fireEvent.change(screen.getByRole('textbox', { name: '会員番号' }), { target: { value: '2900000000995' } });
+    fireEvent.click(screen.getByRole('button', { name: '検索' }));
+
+    expect(await screen.findByText('会員が見つかりませんでした。カードをお確かめください')).toBeInTheDocument();
+  });
+});
+
+describe('接続状態', () => {
+  it('バックエンドのバージョンと接続状態をヘッダーに表示する', async () => {
+    render(<PosPage />);
+    expect(await screen.findByText('API v1.0.0')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '接続状態: オンライン' })).toBeInTheDocument();
+  });
+
+  it('サーバーに接続できない間は表示を切り替え、会計の前に確認する', async () => {
+    const backend = createMockBackend();
+    setApiTransport((url, init) => (new URL(url).pathname === '/' ? Promise.reject(new TypeError('Failed to fetch')) : backend(url, init)));
+    render(<PosPage />);
+
+    // ヘルスチェックの再試行の後にオフラインと判定する
+    expect(await screen.findByRole('button', { name: '接続状態: オフライン' }, { timeout: 6000 })).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('サーバーに接続できません');
+
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+    fireEvent.click(screen.getByRole('button', { name: '💳 お会計' }));
+
+    const dialog = await screen.findByRole('alertdialog', { name: '📡 オフライン保留の確認' });
+    expect(dialog).toHaveTextContent('オフライン保留');
+    expect(screen.queryByRole('button', { name: '✓ 会計を確定' })).not.toBeInTheDocument();
+
+    // キャンセルでは支払画面を開かず、続けると開く
+    fireEvent.click(within(dialog).getByRole('button', { name: 'キャンセル' }));
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: '✓ 会計を確定' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '💳 お会計' }));
+    fireEvent.click(await screen.findByRole('button', { name: '会計を続ける' }));
+    expect(await screen.findByRole('button', { name: '✓ 会計を確定' })).toBeInTheDocument();
+  }, 10000);
+});
+
+describe('責任者承認・監査ログ', () => {
+  let requests: { pathname: string; body: any }[];
+
+  // 送信した内容を記録し、応答はモックバックエンドに任せる（責任者は 0900 / PIN 9999）
+  beforeEach(() => {
+    requests = [];
+    const backend = createMockBackend();
+    setApiTransport((url, init) => {
+      const { pathname } = new URL(url);
+      requests.push({ pathname, body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined });
+      return backend(url, init);
+    });
+  });
+
+  const approve = async () => {
+    fireEvent.change(await screen.findByRole('textbox', { name: '責任者の従業員コード' }), { target: { value: '0900' } });
+    fireEvent.change(screen.getByLabelText('PIN'), { target: { value: '9999' } });
+    fireEvent.click(screen.getByRole('button', { name: '承認' }));
+  };
+
+  const bodiesOf = (pathname: string) => requests.filter(request => request.pathname === pathname).map(request => request.body);
+
+  it('前に登録した明細の取消は承認が必要で、監査ログを取引と一緒に送信する', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    const tea = await findCartLine('おーいお茶 500ml');
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    // 承認をキャンセルすると取り消さない
+    fireEvent.click(within(tea).getByTitle('削除'));
+    expect(await screen.findByText('🔑 明細取消の承認')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '✕ キャンセル' }));
+    expect(screen.getByText('おーいお茶 500ml', { selector: 'p.text-lg' })).toBeInTheDocument();
+
+    fireEvent.click(within(tea).getByTitle('削除'));
+    await approve();
+    await waitFor(() => expect(screen.queryByText('おーいお茶 500ml', { selector: 'p.text-lg' })).not.toBeInTheDocument());
+
+    await payExact();
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    expect(bodiesOf('/purchase')[0].audit_log).toEqual([
+      expect.objectContaining({
+        action: 'line_void',
+        emp_cd: '0001',
+        approver_cd: '0900',
+        target: { prd_code: MOCK_PRODUCTS[0].prd_code, prd_name: 'おーいお茶 500ml' },
+        before: { quantity: 1, unit_price: 150, discount: null },
+        after: { quantity: 0 },
+      }),
+    ]);
+  });
+
+  it('直前の明細の取消と上限内の値引は承認なしで行い、監査ログに残す', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    await findCartLine('おーいお茶 500ml');
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    const pen = await findCartLine('ボールペン 黒');
+
+    fireEvent.click(within(pen).getByRole('button', { name: '値引' }));
+    fireEvent.click(screen.getByRole('button', { name: '10%' }));
+    fireEvent.click(screen.getByRole('button', { name: '適用' }));
+    fireEvent.click(within(pen).getByTitle('削除'));
+    expect(screen.queryByText('🔑 明細取消の承認')).not.toBeInTheDocument();
+
+    await payExact();
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    const auditLog = bodiesOf('/purchase')[0].audit_log;
+    expect(auditLog.map((entry: any) => entry.action)).toEqual(['discount', 'line_void']);
+    expect(auditLog[0]).toMatchObject({ before: { discount: null }, after: { discount: { type: 'percent', value: 10 } } });
+    expect(auditLog.every((entry: any) => entry.approver_cd === undefined)).toBe(true);
+  });
+
+  it('売価変更は理由と承認を受けて単価を変える', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[3].prd_code);
+    const battery = await findCartLine('乾電池 単3 4本');
+
+    fireEvent.click(within(battery).getByRole('button', { name: '売価変更' }));
+    fireEvent.change(screen.getByLabelText('変更後の単価（円）'), { target: { value: '400' } });
+    fireEvent.click(screen.getByRole('button', { name: '変更' }));
+    expect(screen.getByText('売価変更の理由を入力してください')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '値札違い' }));
+    fireEvent.click(screen.getByRole('button', { name: '変更' }));
+    await approve();
+
+    expect(await within(battery).findByText('小計: 400円')).toBeInTheDocument();
+    expect(within(battery).getByText('（売価変更 元480円）')).toBeInTheDocument();
+
+    await payExact();
+    expect(await screen.findByText('お会計完了')).toBeInTheDocument();
+    const [request] = bodiesOf('/purchase');
+    expect(request.items[0]).toMatchObject({ prd_price: 400, original_price: 480 });
+    expect(request.audit_log[0]).toMatchObject({
+      action: 'price_override',
+      approver_cd: '0900',
+      reason: '値札違い',
+      before: { unit_price: 480 },
+      after: { unit_price: 400 },
+    });
+  });
+
+  it('取引中止は承認を受けて購入リストを消し、監査ログを送信する', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+
+    fireEvent.click(screen.getByRole('button', { name: '🚫 取引中止' }));
+    expect(await screen.findByText('1点・120円の取引を中止します')).toBeInTheDocument();
+    await approve();
+
+    expect(await screen.findByText('商品がありません')).toBeInTheDocument();
+    await waitFor(() => expect(bodiesOf('/audit_log')).toHaveLength(1));
+    expect(bodiesOf('/audit_log')[0]).toMatchObject({
+      store_cd: '30',
+      pos_no: '90',
+      entries: [
+        expect.objectContaining({
+          action: 'sale_cancel',
+          emp_cd: '0001',
+          approver_cd: '0900',
+          before: { item_count: 1, total_amount: 120 },
+          after: { item_count: 0, total_amount: 0 },
+        }),
+      ],
+    });
+    expect(bodiesOf('/purchase')).toHaveLength(0);
+  });
+
+  it('前回までに送信できなかった監査ログは起動時に再送し、未送信の間は件数を表示する', async () => {
+    window.localStorage.setItem('pos-pending-audit-logs', JSON.stringify([
+      { transaction_id: 'tx-cancel', store_cd: '30', pos_no: '90', entries: [] },
+    ]));
+    const backend = createMockBackend();
+    setApiTransport((url, init) => (new URL(url).pathname === '/audit_log'
+      ? Promise.resolve(new Response('unavailable', { status: 503 }))
+      : backend(url, init)));
+    render(<PosPage />);
+    expect(await screen.findByText('未送信の監査ログ: 1件')).toBeInTheDocument();
+
+    setApiTransport(backend);
+    fireEvent.click(screen.getByRole('button', { name: '今すぐ再送' }));
+    await waitFor(() => expect(screen.queryByText('未送信の監査ログ: 1件')).not.toBeInTheDocument());
+    expect(window.localStorage.getItem('pos-pending-audit-logs')).toBeNull();
+  });
+
+  it('保留の破棄は承認を受けてから行い、保留までの監査ログと一緒に送信する', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    await findCartLine('ボールペン 黒');
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    fireEvent.click(within(await findCartLine('おーいお茶 500ml')).getByTitle('削除'));
+    fireEvent.click(screen.getByRole('button', { name: /⏸ 保留/ }));
+    fireEvent.click(await screen.findByRole('button', { name: '保留する' }));
+    expect(await screen.findByText('商品がありません')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /⏸ 保留/ }));
+    fireEvent.click(await screen.findByRole('button', { name: '破棄' }));
+    expect(await screen.findByText(/1点・120円）を破棄します/)).toBeInTheDocument();
+    expect(JSON.parse(window.localStorage.getItem('pos-held-carts') ?? '[]')).toHaveLength(1);
+    await approve();
+
+    await waitFor(() => expect(bodiesOf('/audit_log')).toHaveLength(1));
+    expect(bodiesOf('/audit_log')[0].entries).toEqual([
+      expect.objectContaining({ action: 'line_void', emp_cd: '0001' }),
+      expect.objectContaining({
+        action: 'sale_cancel',
+        approver_cd: '0900',
+        before: { item_count: 1, total_amount: 120 },
+      }),
+    ]);
+    expect(JSON.parse(window.localStorage.getItem('pos-held-carts') ?? '[]')).toEqual([]);
+  });
+
+  it('送信できなかった取引は内容を確認して再送でき、破棄は承認を受けてから行う', async () => {
+    const failed: OutboxEntry = {
+      id: 7,
+      payload: {
+        transaction_id: 'tx-failed',
+        emp_cd: '0001',
+        store_cd: '30',
+        pos_no: '90',
+        items: [{ ...MOCK_PRODUCTS[1], quantity: 2, applied_discounts: [], line_amount: 240 }],
+        tenders: [{ type: 'cash', amount: 500 }],
+        change_amount: 260,
+      },
+      created_at: '2026-10-19T09:00:00.000Z',
+      attempts: 1,
+      last_error: '商品が存在しません',
+      status: 'failed',
+    };
+    session.failedEntries = [failed];
+    render(<PosPage />);
+    expect(await screen.findByText('送信できなかった取引: 1件')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '確認する' }));
+    expect(await screen.findByText(/2点 ／ 240円/)).toBeInTheDocument();
+    expect(screen.getByText('商品が存在しません')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '再送' }));
+    await waitFor(() => expect(session.retryFailed).toHaveBeenCalledWith(failed));
+
+    fireEvent.click(screen.getByRole('button', { name: '破棄' }));
+    expect(await screen.findByText('2点・240円の取引を破棄します')).toBeInTheDocument();
+    expect(session.discardFailed).not.toHaveBeenCalled();
+    await approve();
+
+    await waitFor(() => expect(session.discardFailed).toHaveBeenCalledWith(failed));
+    await waitFor(() => expect(bodiesOf('/audit_log')).toHaveLength(1));
+    expect(bodiesOf('/audit_log')[0]).toMatchObject({
+      transaction_id: 'tx-failed',
+      entries: [expect.objectContaining({ action: 'sale_cancel', approver_cd: '0900' })],
+    });
+  });
+});
+
+describe('価格照会', () => {
+  it('購入リストに追加せずに価格・販促・在庫を表示する', async () => {
+    const backend = createMockBackend();
+    setApiTransport((url, init) =>
+      new URL(url).pathname === '/promotions'
+        ? Promise.resolve(new Response(JSON.stringify({
+          promotions: [{ promo_id: 'P1', name: 'お茶2本で250円', type: 'bundle', prd_codes: [MOCK_PRODUCTS[0].prd_code], quantity: 2, price: 250 }],
+        }), { headers: { 'Content-Type': 'application/json' } }))
+        : backend(url, init)
+    );
+    render(<PosPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: '🏷 価格照会' }));
+    fireEvent.change(screen.getByRole('textbox', { name: '照会するJANコード' }), { target: { value: MOCK_PRODUCTS[0].prd_code } });
+    fireEvent.click(screen.getByRole('button', { name: '照会' }));
+
+    expect(await screen.findByText('150円')).toBeInTheDocument();
+    expect(screen.getByText('税抜（8%（軽減））')).toBeInTheDocument();
+    expect(screen.getByText('139円（消費税 11円）')).toBeInTheDocument();
+    expect(screen.getByText('お茶2本で250円（2点で250円）')).toBeInTheDocument();
+    expect(await screen.findByText('24点')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '閉じる' }));
+    expect(screen.getByText('商品がありません')).toBeInTheDocument();
+  });
+
+  it('在庫のない商品・見つからない商品を表示する', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '🏷 価格照会' }));
+    const input = screen.getByRole('textbox', { name: '照会するJANコード' });
+
+    fireEvent.change(input, { target: { value: MOCK_PRODUCTS[2].prd_code } });
+    fireEvent.click(screen.getByRole('button', { name: '照会' }));
+    expect(await screen.findByText('在庫なし')).toBeInTheDocument();
+
+    fireEvent.change(input, { target: { value: '4901234599994' } });
+    fireEvent.click(screen.getByRole('button', { name: '照会' }));
+    expect(await screen.findByText('商品が見つかりませんでした')).toBeInTheDocument();
+  });
+});
+
+describe('ホットキー・テンキー・キーボード操作', () => {
+  // HIDスキャナーの入力と区別されるよう、人の打鍵程度の間隔をあける
+  const pressKey = async (key: string) => {
+    await new Promise(resolve => setTimeout(resolve, 60));
+    fireEvent.keyDown(window, { key });
+  };
+
+  it('ホットキーとテンキーの「数量 ×」で商品を登録する', async () => {
+    window.localStorage.setItem('pos-terminal-config', JSON.stringify({
+      store_cd: '30',
+      pos_no: '90',
+      api_url: 'http://api.test',
+      settings_pin: '1234',
+      hotkeys: [{ prd_code: '0000000000017', label: 'レジ袋' }],
+    }));
+    render(<PosPage />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'レジ袋' }));
+    expect(await findCartLine('レジ袋 M')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'テンキー 3' }));
+    fireEvent.click(screen.getByRole('button', { name: '数量 ×' }));
+    expect(screen.getByLabelText('テンキー入力')).toHaveTextContent('3 ×');
+    for (const digit of MOCK_PRODUCTS[0].prd_code) {
+      fireEvent.click(screen.getByRole('button', { name: `テンキー ${digit}` }));
+    }
+    fireEvent.click(screen.getByRole('button', { name: '登録' }));
+
+    const tea = await findCartLine('おーいお茶 500ml');
+    expect(within(tea).getByText('小計: 450円')).toBeInTheDocument();
+    expect(screen.getByText('「おーいお茶 500ml」を3点追加しました')).toBeInTheDocument();
+    expect(screen.getByLabelText('テンキー入力')).toHaveTextContent('');
+  });
+
+  it('数量に範囲外の値を指定すると登録しない', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: 'テンキー 00' }));
+    fireEvent.click(screen.getByRole('button', { name: '数量 ×' }));
+    expect(await screen.findByText('数量は1〜99で入力してください')).toBeInTheDocument();
+  });
+
+  it('キーボードだけで明細を選択・取消して会計に進む', async () => {
+    render(<PosPage />);
+    fireEvent.click(screen.getByRole('button', { name: '⌨ 手入力・商品名検索' }));
+    await addByCode(MOCK_PRODUCTS[0].prd_code);
+    const tea = await findCartLine('おーいお茶 500ml');
+    await addByCode(MOCK_PRODUCTS[1].prd_code);
+    const pen = await findCartLine('ボールペン 黒');
+    // 手入力欄からフォーカスを外す（入力欄でのキー入力は対象外）
+    (document.activeElement as HTMLElement).blur();
+
+    // 最後に登録した明細が選択されている
+    expect(pen).toHaveAttribute('aria-current', 'true');
+    await pressKey('ArrowUp');
+    expect(tea).toHaveAttribute('aria-current', 'true');
+
+    // 前の明細の取消は承認が必要
+    await pressKey('Delete');
+    expect(await screen.findByText('🔑 明細取消の承認')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '✕ キャンセル' }));
+
+    await pressKey('ArrowDown');
+    await pressKey('+');
+    expect(within(pen).getByText('小計: 240円')).toBeInTheDocument();
+    await pressKey('Delete');
+    await waitFor(() => expect(screen.queryByText('ボールペン 黒', { selector: 'p.text-lg' })).not.toBeInTheDocument());
+    expect(tea).toHaveAttribute('aria-current', 'true');
+
+    await pressKey('F4');
+    expect(await screen.findByRole('button', { name: 'ちょうど' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import Notification from '@/app/components/Notification';
+import ProductForm from '@/app/components/ProductForm';
+import ProductImportPanel from '@/app/components/ProductImportPanel';
+import SupervisorApproval from '@/app/components/SupervisorApproval';
+import { useSession } from '@/app/components/SessionProvider';
+import { useTerminalConfig } from '@/app/hooks/useTerminalConfig';
+import { createProduct, fetchAdminProducts, fetchAllAdminProducts, setProductActive, updateProduct } from '@/app/lib/api';
+import { hasRole } from '@/app/lib/permissions';
+import { productsToCsv } from '@/app/lib/productMaster';
+import { AGE_RESTRICTION_LABELS } from '@/app/lib/restrictions';
+import { downloadCsv } from '@/app/lib/salesReport';
+import { TAX_CATEGORY_LABELS } from '@/app/lib/tax';
+import type { Operator, Product, ProductChangeActor, ProductInput, ProductListResult } from '@/app/types';
+
+const PAGE_SIZE = 20;
+
+/**
+ * 商品マスタ管理（店長権限）
+ * 商品の検索・登録・編集・販売停止と、CSVの一括取込・出力
+ */
+export default function ProductAdminPage() {
+  const { operator, isLocked } = useSession();
+  const { config: terminalConfig } = useTerminalConfig();
+
+  // 店長以外は店長の承認で一時的に操作できる（承認者はこの画面を離れるまで有効）
+  const [approver, setApprover] = useState<Operator | null>(null);
+  const [query, setQuery] = useState('');
+  const [department, setDepartment] = useState('');
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [result, setResult] = useState<ProductListResult | null>(null);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [editing, setEditing] = useState<Product | 'new' | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const isAuthorized = hasRole(operator, 'manager') || approver !== null;
+  // 変更履歴に残す担当者（店長本人の操作では承認者も本人）
+  const actor: ProductChangeActor | null = operator
+    ? { emp_cd: operator.emp_cd, approver_emp_cd: approver?.emp_cd ?? operator.emp_cd }
+    : null;
+
+  const load = useCallback(async () => {
+    try {
+      setResult(await fetchAdminProducts({
+        q: query,
+        department,
+        include_inactive: includeInactive,
+        offset,
+        limit: PAGE_SIZE,
+      }));
+    } catch (error: any) {
+      setResult({ products: [], total: 0 });
+      setNotification({ message: error.message || '商品を読み込めませんでした', type: 'error' });
+    }
+  }, [query, department, includeInactive, offset]);
+
+  const loadDepartments = useCallback(async () => {
+    try {
+      const all = await fetchAllAdminProducts();
+      setDepartments(Array.from(new Set(all.flatMap(p => (p.department ? [p.department] : [])))).sort());
+    } catch (error) {
+      console.error('[部門一覧取得エラー]', error);
+    }
+  }, []);
+
+  // 検索語の入力中は少し待ってから検索する
+  useEffect(() => {
+    if (!isAuthorized || !terminalConfig) return;
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [isAuthorized, terminalConfig, load]);
+
+  useEffect(() => {
+    if (isAuthorized && terminalConfig) loadDepartments();
+  }, [isAuthorized, terminalConfig, loadDepartments]);
+
+  // 検索条件を変えたら1ページ目に戻る
+  useEffect(() => {
+    setOffset(0);
+  }, [query, department, includeInactive]);
+
+  const reload = async () => {
+    await Promise.all([load(), loadDepartments()]);
+  };
+
+  const handleSubmit = async (input: ProductInput) => {
+    if (!actor) return;
+    const saved = editing === 'new' || editing === null
+      ? await createProduct(input, actor)
+      : await updateProduct(editing.prd_id, input, actor);
+    setEditing(null);
+    setNotification({ message: `「${saved.prd_name}」を保存しました`, type: 'success' });
+    await reload();
+  };
+
+  const toggleActive = async (product: Product) => {
+    const active = product.is_active === false;
+    if (!actor) return;
+    if (!active && !window.confirm(`「${product.prd_name}」を販売停止にしますか？`)) return;
+    try {
+      await setProductActive(product.prd_id, active, actor);
+      setNotification({
+        message: `「${product.prd_name}」を${active ? '販売中に戻しました' : '販売停止にしました'}`,
+        type: 'success',
+      });
+      await load();
+    } catch (error: any) {
+      setNotification({ message: error.message || '販売状態を変更できませんでした', type: 'error' });
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const products = await fetchAllAdminProducts();
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      downloadCsv(`products_${date}.csv`, productsToCsv(products));
+    } catch (error: any) {
+      setNotification({ message: error.message || 'CSVを出力できませんでした', type: 'error' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pageLabel = useMemo(() => {
+    if (!result || result.total === 0) return '0件';
+    return `${result.total}件中 ${offset + 1}〜${Math.min(offset + PAGE_SIZE, result.total)}件`;
+  }, [result, offset]);
+
+  if (!operator || isLocked || !terminalConfig) {
+    return (
+      <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+        <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg text-center">
+          <p className="text-gray-700 mb-4">商品管理を行うには、レジ画面で端末設定とサインインを完了してください</p>
+          <Link href="/" className="text-blue-600 font-bold hover:underline">← レジに戻る</Link>
+        </main>
+      </div>
+    );
+  }
+
+  if (!isAuthorized) {
+    return (
+      <SupervisorApproval
+        title="商品管理の承認"
+        description="商品マスタの変更には店長の承認が必要です"
+        requiredRole="manager"
+        onApproved={setApprover}
+        onCancel={() => window.location.assign('/')}
+      />
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+
+      {editing && (
+        <ProductForm
+          product={editing === 'new' ? null : editing}
+          departments={departments}
+          onSubmit={handleSubmit}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {isImportOpen && actor && (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4 text-center text-gray-800">📥 CSV一括取込</h3>
+            <ProductImportPanel
+              actor={actor}
+              onImported={(imported) => {
+                setIsImportOpen(false);
+                setNotification({
+                  message: `取込みました（新規 ${imported.created}件 / 更新 ${imported.updated}件）`,
+                  type: 'success',
+                });
+                reload();
+              }}
+            />
+            <button
+              onClick={() => setIsImportOpen(false)}
+              className="w-full mt-4 px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95"
+            >
+              閉じる
+            </button>
+          </div>
+        </div>
+      )}
+
+      <header className="text-center mb-8 relative">
+        <Link href="/" className="absolute left-0 top-0 text-blue-600 font-bold hover:underline">← レジ</Link>
+        <h1 className="text-4xl font-extrabold text-gray-800">商品管理</h1>
+        <p className="text-sm text-gray-600 mt-2">
+          担当: {operator.emp_name}（{operator.emp_cd}）
+          {approver && ` ｜ 承認: ${approver.emp_name}`}
+        </p>
+      </header>
+
+      <main className="max-w-3xl mx-auto bg-white p-6 rounded-2xl shadow-lg">
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <button
+            onClick={() => setEditing('new')}
+            className="bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 active:scale-95"
+          >
+            ＋ 新規登録
+          </button>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="bg-white text-indigo-600 font-bold py-3 px-4 rounded-lg border-2 border-indigo-300 hover:bg-indigo-50"
+          >
+            📥 CSV取込
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-white text-indigo-600 font-bold py-3 px-4 rounded-lg border-2 border-indigo-300 hover:bg-indigo-50 disabled:opacity-50"
+          >
+            {isExporting ? '出力中...' : '⬇ CSV出力'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          <input
+            type="search"
+            aria-label="商品検索"
+            placeholder="商品名・商品コードで検索"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="col-span-2 border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+          />
+          <select
+            aria-label="部門"
+            value={department}
+            onChange={(e) => setDepartment(e.target.value)}
+            className="border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+          >
+            <option value="">すべての部門</option>
+            {departments.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+          <input type="checkbox" checked={includeInactive} onChange={(e) => setIncludeInactive(e.target.checked)} />
+          販売停止中の商品も表示
+        </label>
+
+        {result ? (
+          <ul className="divide-y divide-gray-200 border-t border-b border-gray-200">
+            {result.products.map(product => (
+              <li key={product.prd_id} className={`flex items-center justify-between py-3 gap-2 ${product.is_active === false ? 'opacity-60' : ''}`}>
+                <div className="min-w-0">
+                  <p className="font-bold text-gray-800 truncate">
+                    {product.prd_name}
+                    {product.is_active === false && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-200 text-gray-700">販売停止</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {product.prd_code} ／ {product.prd_price.toLocaleString()}円
+                    ／ {TAX_CATEGORY_LABELS[product.tax_category ?? 'standard']}
+                    {product.department && ` ／ ${product.department}`}
+                    {product.age_restriction && ` ／ 🔞${AGE_RESTRICTION_LABELS[product.age_restriction]}`}
+                    {product.purchase_limit !== undefined && ` ／ お一人様${product.purchase_limit}点まで`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => setEditing(product)}
+                    className="px-3 py-2 rounded-lg border border-gray-300 text-sm font-bold text-gray-700 hover:bg-gray-100"
+                  >
+                    編集
+                  </button>
+                  <button
+                    onClick={() => toggleActive(product)}
+                    className={`px-3 py-2 rounded-lg border text-sm font-bold ${
+                      product.is_active === false
+                        ? 'border-green-300 text-green-700 hover:bg-green-50'
+                        : 'border-red-300 text-red-600 hover:bg-red-50'
+                    }`}
+                  >
+                    {product.is_active === false ? '販売再開' : '販売停止'}
+                  </button>
+                </div>
+              </li>
+            ))}
+            {result.products.length === 0 && (
+              <li className="py-8 text-center text-gray-500">該当する商品はありません</li>
+            )}
+          </ul>
+        ) : (
+          <p className="text-gray-500 text-center py-8">読み込み中...</p>
+        )}
+
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-2 rounded-lg border border-gray-300 font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            ← 前へ
+          </button>
+          <span className="text-gray-600">{pageLabel}</span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={!result || offset + PAGE_SIZE >= result.total}
+            className="px-3 py-2 rounded-lg border border-gray-300 font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            次へ →
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+import { AGE_RESTRICTION_LABELS, LEGAL_AGE, ageOn, parseBirthDate } from '@/app/lib/restrictions';
+import type { AgeVerificationMethod, Product } from '@/app/types';
+
+interface AgeVerificationDialogProps {
+  product: Product;
+  onConfirm: (method: AgeVerificationMethod) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 年齢確認ダイアログ
+ * お客様の年齢を目視で確認するか、身分証の生年月日（スキャンまたは入力）で確認する
+ */
+export default function AgeVerificationDialog({ product, onConfirm, onCancel }: AgeVerificationDialogProps) {
+  const [birthDate, setBirthDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+
+  const label = product.age_restriction ? AGE_RESTRICTION_LABELS[product.age_restriction] : '';
+
+  const verifyBirthDate = useCallback((text: string) => {
+    const date = parseBirthDate(text);
+    if (!date) {
+      setError('生年月日を読み取れませんでした（例: 19900401）');
+      return;
+    }
+    if (ageOn(date) < LEGAL_AGE) {
+      setError(`${LEGAL_AGE}歳未満のお客様には販売できません`);
+      setBirthDate('');
+      return;
+    }
+    onConfirm('id');
+  }, [onConfirm]);
+
+  const handleIdScan = useCallback((result: string) => {
+    setIsScannerOpen(false);
+    setBirthDate(result.trim());
+    verifyBirthDate(result);
+  }, [verifyBirthDate]);
+
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      {isScannerOpen && (
+        <BarcodeScanner onScan={handleIdScan} onClose={handleCloseScanner} />
+      )}
+
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-2 text-center text-gray-800">🔞 年齢確認</h3>
+        <p className="text-sm text-center text-gray-600 mb-4">
+          「{product.prd_name}」（{label}）の販売には、お客様が{LEGAL_AGE}歳以上であることの確認が必要です
+        </p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <button
+          onClick={() => onConfirm('visual')}
+          className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 active:scale-95"
+        >
+          ✔ {LEGAL_AGE}歳以上であることを確認しました
+        </button>
+
+        <form
+          className="flex gap-2 mt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            verifyBirthDate(birthDate);
+          }}
+        >
+          <input
+            aria-label="身分証の生年月日"
+            placeholder="身分証の生年月日（YYYYMMDD）"
+            inputMode="numeric"
+            autoComplete="off"
+            value={birthDate}
+            onChange={(e) => setBirthDate(e.target.value)}
+            className="flex-1 min-w-0 border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+          />
+          <button
+            type="submit"
+            className="px-4 py-3 bg-white text-indigo-600 font-bold rounded-lg border-2 border-indigo-300 hover:bg-indigo-50"
+          >
+            確認
+          </button>
+        </form>
+        <button
+          onClick={() => setIsScannerOpen(true)}
+          className="w-full mt-2 bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 active:scale-95"
+        >
+          🪪 身分証をスキャン
+        </button>
+        <button
+          onClick={onCancel}
+          className="w-full mt-2 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors transform active:scale-95"
+        >
+          ✕ 販売しない
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,113 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { Html5Qrcode } from 'html5-qrcode';
+import { useEffect, useRef, useState } from 'react';
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from 'html5-qrcode';
+import type { CameraDevice } from 'html5-qrcode';
+import { scanFeedback } from '@/app/lib/feedback';
 
 interface BarcodeScannerProps {
-  onScan: (result: string) => void;
+  // 戻り値が false の場合は読取失敗として通知する
+  onScan: (result: string) => void | boolean | Promise<void | boolean>;
   onClose: () => void;
+  continuous?: boolean; // 連続スキャン（読取後もカメラを開いたままにする）
+  retailOnly?: boolean; // 小売用バーコード（JAN/UPC/ITF）のみ読み取る
+  overlay?: React.ReactNode; // カメラ映像の下に重ねる表示（連続スキャン時の購入リスト等）
 }
 
-export default function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
+// 小売用のシンボル体系
+const RETAIL_FORMATS = [
+  Html5QrcodeSupportedFormats.EAN_13,
+  Html5QrcodeSupportedFormats.EAN_8,
+  Html5QrcodeSupportedFormats.UPC_A,
+  Html5QrcodeSupportedFormats.UPC_E,
+  Html5QrcodeSupportedFormats.ITF,
+];
+
+// 同じコードを再度受け付けるまでの時間（コードごと）
+const CODE_COOLDOWN_MS = 1500;
+const CAMERA_STORAGE_KEY = 'pos-camera-id';
+
+export default function BarcodeScanner({
+  onScan,
+  onClose,
+  continuous = false,
+  retailOnly = false,
+  overlay,
+}: BarcodeScannerProps) {
   const [error, setError] = useState<string | null>(null);
   const [isScanning, setIsScanning] = useState(false);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraId, setCameraId] = useState<string | null>(null);
+  const [torch, setTorch] = useState<{ supported: boolean; on: boolean }>({ supported: false, on: false });
+  const [zoom, setZoom] = useState<{ min: number; max: number; step: number; value: number } | null>(null);
+  const [lastResult, setLastResult] = useState<{ code: string; accepted: boolean } | null>(null);
+  const scannerRef = useRef<Html5Qrcode | null>(null);
+  // 前のカメラの停止処理（カメラの切替時、停止が終わるまで次のカメラを起動しない）
+  const stoppingRef = useRef<Promise<void>>(Promise.resolve());
+
+  // コールバックの再生成でカメラが再起動しないよう参照で保持
+  const onScanRef = useRef(onScan);
+  const onCloseRef = useRef(onClose);
+  onScanRef.current = onScan;
+  onCloseRef.current = onClose;
+
+  // 前回選択したカメラを復元
+  useEffect(() => {
+    setCameraId(window.localStorage.getItem(CAMERA_STORAGE_KEY));
+    Html5Qrcode.getCameras()
+      .then(setCameras)
+      .catch(() => setCameras([]));
+  }, []);
 
   useEffect(() => {
     let html5QrCode: Html5Qrcode | undefined;
-    let scanLock = false;
+    let cancelled = false;
+    let singleScanDone = false;
+    const lastSeen = new Map<string, number>();
+
+    const handleDecoded = async (decodedText: string) => {
+      // 単発モードは最初の1件のみ、連続モードはコードごとに一定時間重複を無視
+      if (!continuous && singleScanDone) return;
+      const now = Date.now();
+      const seenAt = lastSeen.get(decodedText);
+      if (seenAt !== undefined && now - seenAt < CODE_COOLDOWN_MS) return;
+      lastSeen.set(decodedText, now);
+      singleScanDone = true;
+
+      console.log('[バーコード読取] ', decodedText);
+      setIsScanning(true);
+      try {
+        const accepted = (await onScanRef.current(decodedText)) !== false;
+        scanFeedback(accepted ? 'accept' : 'reject');
+        setLastResult({ code: decodedText, accepted });
+      } finally {
+        setIsScanning(false);
+      }
+    };
 
     const startScanner = async () => {
+      // 同じ読取領域（#reader）で前のカメラが動いている間は起動できない
+      await stoppingRef.current;
+      if (cancelled) return;
+
       try {
-        html5QrCode = new Html5Qrcode('reader');
-        
+        html5QrCode = new Html5Qrcode('reader', {
+          verbose: false,
+          formatsToSupport: retailOnly ? RETAIL_FORMATS : undefined,
+        });
+        scannerRef.current = html5QrCode;
+
         await html5QrCode.start(
-          { facingMode: "environment" },
+          cameraId ?? { facingMode: "environment" },
           {
-            fps: 10,
-            qrbox: { width: 250, height: 250 },
-          },
-          (decodedText) => {
-            // 連続スキャン防止
-            if (!scanLock) {
-              scanLock = true;
-              console.log('[バーコード読取] ', decodedText);
-              setIsScanning(true);
-              onScan(decodedText);
-              
-              // 1秒後に再度スキャン可能にする
-              setTimeout(() => {
-                scanLock = false;
-                setIsScanning(false);
-              }, 1000);
-            }
+            fps: continuous ? 15 : 10,
+            // 1次元バーコードが収まる横長の読取枠
+            qrbox: (width, height) => ({
+              width: Math.floor(width * 0.8),
+              height: Math.floor(Math.min(height * 0.5, width * 0.8)),
+            }),
           },
+          handleDecoded,
           (errorMessage) => {
             // スキャン中のエラーは無視（正常動作）
             // ただし、重大なエラーはログに記録
@@ -49,13 +116,32 @@ export default function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps)
             }
           }
         );
-        
+
         console.log('[カメラ起動] 成功');
+
+        // ライト・ズームの対応状況
+        try {
+          const capabilities = html5QrCode.getRunningTrackCameraCapabilities();
+          const torchFeature = capabilities.torchFeature();
+          setTorch({ supported: torchFeature.isSupported(), on: Boolean(torchFeature.value()) });
+          const zoomFeature = capabilities.zoomFeature();
+          setZoom(zoomFeature.isSupported()
+            ? {
+                min: zoomFeature.min(),
+                max: zoomFeature.max(),
+                step: zoomFeature.step(),
+                value: zoomFeature.value() ?? zoomFeature.min(),
+              }
+            : null);
+        } catch {
+          setTorch({ supported: false, on: false });
+          setZoom(null);
+        }
       } catch (err: any) {
         console.error('[カメラ起動エラー]', err);
-        
+
         // エラーメッセージを判定
-        if (err.name === 'NotAllowedError' || err.message.includes('Permission')) {
+        if (err.name === 'NotAllowedError' || err.message?.includes('Permission')) {
           setError('カメラへのアクセスが許可されていません。ブラウザの設定を確認してください。');
         } else if (err.name === 'NotFoundError') {
           setError('カメラが見つかりませんでした。デバイスにカメラが接続されているか確認してください。');
@@ -64,55 +150,133 @@ export default function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps)
         } else {
           setError('カメラの起動に失敗しました。店員にお声掛けください。');
         }
-        
+
         // 3秒後に自動で閉じる
         setTimeout(() => {
-          onClose();
+          onCloseRef.current();
         }, 3000);
       }
     };
 
-    startScanner();
+    const started = startScanner();
 
-    // クリーンアップ
+    // クリーンアップ（起動中の場合は起動が終わってから停止する）
     return () => {
-      if (html5QrCode && html5QrCode.isScanning) {
-        html5QrCode.stop()
-          .then(() => console.log('[カメラ停止] 成功'))
-          .catch(err => console.error('[カメラ停止エラー]', err));
-      }
+      cancelled = true;
+      scannerRef.current = null;
+      stoppingRef.current = started
+        .then(async () => {
+          if (html5QrCode && html5QrCode.isScanning) {
+            await html5QrCode.stop();
+            console.log('[カメラ停止] 成功');
+          }
+        })
+        .catch(err => console.error('[カメラ停止エラー]', err));
     };
-  }, [onScan, onClose]);
+  }, [cameraId, continuous, retailOnly]);
+
+  const handleCameraChange = (id: string) => {
+    window.localStorage.setItem(CAMERA_STORAGE_KEY, id);
+    setCameraId(id);
+  };
+
+  const handleTorchToggle = async () => {
+    try {
+      const next = !torch.on;
+      await scannerRef.current?.getRunningTrackCameraCapabilities().torchFeature().apply(next);
+      setTorch(prev => ({ ...prev, on: next }));
+    } catch (err) {
+      console.error('[ライト切替エラー]', err);
+    }
+  };
+
+  const handleZoomChange = async (value: number) => {
+    try {
+      await scannerRef.current?.getRunningTrackCameraCapabilities().zoomFeature().apply(value);
+      setZoom(prev => (prev ? { ...prev, value } : prev));
+    } catch (err) {
+      console.error('[ズーム変更エラー]', err);
+    }
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
-      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
         <h3 className="text-xl font-bold mb-4 text-center text-gray-800">
-          📷 バーコードをスキャン
+          📷 {continuous ? '連続スキャン' : 'バーコードをスキャン'}
         </h3>
-        
+
         {error ? (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
             <p className="font-bold">エラー</p>
             <p className="text-sm">{error}</p>
           </div>
         ) : null}
-        
+
         {isScanning && (
           <div className="bg-blue-100 border border-blue-400 text-blue-700 px-4 py-3 rounded mb-4" role="alert">
             <p className="text-sm">読み取り中...</p>
           </div>
         )}
-        
-        <div 
-          id="reader" 
+
+        {continuous && lastResult && !isScanning && (
+          <div
+            className={`px-4 py-2 rounded mb-4 text-sm font-bold ${lastResult.accepted ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}
+          >
+            {lastResult.accepted ? '✓ 追加' : '✕ 読取不可'}: {lastResult.code}
+          </div>
+        )}
+
+        <div
+          id="reader"
           className="w-full aspect-square rounded-lg overflow-hidden border-2 border-blue-300 bg-gray-100"
         />
+
+        <div className="flex items-center gap-2 mt-3">
+          {cameras.length > 1 && (
+            <select
+              aria-label="カメラ"
+              value={cameraId ?? ''}
+              onChange={(e) => handleCameraChange(e.target.value)}
+              className="flex-1 min-w-0 border-2 border-gray-300 rounded-lg px-2 py-2 text-sm bg-white"
+            >
+              <option value="" disabled>カメラを選択</option>
+              {cameras.map(camera => (
+                <option key={camera.id} value={camera.id}>{camera.label || camera.id}</option>
+              ))}
+            </select>
+          )}
+          {torch.supported && (
+            <button
+              onClick={handleTorchToggle}
+              className={`px-3 py-2 rounded-lg font-bold border-2 ${torch.on ? 'bg-yellow-300 border-yellow-400' : 'bg-white border-gray-300'}`}
+            >
+              🔦 ライト
+            </button>
+          )}
+        </div>
+        {zoom && (
+          <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+            ズーム
+            <input
+              type="range"
+              min={zoom.min}
+              max={zoom.max}
+              step={zoom.step}
+              value={zoom.value}
+              onChange={(e) => handleZoomChange(Number(e.target.value))}
+              className="flex-1"
+            />
+          </label>
+        )}
+
+        {overlay && <div className="mt-3">{overlay}</div>}
+
         <button
           onClick={onClose}
           className="w-full mt-4 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors transform active:scale-95"
         >
-          ✕ キャンセル
+          {continuous ? '✓ スキャン終了' : '✕ キャンセル'}
         </button>
       </div>
     </div>
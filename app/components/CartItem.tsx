@@ -0,0 +1,116 @@
+'use client';
+
+import { lineKey } from '@/app/lib/pricing';
+import type { PricedLine } from '@/app/types';
+
+interface CartItemProps {
+  line: PricedLine;
+  onIncrease: (key: string) => void;
+  onDecrease: (key: string) => void;
+  onRemove: (key: string) => void;
+  onDiscount: (key: string) => void;
+  onOverridePrice: (key: string) => void;
+  selected?: boolean; // キーボード操作の対象
+  onSelect?: (key: string) => void;
+}
+
+/**
+ * 購入リストの1明細
+ */
+export default function CartItem({
+  line,
+  onIncrease,
+  onDecrease,
+  onRemove,
+  onDiscount,
+  onOverridePrice,
+  selected = false,
+  onSelect,
+}: CartItemProps) {
+  const { item } = line;
+  const key = lineKey(item);
+
+  return (
+    <div
+      onClick={() => onSelect?.(key)}
+      aria-current={selected || undefined}
+      className={`p-4 bg-gray-50 rounded-lg border border-gray-200 ${selected ? 'ring-2 ring-indigo-500' : ''}`}
+    >
+      <div className="flex justify-between items-start mb-3">
+        <div className="flex-1">
+          <p className="font-bold text-lg">{item.prd_name}</p>
+          <p className="text-sm text-gray-600">
+            コード: {item.prd_code}
+          </p>
+          <p className="text-sm text-gray-600">
+            単価: {item.prd_price.toLocaleString()}円
+            {item.original_price !== undefined && (
+              <span className="ml-1 font-bold text-purple-700">（売価変更 元{item.original_price.toLocaleString()}円）</span>
+            )}
+            {item.embedded?.weight_g !== undefined && `（${item.embedded.weight_g.toLocaleString()}g）`}
+            {item.tax_category === 'reduced' && (
+              <span className="ml-2 text-xs font-bold text-green-700">※軽減税率</span>
+            )}
+          </p>
+          {line.discounts.map((discount, index) => (
+            <p key={index} className="text-sm font-bold text-red-600">
+              {discount.label} −{discount.amount.toLocaleString()}円
+            </p>
+          ))}
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <button
+            onClick={() => onRemove(key)}
+            className="text-red-500 hover:text-red-700 font-bold text-xl px-2"
+            title="削除"
+          >
+            ✕
+          </button>
+          <button
+            onClick={() => onDiscount(key)}
+            className="text-xs font-bold text-orange-600 border border-orange-300 rounded px-2 py-1 hover:bg-orange-50"
+          >
+            値引
+          </button>
+          <button
+            onClick={() => onOverridePrice(key)}
+            className="text-xs font-bold text-purple-700 border border-purple-300 rounded px-2 py-1 hover:bg-purple-50"
+          >
+            売価変更
+          </button>
+        </div>
+      </div>
+      
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onDecrease(key)}
+            className="w-10 h-10 bg-red-500 text-white font-bold rounded-lg hover:bg-red-600 active:scale-95 flex items-center justify-center text-xl"
+          >
+            −
+          </button>
+          <span className="text-xl font-bold w-12 text-center">
+            {item.quantity}
+          </span>
+          <button
+            onClick={() => onIncrease(key)}
+            className="w-10 h-10 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 active:scale-95 flex items-center justify-center text-xl"
+          >
+            ＋
+          </button>
+        </div>
+        
+        <div className="text-right">
+          {line.net_amount !== line.gross_amount && (
+            <p className="text-sm text-gray-400 line-through">
+              {line.gross_amount.toLocaleString()}円
+            </p>
+          )}
+          <p className="text-lg font-bold text-blue-600">
+            小計: {line.net_amount.toLocaleString()}円
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { TENDER_LABELS } from '@/app/lib/tender';
+import type { CompletedSale } from '@/app/types';
+
+interface CompletionScreenProps {
+  sale: CompletedSale;
+  onShowReceipt?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 会計完了画面
+ */
+export default function CompletionScreen({ sale, onShowReceipt, onClose }: CompletionScreenProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <p className="text-5xl text-center mb-2">{sale.queued ? '⏳' : '✅'}</p>
+        <h3 className="text-2xl font-bold mb-1 text-center text-gray-800">
+          {sale.queued ? '取引を保留しました' : 'お会計完了'}
+        </h3>
+        <p className="text-sm text-center text-gray-600 mb-4">
+          {sale.queued
+            ? 'オフラインのため、接続回復後に自動送信します'
+            : sale.transaction_no != null && `取引番号: ${sale.transaction_no}`}
+        </p>
+
+        <dl className="divide-y divide-gray-200 mb-4">
+          <div className="flex justify-between py-2 text-xl font-bold">
+            <dt>合計（税込）</dt>
+            <dd className="text-blue-600">{sale.tax.total_amount.toLocaleString()}円</dd>
+          </div>
+          <div className="flex justify-between py-2 text-gray-700">
+            <dt>うち消費税</dt>
+            <dd>{sale.tax.total_tax.toLocaleString()}円</dd>
+          </div>
+          {sale.tenders.map((tender, index) => (
+            <div key={index} className="flex justify-between py-2 text-gray-700">
+              <dt>{TENDER_LABELS[tender.type]}</dt>
+              <dd>{tender.amount.toLocaleString()}円</dd>
+            </div>
+          ))}
+          <div className="flex justify-between py-2 text-3xl font-bold text-green-600">
+            <dt>お釣り</dt>
+            <dd>{sale.change_amount.toLocaleString()}円</dd>
+          </div>
+          {sale.member && (
+            <div className="flex justify-between py-2 text-gray-700">
+              <dt>今回付与ポイント（残高）</dt>
+              <dd>
+                {sale.member.points_earned.toLocaleString()}ポイント（{sale.member.point_balance.toLocaleString()}ポイント）
+              </dd>
+            </div>
+          )}
+        </dl>
+
+        {onShowReceipt && (
+          <button
+            onClick={onShowReceipt}
+            className="w-full mb-2 bg-white text-indigo-600 font-bold py-3 px-4 rounded-lg border-2 border-indigo-300 hover:bg-indigo-50 text-lg active:scale-95"
+          >
+            🧾 レシート
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          autoFocus
+          className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-xl shadow-md active:scale-95"
+        >
+          次のお客様へ
+        </button>
+      </div>
+    </div>
+  );
+}
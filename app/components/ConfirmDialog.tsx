@@ -0,0 +1,45 @@
+'use client';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * 操作の確認
+ * 続けるかどうかを確認し、キャンセルでは何もしない
+ */
+export default function ConfirmDialog({
+  title,
+  message,
+  confirmLabel,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div role="alertdialog" aria-label={title} className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">{title}</h3>
+        <p className="text-gray-700">{message}</p>
+        <div className="grid grid-cols-2 gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={onConfirm}
+            autoFocus
+            className="px-4 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors transform active:scale-95"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { CONNECTION_LABELS } from '@/app/lib/connection';
+import type { ConnectionState, ConnectionStatus } from '@/app/types';
+
+interface ConnectionIndicatorProps {
+  status: ConnectionStatus;
+  onCheck?: () => void; // タップで再確認
+}
+
+const STATE_STYLES: Record<ConnectionState, { dot: string; badge: string }> = {
+  online: { dot: 'bg-green-500', badge: 'border-green-300 bg-green-50 text-green-800' },
+  slow: { dot: 'bg-yellow-500', badge: 'border-yellow-300 bg-yellow-50 text-yellow-800' },
+  offline: { dot: 'bg-red-500 animate-pulse', badge: 'border-red-300 bg-red-50 text-red-800' },
+};
+
+/**
+ * 接続状態の表示
+ * オンライン・低速・オフラインとバックエンドのバージョン・応答時間を常時表示する
+ */
+export default function ConnectionIndicator({ status, onCheck }: ConnectionIndicatorProps) {
+  const style = STATE_STYLES[status.state];
+  const details = [
+    status.reason,
+    status.error_rate > 0 && `失敗率 ${Math.round(status.error_rate * 100)}%`,
+    status.checked_at && `最終確認 ${new Date(status.checked_at).toLocaleTimeString('ja-JP')}`,
+  ].filter(Boolean).join(' ／ ');
+
+  return (
+    <button
+      type="button"
+      onClick={onCheck}
+      title={details}
+      aria-label={`接続状態: ${CONNECTION_LABELS[status.state]}`}
+      className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-bold ${style.badge}`}
+    >
+      <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`} />
+      <span>{CONNECTION_LABELS[status.state]}</span>
+      {status.latency_ms !== null && status.state !== 'offline' && (
+        <span className="font-normal">{status.latency_ms.toLocaleString()}ms</span>
+      )}
+      {status.version && <span className="font-normal text-gray-500">API v{status.version}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import type { ManualDiscount } from '@/app/types';
+
+interface DiscountDialogProps {
+  title: string;
+  current?: ManualDiscount | null;
+  onApply: (discount: ManualDiscount | null) => void;
+  onClose: () => void;
+}
+
+const PERCENT_PRESETS = [10, 20, 30, 50];
+
+/**
+ * 値引入力ダイアログ（割引率または値引額）
+ */
+export default function DiscountDialog({ title, current, onApply, onClose }: DiscountDialogProps) {
+  const [type, setType] = useState<ManualDiscount['type']>(current?.type ?? 'percent');
+  const [value, setValue] = useState(current ? String(current.value) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = () => {
+    const numeric = Number(value);
+    if (!Number.isInteger(numeric) || numeric <= 0) {
+      setError('1以上の整数を入力してください');
+      return;
+    }
+    if (type === 'percent' && numeric > 100) {
+      setError('割引率は100%以下で入力してください');
+      return;
+    }
+    onApply({ type, value: numeric });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">{title}</h3>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {(['percent', 'amount'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setType(option)}
+              className={`py-2 rounded-lg font-bold border-2 ${type === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}
+            >
+              {option === 'percent' ? '％引' : '円引'}
+            </button>
+          ))}
+        </div>
+
+        {type === 'percent' && (
+          <div className="grid grid-cols-4 gap-2 mb-4">
+            {PERCENT_PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => setValue(String(preset))}
+                className="py-2 rounded-lg font-bold bg-gray-100 hover:bg-gray-200"
+              >
+                {preset}%
+              </button>
+            ))}
+          </div>
+        )}
+
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          placeholder={type === 'percent' ? '割引率（%）' : '値引額（円）'}
+          className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-xl"
+        />
+        {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          <button
+            onClick={() => onApply(null)}
+            disabled={!current}
+            className="px-4 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 disabled:opacity-50 active:scale-95"
+          >
+            値引解除
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 active:scale-95"
+          >
+            適用
+          </button>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-full mt-2 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors transform active:scale-95"
+        >
+          ✕ キャンセル
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import type { OutboxEntry } from '@/app/types';
+
+interface FailedSalesDialogProps {
+  entries: OutboxEntry[];
+  isFlushing: boolean;
+  onRetry: (entry: OutboxEntry) => void;
+  onDiscard: (entry: OutboxEntry) => void; // 責任者の承認を受けてから破棄する（承認画面に移るためダイアログは閉じる）
+  onClose: () => void;
+}
+
+const formatDateTime = (iso: string): string =>
+  new Date(iso).toLocaleString('ja-JP', { dateStyle: 'short', timeStyle: 'short' });
+
+// 預り金額からお釣りを除いた会計金額
+const saleAmount = (entry: OutboxEntry): number =>
+  entry.payload.tenders.reduce((sum, tender) => sum + tender.amount, 0) - entry.payload.change_amount;
+
+/**
+ * 送信できなかった取引
+ * オフライン保留のうちサーバーが受け付けなかった取引の確認と、再送・破棄
+ */
+export default function FailedSalesDialog({
+  entries,
+  isFlushing,
+  onRetry,
+  onDiscard,
+  onClose,
+}: FailedSalesDialogProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">⚠ 送信できなかった取引</h3>
+        <p className="text-sm text-gray-600 mb-2">
+          原因を解消してから再送してください。破棄しても電子ジャーナルの記録は残ります
+        </p>
+
+        {entries.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between gap-2 py-3">
+                <div className="min-w-0">
+                  <p className="font-bold text-gray-800">
+                    {formatDateTime(entry.created_at)} ／ {entry.payload.items.reduce((sum, item) => sum + item.quantity, 0)}点 ／ {saleAmount(entry).toLocaleString()}円
+                  </p>
+                  <p className="text-xs text-gray-600 truncate">取引ID: {entry.payload.transaction_id}</p>
+                  {entry.last_error && (
+                    <p className="text-xs text-red-600">{entry.last_error}</p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => onDiscard(entry)}
+                    className="px-3 py-2 rounded-lg border border-gray-300 text-sm font-bold text-gray-600 hover:bg-gray-100"
+                  >
+                    破棄
+                  </button>
+                  <button
+                    onClick={() => onRetry(entry)}
+                    disabled={isFlushing}
+                    className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm font-bold hover:bg-blue-700 disabled:bg-gray-400"
+                  >
+                    再送
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 py-3">送信できなかった取引はありません</p>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { fetchHeldCarts } from '@/app/lib/api';
+import { loadHeldCarts, formatHoldAge } from '@/app/lib/cartStore';
+import type { HeldCart } from '@/app/types';
+
+interface HeldCartsDialogProps {
+  storeCd: string;
+  posNo: string;
+  cartItemCount: number; // 会計中の点数（0の場合は保留できない）
+  onHold: (label: string) => void;
+  onResume: (hold: HeldCart, isLocal: boolean) => void;
+  onDiscard: (hold: HeldCart) => void; // 責任者の承認を受けてから破棄する（承認画面に移るためダイアログは閉じる）
+  onClose: () => void;
+}
+
+/**
+ * 保留（一時預かり）
+ * 会計中の購入リストの保留と、保留中の購入リストの一覧・再開
+ */
+export default function HeldCartsDialog({
+  storeCd,
+  posNo,
+  cartItemCount,
+  onHold,
+  onResume,
+  onDiscard,
+  onClose,
+}: HeldCartsDialogProps) {
+  const [label, setLabel] = useState('');
+  const [localHolds, setLocalHolds] = useState<HeldCart[]>([]);
+  const [remoteHolds, setRemoteHolds] = useState<HeldCart[] | null>(null);
+  const [isRemoteUnavailable, setIsRemoteUnavailable] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    setLocalHolds(loadHeldCarts());
+  }, []);
+
+  // 他の端末の保留（オフライン時はこの端末の保留のみ表示）
+  useEffect(() => {
+    let cancelled = false;
+    fetchHeldCarts(storeCd)
+      .then(holds => {
+        if (!cancelled) setRemoteHolds(holds);
+      })
+      .catch(() => {
+        if (!cancelled) setIsRemoteUnavailable(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storeCd]);
+
+  // 経過時間の表示を更新
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const otherHolds = (remoteHolds ?? []).filter(
+    hold => hold.pos_no !== posNo && !localHolds.some(local => local.hold_id === hold.hold_id)
+  );
+
+  const holdRow = (hold: HeldCart, isLocal: boolean) => (
+    <li key={hold.hold_id} className="flex items-center justify-between gap-2 py-3">
+      <div className="min-w-0">
+        <p className="font-bold text-gray-800 truncate">{hold.label}</p>
+        <p className="text-xs text-gray-600">
+          {formatHoldAge(hold.held_at, now)} ／ {hold.item_count}点 ／ {hold.total_amount.toLocaleString()}円
+          {!isLocal && ` ／ POS ${hold.pos_no}`}
+        </p>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        {isLocal && (
+          <button
+            onClick={() => onDiscard(hold)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-sm font-bold text-gray-600 hover:bg-gray-100"
+          >
+            破棄
+          </button>
+        )}
+        <button
+          onClick={() => onResume(hold, isLocal)}
+          disabled={cartItemCount > 0}
+          className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm font-bold hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          再開
+        </button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">⏸ 保留</h3>
+
+        <form
+          className="flex gap-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onHold(label.trim());
+          }}
+        >
+          <input
+            aria-label="保留名"
+            placeholder="番号・お客様の目印（任意）"
+            autoComplete="off"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="flex-1 min-w-0 border-2 border-gray-300 rounded-lg px-4 py-3"
+          />
+          <button
+            type="submit"
+            disabled={cartItemCount === 0}
+            className="px-4 bg-orange-500 text-white font-bold rounded-lg hover:bg-orange-600 disabled:bg-gray-400"
+          >
+            保留する
+          </button>
+        </form>
+
+        {cartItemCount > 0 && (localHolds.length > 0 || otherHolds.length > 0) && (
+          <p className="text-sm text-gray-600 mb-2">再開するには、会計中の商品を保留するか会計を済ませてください</p>
+        )}
+
+        <p className="text-sm font-bold text-gray-600">この端末の保留</p>
+        {localHolds.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {localHolds.map(hold => holdRow(hold, true))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 py-3">保留はありません</p>
+        )}
+
+        <p className="text-sm font-bold text-gray-600 mt-4">他の端末の保留</p>
+        {isRemoteUnavailable ? (
+          <p className="text-sm text-gray-500 py-3">サーバーに接続できないため表示できません</p>
+        ) : remoteHolds === null ? (
+          <p className="text-sm text-gray-500 py-3">読み込み中...</p>
+        ) : otherHolds.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {otherHolds.map(hold => holdRow(hold, false))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 py-3">保留はありません</p>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import Link from 'next/link';
+import type { HotkeyItem } from '@/app/types';
+
+interface HotkeyGridProps {
+  hotkeys: HotkeyItem[];
+  disabled?: boolean;
+  onSelect: (hotkey: HotkeyItem) => void;
+}
+
+/**
+ * ホットキー
+ * レジ袋・コーヒー等、バーコードのない商品をワンタッチで登録する（並びは端末設定で変更）
+ */
+export default function HotkeyGrid({ hotkeys, disabled = false, onSelect }: HotkeyGridProps) {
+  if (hotkeys.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-4">
+        ホットキーは<Link href="/settings" className="text-blue-600 underline">端末設定</Link>で登録できます
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {hotkeys.map(hotkey => (
+        <button
+          key={hotkey.prd_code}
+          onClick={() => onSelect(hotkey)}
+          disabled={disabled}
+          className="min-h-16 px-2 py-3 rounded-lg bg-amber-50 border-2 border-amber-300 text-amber-900 font-bold text-sm break-words hover:bg-amber-100 disabled:opacity-50 active:scale-95"
+        >
+          {hotkey.label}
+        </button>
+      ))}
+    </div>
+  );
+}
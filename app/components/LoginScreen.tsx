@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+import { useSession } from '@/app/components/SessionProvider';
+import type { OperatorCredentials, Shift } from '@/app/types';
+
+interface LoginScreenProps {
+  onShiftOpened: (shift: Shift) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * 担当者サインイン／ロック解除画面
+ * 従業員コード+PIN入力、またはスタッフバッジのスキャンで認証する
+ */
+export default function LoginScreen({ onShiftOpened, onError }: LoginScreenProps) {
+  const { shift, isLocked, signIn, unlock } = useSession();
+  const isUnlockMode = isLocked && shift !== null;
+
+  const [empCd, setEmpCd] = useState(isUnlockMode ? shift.operator.emp_cd : '');
+  const [pin, setPin] = useState('');
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = useCallback(async (credentials: OperatorCredentials) => {
+    setIsSubmitting(true);
+    try {
+      if (isUnlockMode) {
+        await unlock(credentials);
+      } else {
+        onShiftOpened(await signIn(credentials, Number(openingFloat) || 0));
+      }
+    } catch (error: any) {
+      console.error('[サインインエラー]', error);
+      onError(error.message || 'サインインに失敗しました');
+      setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [isUnlockMode, unlock, signIn, openingFloat, onShiftOpened, onError]);
+
+  const handleBadgeScan = useCallback((result: string) => {
+    setIsScannerOpen(false);
+    submit({ badge_code: result.trim() });
+  }, [submit]);
+
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-6 rounded-2xl shadow-lg">
+      {isScannerOpen && (
+        <BarcodeScanner onScan={handleBadgeScan} onClose={handleCloseScanner} />
+      )}
+
+      <h2 className="text-2xl font-bold text-gray-800 text-center mb-2">
+        {isUnlockMode ? '🔒 ロック中' : '担当者サインイン'}
+      </h2>
+      {isUnlockMode && (
+        <p className="text-center text-gray-600 mb-4">
+          {shift.operator.emp_name}（{shift.operator.emp_cd}）のシフト中です
+        </p>
+      )}
+
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit({ emp_cd: empCd.trim(), pin });
+        }}
+      >
+        <div>
+          <label className="block font-bold text-gray-800 mb-1" htmlFor="emp_cd">従業員コード</label>
+          <input
+            id="emp_cd"
+            inputMode="numeric"
+            autoComplete="off"
+            value={empCd}
+            readOnly={isUnlockMode}
+            onChange={(e) => setEmpCd(e.target.value)}
+            className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg read-only:bg-gray-100"
+          />
+        </div>
+        <div>
+          <label className="block font-bold text-gray-800 mb-1" htmlFor="pin">PIN</label>
+          <input
+            id="pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg tracking-widest"
+          />
+        </div>
+        {!isUnlockMode && (
+          <div>
+            <label className="block font-bold text-gray-800 mb-1" htmlFor="opening_float">釣銭準備金（円）</label>
+            <input
+              id="opening_float"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+            />
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-lg shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95"
+        >
+          {isSubmitting ? '認証中...' : isUnlockMode ? '🔓 ロック解除' : '▶ シフト開始'}
+        </button>
+      </form>
+
+      <button
+        onClick={() => setIsScannerOpen(true)}
+        disabled={isSubmitting}
+        className="w-full mt-3 bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors text-lg shadow-md disabled:bg-gray-400 active:scale-95"
+      >
+        🪪 スタッフバッジをスキャン
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { searchProductsByName } from '@/app/lib/api';
+import { parseBarcode } from '@/app/lib/barcode';
+import { getRecentProducts, getFrequentProducts } from '@/app/lib/productHistory';
+import type { InStoreBarcodeRule, Product } from '@/app/types';
+
+interface ManualEntryPanelProps {
+  onCode: (code: string) => void;
+  onSelect: (product: Product) => void; // 商品名検索の結果
+  onQuickSelect: (product: Product) => void; // 最近・よく使う商品（端末の履歴のため、商品マスタを検索し直す）
+  historyVersion: number; // 商品追加のたびに変わり、履歴を再読込させる
+  barcodeRules: InStoreBarcodeRule[]; // スキャナーと同じ規則でコードを検証する
+}
+
+// 商品名検索の入力待ち時間
+const SEARCH_DEBOUNCE_MS = 300;
+const QUICK_ITEM_COUNT = 8;
+
+/**
+ * 手入力パネル
+ * JANコードの手入力、商品名のインクリメンタル検索、最近・よく使う商品のワンタップ追加
+ */
+export default function ManualEntryPanel({
+  onCode,
+  onSelect,
+  onQuickSelect,
+  historyVersion,
+  barcodeRules,
+}: ManualEntryPanelProps) {
+  const [mode, setMode] = useState<'code' | 'name'>('code');
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [nameQuery, setNameQuery] = useState('');
+  const [candidates, setCandidates] = useState<Product[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [recent, setRecent] = useState<Product[]>([]);
+  const [frequent, setFrequent] = useState<Product[]>([]);
+
+  useEffect(() => {
+    setRecent(getRecentProducts(QUICK_ITEM_COUNT));
+    setFrequent(getFrequentProducts(QUICK_ITEM_COUNT));
+  }, [historyVersion]);
+
+  // 商品名のインクリメンタル検索（入力が止まってから検索）
+  useEffect(() => {
+    if (mode !== 'name' || !nameQuery.trim()) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const products = await searchProductsByName(nameQuery);
+        if (!cancelled) setCandidates(products);
+      } catch {
+        if (!cancelled) setCandidates([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mode, nameQuery]);
+
+  const handleCodeSubmit = () => {
+    const trimmed = code.trim();
+    const parsed = parseBarcode(trimmed, barcodeRules);
+    if (!parsed.valid) {
+      setCodeError(`${parsed.message}（JAN・UPCは8桁・12桁・13桁、ITFは14桁）`);
+      return;
+    }
+    setCodeError(null);
+    setCode('');
+    onCode(trimmed);
+  };
+
+  const handleSelect = (product: Product) => {
+    setNameQuery('');
+    setCandidates([]);
+    onSelect(product);
+  };
+
+  const quickButtons = (title: string, products: Product[]) =>
+    products.length > 0 && (
+      <div className="mt-4">
+        <p className="text-sm font-bold text-gray-600 mb-2">{title}</p>
+        <div className="grid grid-cols-2 gap-2">
+          {products.map(product => (
+            <button
+              key={product.prd_code}
+              onClick={() => onQuickSelect(product)}
+              className="text-left px-3 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 active:scale-95"
+            >
+              <span className="block font-bold text-sm truncate">{product.prd_name}</span>
+              <span className="block text-xs text-gray-600">{product.prd_price.toLocaleString()}円</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {(['code', 'name'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`py-2 rounded-lg font-bold border-2 ${mode === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}
+          >
+            {option === 'code' ? 'コード入力' : '商品名検索'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'code' ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCodeSubmit();
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              aria-label="JANコード"
+              placeholder="JANコード（8桁/12桁/13桁/14桁）"
+              inputMode="numeric"
+              autoComplete="off"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value.replace(/\D/g, ''));
+                setCodeError(null);
+              }}
+              className="flex-1 border-2 border-gray-300 rounded-lg px-4 py-3 text-lg tracking-wider"
+            />
+            <button
+              type="submit"
+              disabled={!code}
+              className="px-4 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+            >
+              追加
+            </button>
+          </div>
+          {codeError && <p className="text-sm text-red-600 mt-1">{codeError}</p>}
+        </form>
+      ) : (
+        <div>
+          <input
+            aria-label="商品名"
+            placeholder="商品名を入力"
+            autoComplete="off"
+            value={nameQuery}
+            onChange={(e) => setNameQuery(e.target.value)}
+            className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+          />
+          {isSearching && <p className="text-sm text-gray-500 mt-2">検索中...</p>}
+          {!isSearching && nameQuery.trim() && candidates.length === 0 && (
+            <p className="text-sm text-gray-500 mt-2">該当する商品がありません</p>
+          )}
+          {candidates.length > 0 && (
+            <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white max-h-64 overflow-y-auto">
+              {candidates.map(product => (
+                <li key={product.prd_code}>
+                  <button
+                    onClick={() => handleSelect(product)}
+                    className="w-full flex justify-between items-center px-3 py-2 text-left hover:bg-blue-50"
+                  >
+                    <span>
+                      <span className="block font-bold">{product.prd_name}</span>
+                      <span className="block text-xs text-gray-500">{product.prd_code}</span>
+                    </span>
+                    <span className="font-bold text-blue-600">{product.prd_price.toLocaleString()}円</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {quickButtons('よく使う商品', frequent)}
+      {quickButtons('最近の商品', recent.filter(p => !frequent.some(f => f.prd_code === p.prd_code)))}
+    </div>
+  );
+}
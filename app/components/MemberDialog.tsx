@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+import { lookupMember } from '@/app/lib/api';
+import type { Member } from '@/app/types';
+
+interface MemberDialogProps {
+  onAttach: (member: Member) => void;
+  onClose: () => void;
+}
+
+/**
+ * 会員カードの読取ダイアログ
+ * 会員カードのバーコードをスキャンするか会員番号を入力して、会計に会員を登録する
+ */
+export default function MemberDialog({ onAttach, onClose }: MemberDialogProps) {
+  const [memberId, setMemberId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = useCallback(async (id: string) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const member = await lookupMember(id);
+      if (!member) {
+        setError('会員が見つかりませんでした。カードをお確かめください');
+        return;
+      }
+      onAttach(member);
+    } catch (err: any) {
+      setError(err.message || '会員を検索できませんでした');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [onAttach]);
+
+  const handleCardScan = useCallback((result: string) => {
+    setIsScannerOpen(false);
+    setMemberId(result.trim());
+    search(result);
+  }, [search]);
+
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      {isScannerOpen && (
+        <BarcodeScanner onScan={handleCardScan} onClose={handleCloseScanner} />
+      )}
+
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">💳 会員カード</h3>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <button
+          onClick={() => setIsScannerOpen(true)}
+          disabled={isSearching}
+          className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 active:scale-95"
+        >
+          📷 カードをスキャン
+        </button>
+
+        <form
+          className="flex gap-2 mt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            search(memberId);
+          }}
+        >
+          <input
+            aria-label="会員番号"
+            placeholder="会員番号"
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            value={memberId}
+            onChange={(e) => setMemberId(e.target.value.replace(/\D/g, ''))}
+            className="flex-1 min-w-0 border-2 border-gray-300 rounded-lg px-4 py-3 text-lg tracking-wider"
+          />
+          <button
+            type="submit"
+            disabled={isSearching || !memberId}
+            className="px-4 py-3 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isSearching ? '検索中...' : '検索'}
+          </button>
+        </form>
+
+        <button
+          onClick={onClose}
+          disabled={isSearching}
+          className="w-full mt-4 px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95 disabled:opacity-50"
+        >
+          キャンセル
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+interface NumericKeypadProps {
+  value: string;
+  pendingQuantity: number | null; // 「数量 ×」で指定済みの数量
+  onDigit: (digit: string) => void;
+  onMultiply: () => void;
+  onEnter: () => void;
+  onClear: () => void;
+}
+
+const DIGIT_ROWS = [['7', '8', '9'], ['4', '5', '6'], ['1', '2', '3']];
+
+/**
+ * レジのテンキー
+ * 数字を入力して「登録」で商品コード、「×」で次に登録する商品の数量を指定する
+ */
+export default function NumericKeypad({ value, pendingQuantity, onDigit, onMultiply, onEnter, onClear }: NumericKeypadProps) {
+  const digitButton = (digit: string) => (
+    <button
+      key={digit}
+      onClick={() => onDigit(digit)}
+      aria-label={`テンキー ${digit}`}
+      className="py-3 rounded-lg bg-gray-100 text-xl font-bold text-gray-800 hover:bg-gray-200 active:scale-95"
+    >
+      {digit}
+    </button>
+  );
+
+  return (
+    <div>
+      <div
+        className="flex items-baseline justify-end gap-2 mb-2 px-4 py-2 min-h-12 rounded-lg border-2 border-gray-300 bg-gray-50 font-mono"
+        aria-label="テンキー入力"
+        aria-live="polite"
+      >
+        {pendingQuantity !== null && (
+          <span className="text-sm font-bold text-indigo-600">{pendingQuantity} ×</span>
+        )}
+        <span className="text-2xl tracking-wider text-gray-800 break-all">{value}</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        <div className="col-span-3 grid grid-cols-3 gap-2">
+          {DIGIT_ROWS.flat().map(digitButton)}
+          {digitButton('0')}
+          {digitButton('00')}
+          <button
+            onClick={onClear}
+            aria-label="テンキー クリア"
+            className="py-3 rounded-lg bg-gray-200 text-xl font-bold text-gray-700 hover:bg-gray-300 active:scale-95"
+          >
+            C
+          </button>
+        </div>
+        <div className="grid grid-rows-2 gap-2">
+          <button
+            onClick={onMultiply}
+            aria-label="数量 ×"
+            className="rounded-lg bg-indigo-100 text-xl font-bold text-indigo-700 hover:bg-indigo-200 active:scale-95"
+          >
+            ×
+          </button>
+          <button
+            onClick={onEnter}
+            className="rounded-lg bg-indigo-600 text-white font-bold hover:bg-indigo-700 active:scale-95"
+          >
+            登録
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
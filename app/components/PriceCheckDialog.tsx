@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+import { useHidScanner } from '@/app/hooks/useHidScanner';
+import { fetchStock, searchProduct } from '@/app/lib/api';
+import { getBarcodeRules, parseBarcode, resolveEmbeddedValue } from '@/app/lib/barcode';
+import { findActivePromotions, formatPromotion } from '@/app/lib/pricing';
+import { AGE_RESTRICTION_LABELS } from '@/app/lib/restrictions';
+import { calculateTax, getTaxSettings, TAX_CATEGORY_LABELS } from '@/app/lib/tax';
+import type { EmbeddedBarcodeValue, Product, Promotion, StockLevel, TaxSummary, TerminalConfig } from '@/app/types';
+
+interface PriceCheckDialogProps {
+  config: TerminalConfig;
+  promotions: Promotion[];
+  onClose: () => void;
+}
+
+interface PriceCheckResult {
+  product: Product;
+  embedded?: EmbeddedBarcodeValue;
+  tax: TaxSummary; // 1点あたりの税込・税抜金額
+}
+
+type StockState =
+  | { status: 'loading' }
+  | { status: 'loaded'; stock: StockLevel | null }
+  | { status: 'error' };
+
+/**
+ * 価格照会ダイアログ
+ * 購入リストに追加せずに、商品の価格（税込・税抜）・実施中の販促・店舗の在庫数を表示する
+ */
+export default function PriceCheckDialog({ config, promotions, onClose }: PriceCheckDialogProps) {
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<PriceCheckResult | null>(null);
+  const [stock, setStock] = useState<StockState>({ status: 'loading' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  // 続けて照会した場合に、前の商品の在庫で上書きしないため
+  const lookupId = useRef(0);
+
+  const lookup = useCallback(async (raw: string) => {
+    const id = ++lookupId.current;
+    setError(null);
+    setResult(null);
+
+    const parsed = parseBarcode(raw, getBarcodeRules(config));
+    if (!parsed.valid) {
+      setError(parsed.message);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const { product } = await searchProduct(parsed.lookup_code);
+      if (id !== lookupId.current) return;
+      if (!product) {
+        setError('商品が見つかりませんでした');
+        return;
+      }
+
+      const embedded = parsed.embedded && resolveEmbeddedValue(product, parsed.embedded);
+      setResult({
+        product,
+        embedded,
+        tax: calculateTax(
+          [{ amount: embedded?.price ?? product.prd_price, tax_category: product.tax_category }],
+          getTaxSettings(config)
+        ),
+      });
+      setCode('');
+
+      setStock({ status: 'loading' });
+      try {
+        const level = await fetchStock(config.store_cd, product.prd_code);
+        if (id === lookupId.current) setStock({ status: 'loaded', stock: level });
+      } catch {
+        if (id === lookupId.current) setStock({ status: 'error' });
+      }
+    } catch (err: any) {
+      if (id === lookupId.current) setError(err.message || '商品の検索に失敗しました');
+    } finally {
+      if (id === lookupId.current) setIsSearching(false);
+    }
+  }, [config]);
+
+  const handleCameraScan = useCallback((scanned: string) => {
+    setIsScannerOpen(false);
+    lookup(scanned);
+  }, [lookup]);
+
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  // 照会中もUSB/Bluetoothスキャナーで続けて読み取れる
+  useHidScanner(lookup, config.scan_input !== 'camera' && !isScannerOpen);
+
+  const { product, embedded, tax } = result ?? {};
+  const bucket = tax?.buckets[0];
+  const activePromotions = product ? findActivePromotions(product.prd_code, promotions) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      {isScannerOpen && (
+        <BarcodeScanner onScan={handleCameraScan} onClose={handleCloseScanner} retailOnly />
+      )}
+
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <h3 className="text-xl font-bold mb-1 text-center text-gray-800">🏷 価格照会</h3>
+        <p className="text-sm text-center text-gray-500 mb-4">購入リストには追加されません</p>
+
+        {config.scan_input !== 'hid' && (
+          <button
+            onClick={() => setIsScannerOpen(true)}
+            disabled={isSearching}
+            className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 active:scale-95"
+          >
+            📷 商品をスキャン
+          </button>
+        )}
+
+        <form
+          className="flex gap-2 mt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookup(code);
+          }}
+        >
+          <input
+            aria-label="照会するJANコード"
+            placeholder="JANコード"
+            inputMode="numeric"
+            autoComplete="off"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className="flex-1 min-w-0 border-2 border-gray-300 rounded-lg px-4 py-3 text-lg tracking-wider"
+          />
+          <button
+            type="submit"
+            disabled={isSearching || !code}
+            className="px-4 py-3 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isSearching ? '照会中...' : '照会'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mt-4" role="alert">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {product && bucket && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+            <p className="font-bold text-lg">{product.prd_name}</p>
+            <p className="text-sm text-gray-600">
+              コード: {product.prd_code}
+              {product.department && ` ／ ${product.department}`}
+            </p>
+            {product.is_active === false && (
+              <p className="mt-1 text-sm font-bold text-red-600">販売停止中の商品です</p>
+            )}
+            {product.age_restriction && (
+              <p className="mt-1 text-sm font-bold text-red-600">
+                🔞 {AGE_RESTRICTION_LABELS[product.age_restriction]}（年齢確認が必要です）
+              </p>
+            )}
+
+            <div className="flex justify-between items-baseline mt-3">
+              <span className="text-gray-700">税込</span>
+              <span className="text-3xl font-bold text-blue-600">{bucket.total_inc_tax.toLocaleString()}円</span>
+            </div>
+            <div className="flex justify-between text-gray-700">
+              <span>税抜（{TAX_CATEGORY_LABELS[bucket.category]}）</span>
+              <span>{bucket.total_ex_tax.toLocaleString()}円（消費税 {bucket.tax.toLocaleString()}円）</span>
+            </div>
+            {embedded?.weight_g !== undefined && (
+              <p className="text-sm text-gray-600">重量 {embedded.weight_g.toLocaleString()}g</p>
+            )}
+            {product.purchase_limit !== undefined && (
+              <p className="text-sm text-gray-600">お一人様{product.purchase_limit}点まで</p>
+            )}
+
+            <div className="mt-3 border-t border-gray-200 pt-3">
+              <p className="text-sm font-bold text-gray-700 mb-1">実施中の販促</p>
+              {activePromotions.length > 0 ? (
+                <ul className="space-y-1">
+                  {activePromotions.map(promotion => (
+                    <li key={promotion.promo_id} className="text-sm font-bold text-red-600">
+                      {promotion.name}（{formatPromotion(promotion)}）
+                      {promotion.ends_at && (
+                        <span className="ml-1 font-normal text-gray-500">
+                          〜{new Date(promotion.ends_at).toLocaleDateString('ja-JP')}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">なし</p>
+              )}
+            </div>
+
+            <div className="mt-3 border-t border-gray-200 pt-3 flex justify-between items-baseline">
+              <span className="text-sm font-bold text-gray-700">店舗在庫</span>
+              {stock.status === 'loading' && <span className="text-sm text-gray-500">確認中...</span>}
+              {stock.status === 'error' && (
+                <span className="text-sm text-red-600">在庫を確認できませんでした</span>
+              )}
+              {stock.status === 'loaded' && (
+                stock.stock ? (
+                  <span className={`text-lg font-bold ${stock.stock.on_hand > 0 ? 'text-gray-800' : 'text-red-600'}`}>
+                    {stock.stock.on_hand > 0 ? `${stock.stock.on_hand.toLocaleString()}点` : '在庫なし'}
+                    {stock.stock.on_order !== undefined && stock.stock.on_order > 0 && (
+                      <span className="ml-1 text-sm font-normal text-gray-500">（入荷予定 {stock.stock.on_order.toLocaleString()}点）</span>
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-sm text-gray-500">在庫管理対象外</span>
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import type { PurchaseItem } from '@/app/types';
+
+interface PriceOverrideDialogProps {
+  item: PurchaseItem;
+  onApply: (price: number, reason: string) => void;
+  onClose: () => void;
+}
+
+const REASON_PRESETS = ['値札違い', '見切り', '破損・汚損'];
+
+/**
+ * 売価変更ダイアログ（変更後の単価と理由）
+ */
+export default function PriceOverrideDialog({ item, onApply, onClose }: PriceOverrideDialogProps) {
+  const originalPrice = item.original_price ?? item.prd_price;
+  const [price, setPrice] = useState(String(item.prd_price));
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = () => {
+    const numeric = Number(price);
+    if (!Number.isInteger(numeric) || numeric < 0) {
+      setError('0以上の整数を入力してください');
+      return;
+    }
+    if (numeric === item.prd_price) {
+      setError('現在の単価と同じです');
+      return;
+    }
+    if (numeric !== originalPrice && !reason.trim()) {
+      setError('売価変更の理由を入力してください');
+      return;
+    }
+    onApply(numeric, reason.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-2 text-center text-gray-800">売価変更</h3>
+        <p className="text-center text-gray-700 mb-4">
+          {item.prd_name}（元の単価 {originalPrice.toLocaleString()}円）
+        </p>
+
+        <label className="block text-sm font-bold text-gray-700 mb-1" htmlFor="override-price">変更後の単価（円）</label>
+        <input
+          id="override-price"
+          inputMode="numeric"
+          autoFocus
+          value={price}
+          onChange={(e) => {
+            setPrice(e.target.value.replace(/\D/g, ''));
+            setError(null);
+          }}
+          className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-2xl text-right mb-4"
+        />
+
+        <label className="block text-sm font-bold text-gray-700 mb-1" htmlFor="override-reason">理由</label>
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          {REASON_PRESETS.map(preset => (
+            <button
+              key={preset}
+              onClick={() => setReason(preset)}
+              className="py-2 rounded-lg font-bold bg-gray-100 hover:bg-gray-200 text-sm"
+            >
+              {preset}
+            </button>
+          ))}
+        </div>
+        <input
+          id="override-reason"
+          value={reason}
+          onChange={(e) => {
+            setReason(e.target.value);
+            setError(null);
+          }}
+          className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 mb-4"
+        />
+
+        {error && <p className="text-red-600 text-sm font-bold mb-4" role="alert">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-3 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors transform active:scale-95"
+          >
+            変更
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
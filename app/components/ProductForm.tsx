@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { validateProductInput } from '@/app/lib/productMaster';
+import { AGE_RESTRICTION_LABELS } from '@/app/lib/restrictions';
+import { TAX_CATEGORY_LABELS } from '@/app/lib/tax';
+import type { AgeRestriction, Product, ProductInput, TaxCategory } from '@/app/types';
+
+interface ProductFormProps {
+  product: Product | null; // nullの場合は新規登録
+  departments: string[]; // 部門の入力候補
+  onSubmit: (input: ProductInput) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * 商品の登録・編集ダイアログ
+ */
+export default function ProductForm({ product, departments, onSubmit, onClose }: ProductFormProps) {
+  const [code, setCode] = useState(product?.prd_code ?? '');
+  const [name, setName] = useState(product?.prd_name ?? '');
+  const [price, setPrice] = useState(product ? String(product.prd_price) : '');
+  const [taxCategory, setTaxCategory] = useState<TaxCategory>(product?.tax_category ?? 'standard');
+  const [department, setDepartment] = useState(product?.department ?? '');
+  const [ageRestriction, setAgeRestriction] = useState<AgeRestriction | ''>(product?.age_restriction ?? '');
+  const [purchaseLimit, setPurchaseLimit] = useState(
+    product?.purchase_limit !== undefined ? String(product.purchase_limit) : ''
+  );
+  const [errors, setErrors] = useState<Partial<Record<keyof ProductInput, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    const input: ProductInput = {
+      prd_code: code.trim(),
+      prd_name: name.trim(),
+      prd_price: /^\d+$/.test(price.trim()) ? Number(price.trim()) : NaN,
+      tax_category: taxCategory,
+      department: department.trim() || undefined,
+      is_active: product?.is_active ?? true,
+      age_restriction: ageRestriction || undefined,
+      purchase_limit: purchaseLimit.trim() === ''
+        ? undefined
+        : /^\d+$/.test(purchaseLimit.trim()) ? Number(purchaseLimit.trim()) : NaN,
+    };
+
+    const validation = validateProductInput(input);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await onSubmit(input);
+    } catch (error: any) {
+      setSubmitError(error.message || '保存に失敗しました');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fieldError = (key: keyof ProductInput) =>
+    errors[key] && <p className="text-sm text-red-600 mt-1">{errors[key]}</p>;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">
+          {product ? '✏ 商品の編集' : '＋ 商品の登録'}
+        </h3>
+
+        {submitError && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+            <p className="text-sm">{submitError}</p>
+          </div>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <div>
+            <label className="block font-bold text-gray-800 mb-1" htmlFor="prd_code">商品コード（JAN）</label>
+            <input
+              id="prd_code"
+              inputMode="numeric"
+              autoComplete="off"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg tracking-wider"
+            />
+            {fieldError('prd_code')}
+          </div>
+          <div>
+            <label className="block font-bold text-gray-800 mb-1" htmlFor="prd_name">商品名</label>
+            <input
+              id="prd_name"
+              autoComplete="off"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+            />
+            {fieldError('prd_name')}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="prd_price">価格（税込・円）</label>
+              <input
+                id="prd_price"
+                inputMode="numeric"
+                autoComplete="off"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+              />
+              {fieldError('prd_price')}
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="tax_category">税区分</label>
+              <select
+                id="tax_category"
+                value={taxCategory}
+                onChange={(e) => setTaxCategory(e.target.value as TaxCategory)}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+              >
+                {(Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[]).map(category => (
+                  <option key={category} value={category}>{TAX_CATEGORY_LABELS[category]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block font-bold text-gray-800 mb-1" htmlFor="department">部門</label>
+            <input
+              id="department"
+              list="product-departments"
+              autoComplete="off"
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+            />
+            <datalist id="product-departments">
+              {departments.map(d => <option key={d} value={d} />)}
+            </datalist>
+            {fieldError('department')}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="age_restriction">年齢確認</label>
+              <select
+                id="age_restriction"
+                value={ageRestriction}
+                onChange={(e) => setAgeRestriction(e.target.value as AgeRestriction | '')}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+              >
+                <option value="">不要</option>
+                {(Object.keys(AGE_RESTRICTION_LABELS) as AgeRestriction[]).map(restriction => (
+                  <option key={restriction} value={restriction}>{AGE_RESTRICTION_LABELS[restriction]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="purchase_limit">購入上限（点）</label>
+              <input
+                id="purchase_limit"
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder="制限なし"
+                value={purchaseLimit}
+                onChange={(e) => setPurchaseLimit(e.target.value)}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+              />
+              {fieldError('purchase_limit')}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 active:scale-95"
+          >
+            {isSubmitting ? '保存中...' : '保存'}
+          </button>
+        </form>
+
+        <button
+          onClick={onClose}
+          disabled={isSubmitting}
+          className="w-full mt-2 px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors transform active:scale-95 disabled:opacity-50"
+        >
+          キャンセル
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { fetchAllAdminProducts, importProducts } from '@/app/lib/api';
+import { buildImportPreview, importTargets, PRODUCT_FIELD_LABELS } from '@/app/lib/productMaster';
+import type { ProductChangeActor, ProductImportResult, ProductImportRow, ProductImportStatus } from '@/app/types';
+
+interface ProductImportPanelProps {
+  actor: ProductChangeActor; // 操作した担当者と承認した店長
+  onImported: (result: ProductImportResult) => void;
+}
+
+const STATUS_LABELS: Record<ProductImportStatus, { label: string; className: string }> = {
+  new: { label: '新規', className: 'bg-green-100 text-green-700' },
+  changed: { label: '変更', className: 'bg-blue-100 text-blue-700' },
+  unchanged: { label: '変更なし', className: 'bg-gray-100 text-gray-600' },
+  error: { label: 'エラー', className: 'bg-red-100 text-red-700' },
+};
+
+/**
+ * 商品CSV一括取込
+ * 取込前に登録済みの商品との差分と行ごとの入力エラーを表示し、新規・変更の行のみ登録する
+ */
+export default function ProductImportPanel({ actor, onImported }: ProductImportPanelProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ProductImportRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setRows(null);
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    setIsLoading(true);
+    try {
+      const [text, existing] = await Promise.all([file.text(), fetchAllAdminProducts()]);
+      const preview = buildImportPreview(text, existing);
+      if ('error' in preview) {
+        setError(preview.error);
+      } else {
+        setRows(preview.rows);
+      }
+    } catch (err: any) {
+      console.error('[商品CSV読込エラー]', err);
+      setError(err.message || 'CSVを読み込めませんでした');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await importProducts(importTargets(rows), actor);
+      reset();
+      onImported(result);
+    } catch (err: any) {
+      setError(err.message || '取込に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const counts = (rows ?? []).reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, error: 0 } as Record<ProductImportStatus, number>
+  );
+  const targetCount = counts.new + counts.changed;
+  const visibleRows = (rows ?? []).filter(row => showUnchanged || row.status !== 'unchanged');
+
+  return (
+    <div>
+      <label className="block w-full text-center bg-white text-indigo-600 font-bold py-3 px-4 rounded-lg border-2 border-dashed border-indigo-300 hover:bg-indigo-50 cursor-pointer">
+        {fileName ?? '📄 CSVファイルを選択'}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleFile(file);
+          }}
+        />
+      </label>
+      <p className="text-xs text-gray-500 mt-1">
+        見出し: prd_code, prd_name, prd_price, tax_category（standard/reduced）, department, is_active（1/0）,
+        age_restriction（alcohol/tobacco）, purchase_limit
+      </p>
+
+      {isLoading && <p className="text-sm text-gray-500 mt-3">処理中...</p>}
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mt-3" role="alert">
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {rows && (
+        <div className="mt-4">
+          <div className="flex flex-wrap gap-2 text-sm font-bold mb-2">
+            {(Object.keys(STATUS_LABELS) as ProductImportStatus[]).map(status => (
+              <span key={status} className={`px-2 py-1 rounded ${STATUS_LABELS[status].className}`}>
+                {STATUS_LABELS[status].label} {counts[status]}件
+              </span>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+            <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+            変更なしの行も表示
+          </label>
+
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+            {visibleRows.map(row => (
+              <li key={row.line} className="px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-gray-500 w-12 shrink-0">{row.line}行目</span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-bold ${STATUS_LABELS[row.status].className}`}>
+                    {STATUS_LABELS[row.status].label}
+                  </span>
+                  <span className="font-bold truncate">
+                    {row.input ? `${row.input.prd_code} ${row.input.prd_name}` : ''}
+                  </span>
+                </div>
+                {row.changes.map(change => (
+                  <p key={change.field} className="ml-14 text-gray-700">
+                    {PRODUCT_FIELD_LABELS[change.field]}: {change.before || '（なし）'} → <span className="font-bold">{change.after || '（なし）'}</span>
+                  </p>
+                ))}
+                {row.errors.map(message => (
+                  <p key={message} className="ml-14 text-red-600">{message}</p>
+                ))}
+              </li>
+            ))}
+            {visibleRows.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">表示する行はありません</li>
+            )}
+          </ul>
+
+          {counts.error > 0 && (
+            <p className="text-sm text-red-600 mt-2">エラーの行（{counts.error}件）は取込まれません</p>
+          )}
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <button
+              onClick={reset}
+              disabled={isLoading}
+              className="px-4 py-3 bg-gray-500 text-white font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-50"
+            >
+              やり直す
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={isLoading || targetCount === 0}
+              className="px-4 py-3 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+            >
+              {targetCount}件を取込む
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
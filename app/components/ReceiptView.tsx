@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createReceiptQrCode, renderReceiptHtml } from '@/app/lib/receipt';
+import type { Receipt } from '@/app/types';
+
+interface ReceiptViewProps {
+  receipt: Receipt;
+  width?: 58 | 80;
+  reprint?: boolean;
+  onClose?: () => void;
+}
+
+/**
+ * レシートのプレビュー・印刷・ダウンロード
+ * 印刷はプレビュー用iframeの内容をそのまま印刷する（感熱紙幅は @page で指定）
+ */
+export default function ReceiptView({ receipt, width = 80, reprint = false, onClose }: ReceiptViewProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    createReceiptQrCode(receipt).then(url => {
+      if (!cancelled) setQrDataUrl(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [receipt]);
+
+  const html = useMemo(
+    () => renderReceiptHtml(receipt, { width, qrDataUrl, reprint }),
+    [receipt, width, qrDataUrl, reprint]
+  );
+
+  const handlePrint = () => {
+    iframeRef.current?.contentWindow?.print();
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `receipt-${receipt.transaction_no ?? receipt.transaction_id}.html`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full flex flex-col">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">
+          🧾 {reprint ? 'レシート再印刷' : 'レシート'}
+        </h3>
+        <iframe
+          ref={iframeRef}
+          srcDoc={html}
+          title="レシート"
+          className="w-full flex-1 min-h-[24rem] border border-gray-200 rounded-lg bg-gray-100"
+        />
+        <div className="grid grid-cols-2 gap-2 mt-4">
+          <button
+            onClick={handlePrint}
+            className="px-4 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 active:scale-95"
+          >
+            🖨 印刷 / PDF保存
+          </button>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 active:scale-95"
+          >
+            ⬇ HTMLダウンロード
+          </button>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="w-full mt-2 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors transform active:scale-95"
+          >
+            ✕ 閉じる
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { REPORT_TYPE_LABELS } from '@/app/lib/salesReport';
+import { TAX_CATEGORY_LABELS } from '@/app/lib/tax';
+import type { SalesReport, SalesReportRow } from '@/app/types';
+
+interface SalesReportViewProps {
+  report: SalesReport;
+}
+
+const formatDateTime = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleString('ja-JP', { dateStyle: 'short', timeStyle: 'short' }) : '―';
+
+const yen = (amount: number): string => `${amount.toLocaleString()}円`;
+
+/**
+ * 売上レポート（X/Zレポート）の表示
+ */
+export default function SalesReportView({ report }: SalesReportViewProps) {
+  const summary: [string, string][] = [
+    ['総売上', `${report.sale_count.toLocaleString()}件 ／ ${yen(report.gross_sales)}`],
+    ['返品・取消', `${report.refund_count.toLocaleString()}件 ／ −${yen(report.refund_total)}`],
+    ['純売上', yen(report.net_sales)],
+    ['値引・販促', `−${yen(report.discount_total)}`],
+    ['販売点数', `${report.item_count.toLocaleString()}点`],
+  ];
+
+  const cash: [string, string][] = [
+    ['釣銭準備金', yen(report.cash.opening_float)],
+    ['現金売上', yen(report.cash.cash_sales)],
+    ['現金返金', `−${yen(report.cash.cash_refunds)}`],
+    ['想定在高', yen(report.cash.expected)],
+    ['実査在高', report.cash.counted === null ? '未入力' : yen(report.cash.counted)],
+  ];
+
+  const section = (title: string, rows: SalesReportRow[]) => (
+    <section className="mt-4">
+      <h4 className="font-bold text-gray-800 border-b border-gray-300 pb-1 mb-1">{title}</h4>
+      {rows.length > 0 ? (
+        <dl className="divide-y divide-gray-100 text-sm">
+          {rows.map(row => (
+            <div key={row.key} className="flex justify-between py-1">
+              <dt className="text-gray-600">{row.label}</dt>
+              <dd className="text-gray-800">
+                {row.count.toLocaleString()}件 ／ <span className="font-bold">{yen(row.amount)}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-sm text-gray-500 py-1">取引はありません</p>
+      )}
+    </section>
+  );
+
+  return (
+    <div>
+      <div className="text-center mb-4">
+        <p className="text-xl font-bold text-gray-800">
+          {REPORT_TYPE_LABELS[report.type]}
+          {report.z_no !== undefined && ` No.${report.z_no}`}
+        </p>
+        <p className="text-sm text-gray-600">
+          店舗 {report.store_cd} / POS {report.pos_no} ／ 作成 {formatDateTime(report.generated_at)}
+        </p>
+        <p className="text-sm text-gray-600">
+          集計期間 {formatDateTime(report.period_from)} 〜 {formatDateTime(report.period_to)}
+        </p>
+      </div>
+
+      {report.queued_count > 0 && (
+        <p className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-2 rounded-lg text-sm font-bold mb-3">
+          オフラインで保留した取引が{report.queued_count}件含まれています。サーバーへの送信状況を確認してください
+        </p>
+      )}
+
+      <dl className="divide-y divide-gray-200">
+        {summary.map(([label, value]) => (
+          <div key={label} className="flex justify-between py-2">
+            <dt className="text-gray-600">{label}</dt>
+            <dd className="font-bold text-gray-800">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {section('時間帯別', report.by_hour)}
+
+      <section className="mt-4">
+        <h4 className="font-bold text-gray-800 border-b border-gray-300 pb-1 mb-1">税率別</h4>
+        {report.by_tax.length > 0 ? (
+          <dl className="divide-y divide-gray-100 text-sm">
+            {report.by_tax.map(bucket => (
+              <div key={bucket.category} className="flex justify-between py-1">
+                <dt className="text-gray-600">{TAX_CATEGORY_LABELS[bucket.category]}対象</dt>
+                <dd className="text-gray-800">
+                  <span className="font-bold">{yen(bucket.total_inc_tax)}</span>（内消費税 {yen(bucket.tax)}）
+                </dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500 py-1">取引はありません</p>
+        )}
+      </section>
+
+      {section('支払方法別', report.by_tender)}
+      {section('担当者別', report.by_operator)}
+
+      <section className="mt-4">
+        <h4 className="font-bold text-gray-800 border-b border-gray-300 pb-1 mb-1">現金在高</h4>
+        <dl className="divide-y divide-gray-100 text-sm">
+          {cash.map(([label, value]) => (
+            <div key={label} className="flex justify-between py-1">
+              <dt className="text-gray-600">{label}</dt>
+              <dd className="font-bold text-gray-800">{value}</dd>
+            </div>
+          ))}
+          {report.cash.difference !== null && (
+            <div className={`flex justify-between py-2 text-lg font-bold ${report.cash.difference === 0 ? 'text-green-600' : 'text-red-600'}`}>
+              <dt>過不足</dt>
+              <dd>{report.cash.difference > 0 ? '+' : ''}{yen(report.cash.difference)}</dd>
+            </div>
+          )}
+        </dl>
+      </section>
+    </div>
+  );
+}
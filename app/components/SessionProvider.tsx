@@ -0,0 +1,122 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { authenticateOperator } from '@/app/lib/api';
+import { BusinessError } from '@/app/lib/errors';
+import { loadShift, openShift, recordShiftSale, closeShift } from '@/app/lib/shift';
+import type { Operator, OperatorCredentials, Shift } from '@/app/types';
+
+// 無操作で自動ロックするまでの時間
+const IDLE_LOCK_MS = 5 * 60 * 1000;
+
+interface SessionContextValue {
+  operator: Operator | null;
+  shift: Shift | null;
+  isLocked: boolean;
+  isLoaded: boolean;
+  signIn: (credentials: OperatorCredentials, openingFloat: number) => Promise<Shift>;
+  unlock: (credentials: OperatorCredentials) => Promise<void>;
+  lock: () => void;
+  recordSale: (amount: number, itemCount: number) => void;
+  endShift: () => Shift | null;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+/**
+ * 担当者セッションの取得
+ */
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession は SessionProvider の内側で使用してください');
+  }
+  return context;
+}
+
+/**
+ * 担当者セッション（サインイン・シフト・自動ロック）を提供
+ */
+export default function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // 進行中のシフトを復元（リロード後は再認証が必要なためロック状態で開始）
+  useEffect(() => {
+    const saved = loadShift();
+    if (saved) {
+      setShift(saved);
+      setIsLocked(true);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  const signIn = useCallback(async (credentials: OperatorCredentials, openingFloat: number) => {
+    const operator = await authenticateOperator(credentials);
+    const opened = openShift(operator, openingFloat);
+    setShift(opened);
+    setIsLocked(false);
+    return opened;
+  }, []);
+
+  const unlock = useCallback(async (credentials: OperatorCredentials) => {
+    const operator = await authenticateOperator(credentials);
+    if (operator.emp_cd !== shift?.operator.emp_cd) {
+      throw new BusinessError('OPERATOR_MISMATCH', 'シフト中の担当者のみロックを解除できます');
+    }
+    setIsLocked(false);
+  }, [shift]);
+
+  const lock = useCallback(() => {
+    setIsLocked(true);
+  }, []);
+
+  const recordSale = useCallback((amount: number, itemCount: number) => {
+    setShift(prev => (prev ? recordShiftSale(prev, amount, itemCount) : prev));
+  }, []);
+
+  const endShift = useCallback(() => {
+    if (!shift) return null;
+    const closed = closeShift(shift);
+    setShift(null);
+    setIsLocked(false);
+    return closed;
+  }, [shift]);
+
+  // 無操作が続いたら自動ロック
+  useEffect(() => {
+    if (!shift || isLocked) return;
+
+    let timer = setTimeout(lock, IDLE_LOCK_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, IDLE_LOCK_MS);
+    };
+
+    const events = ['pointerdown', 'keydown'] as const;
+    events.forEach(event => window.addEventListener(event, resetTimer));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [shift, isLocked, lock]);
+
+  return (
+    <SessionContext.Provider
+      value={{
+        operator: shift?.operator ?? null,
+        shift,
+        isLocked,
+        isLoaded,
+        signIn,
+        unlock,
+        lock,
+        recordSale,
+        endShift,
+      }}
+    >
+      {children}
+    </SessionContext.Provider>
+  );
+}
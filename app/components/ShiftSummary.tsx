@@ -0,0 +1,56 @@
+'use client';
+
+import type { Shift } from '@/app/types';
+
+interface ShiftSummaryProps {
+  shift: Shift;
+  onClose: () => void;
+}
+
+const formatDateTime = (iso: string): string =>
+  new Date(iso).toLocaleString('ja-JP', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * シフト開始／終了時の集計表示
+ */
+export default function ShiftSummary({ shift, onClose }: ShiftSummaryProps) {
+  const isClosed = Boolean(shift.closed_at);
+
+  const rows: [string, string][] = [
+    ['担当者', `${shift.operator.emp_name}（${shift.operator.emp_cd}）`],
+    ['開始', formatDateTime(shift.opened_at)],
+    ...(shift.closed_at ? [['終了', formatDateTime(shift.closed_at)] as [string, string]] : []),
+    ['釣銭準備金', `${shift.opening_float.toLocaleString()}円`],
+    ['取引件数', `${shift.transaction_count.toLocaleString()}件`],
+    ['販売点数', `${shift.item_count.toLocaleString()}点`],
+    ['売上合計（税込）', `${shift.total_amount.toLocaleString()}円`],
+  ];
+
+  if (isClosed) {
+    rows.push(['想定在高', `${(shift.opening_float + shift.total_amount).toLocaleString()}円`]);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">
+          {isClosed ? '📋 シフト終了レポート' : '📋 シフト開始'}
+        </h3>
+        <dl className="divide-y divide-gray-200">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between py-2">
+              <dt className="text-gray-600">{label}</dt>
+              <dd className="font-bold text-gray-800">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <button
+          onClick={onClose}
+          className="w-full mt-4 px-4 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors transform active:scale-95"
+        >
+          OK
+        </button>
+      </div>
+    </div>
+  );
+}
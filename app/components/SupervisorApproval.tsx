@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+import { authenticateOperator } from '@/app/lib/api';
+import { hasRole, ROLE_LABELS } from '@/app/lib/permissions';
+import type { Operator, OperatorCredentials, OperatorRole } from '@/app/types';
+
+interface SupervisorApprovalProps {
+  title: string;
+  description?: string;
+  requiredRole?: OperatorRole;
+  onApproved: (approver: Operator) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 責任者承認ダイアログ
+ * 責任者の従業員コード+PIN、またはスタッフバッジで承認を受ける
+ */
+export default function SupervisorApproval({
+  title,
+  description,
+  requiredRole = 'supervisor',
+  onApproved,
+  onCancel,
+}: SupervisorApprovalProps) {
+  const [empCd, setEmpCd] = useState('');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const approve = useCallback(async (credentials: OperatorCredentials) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const approver = await authenticateOperator(credentials);
+      if (!hasRole(approver, requiredRole)) {
+        setError(`${ROLE_LABELS[requiredRole]}以上の権限が必要です`);
+        setPin('');
+        return;
+      }
+      console.log(`[責任者承認] ${approver.emp_cd}: ${title}`);
+      onApproved(approver);
+    } catch (err: any) {
+      setError(err.message || '承認に失敗しました');
+      setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [requiredRole, title, onApproved]);
+
+  const handleBadgeScan = useCallback((result: string) => {
+    setIsScannerOpen(false);
+    approve({ badge_code: result.trim() });
+  }, [approve]);
+
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      {isScannerOpen && (
+        <BarcodeScanner onScan={handleBadgeScan} onClose={handleCloseScanner} />
+      )}
+
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md">
+        <h3 className="text-xl font-bold mb-2 text-center text-gray-800">🔑 {title}</h3>
+        <p className="text-sm text-center text-gray-600 mb-4">
+          {description ?? `${ROLE_LABELS[requiredRole]}の承認が必要です`}
+        </p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            approve({ emp_cd: empCd.trim(), pin });
+          }}
+        >
+          <input
+            aria-label="責任者の従業員コード"
+            placeholder="責任者の従業員コード"
+            inputMode="numeric"
+            autoComplete="off"
+            value={empCd}
+            onChange={(e) => setEmpCd(e.target.value)}
+            className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+          />
+          <input
+            aria-label="PIN"
+            placeholder="PIN"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg tracking-widest"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 active:scale-95"
+          >
+            {isSubmitting ? '確認中...' : '承認'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => setIsScannerOpen(true)}
+          disabled={isSubmitting}
+          className="w-full mt-2 bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 active:scale-95"
+        >
+          🪪 バッジをスキャン
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="w-full mt-2 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors transform active:scale-95 disabled:opacity-50"
+        >
+          ✕ キャンセル
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TENDER_LABELS, getTenderStatus, validateTender, quickCashAmounts, redeemedPoints } from '@/app/lib/tender';
+import type { Tender, TenderType } from '@/app/types';
+
+interface TenderScreenProps {
+  total: number;
+  pointBalance?: number; // 会員のポイント残高（会員の会計のみ）
+  isSubmitting: boolean;
+  onConfirm: (tenders: Tender[], change: number) => void;
+  onCancel: () => void;
+  onTendersChange?: (tenders: Tender[]) => void; // お客様用画面への反映用
+}
+
+const TENDER_TYPES: TenderType[] = ['cash', 'qr', 'card'];
+const MEMBER_TENDER_TYPES: TenderType[] = [...TENDER_TYPES, 'points'];
+const KEYPAD_KEYS = ['7', '8', '9', '4', '5', '6', '1', '2', '3', '0', '00', '⌫'];
+
+/**
+ * 支払画面
+ * テンキーで預り金額を入力し、複数の支払方法を組み合わせて会計する
+ * 会員の会計ではポイント（1ポイント = 1円）を支払の一部に使える
+ */
+export default function TenderScreen({
+  total,
+  pointBalance,
+  isSubmitting,
+  onConfirm,
+  onCancel,
+  onTendersChange,
+}: TenderScreenProps) {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [tenderType, setTenderType] = useState<TenderType>('cash');
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onTendersChange?.(tenders);
+  }, [tenders, onTendersChange]);
+
+  const status = getTenderStatus(total, tenders);
+  const isPaid = status.remaining === 0;
+  const tenderTypes = pointBalance ? MEMBER_TENDER_TYPES : TENDER_TYPES;
+  const availablePoints = (pointBalance ?? 0) - redeemedPoints(tenders);
+
+  const handleKey = (key: string) => {
+    setError(null);
+    if (key === '⌫') {
+      setInput(prev => prev.slice(0, -1));
+    } else {
+      // 先頭の0は入力しない・上限7桁
+      setInput(prev => (prev + key).replace(/^0+/, '').slice(0, 7));
+    }
+  };
+
+  const addTender = (amount: number) => {
+    const tender: Tender = { type: tenderType, amount };
+    const validationError = validateTender(total, tenders, tender, pointBalance);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setTenders(prev => [...prev, tender]);
+    setInput('');
+    setError(null);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // キャッシュレスは不足額ちょうど、ポイントは残高まで、現金はクイック金額を提示
+  const quickAmounts = tenderType === 'cash'
+    ? quickCashAmounts(status.remaining)
+    : tenderType === 'points'
+      ? [Math.min(status.remaining, availablePoints)].filter(amount => amount > 0)
+      : status.remaining > 0 ? [status.remaining] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-center text-gray-800">💴 お支払い</h3>
+
+        <dl className="space-y-1 mb-4">
+          <div className="flex justify-between text-2xl font-bold">
+            <dt>お会計</dt>
+            <dd className="text-blue-600">{total.toLocaleString()}円</dd>
+          </div>
+          <div className="flex justify-between text-lg text-gray-700">
+            <dt>お預り</dt>
+            <dd>{status.paid.toLocaleString()}円</dd>
+          </div>
+          {isPaid ? (
+            <div className="flex justify-between text-2xl font-bold text-green-600">
+              <dt>お釣り</dt>
+              <dd>{status.change.toLocaleString()}円</dd>
+            </div>
+          ) : (
+            <div className="flex justify-between text-lg font-bold text-red-600">
+              <dt>不足</dt>
+              <dd>{status.remaining.toLocaleString()}円</dd>
+            </div>
+          )}
+        </dl>
+
+        {tenders.length > 0 && (
+          <ul className="mb-4 divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {tenders.map((tender, index) => (
+              <li key={index} className="flex justify-between items-center px-3 py-2">
+                <span>{TENDER_LABELS[tender.type]}</span>
+                <span className="flex items-center gap-3">
+                  <span className="font-bold">{tender.amount.toLocaleString()}円</span>
+                  <button
+                    onClick={() => removeTender(index)}
+                    disabled={isSubmitting}
+                    className="text-red-500 hover:text-red-700 font-bold"
+                    aria-label="取消"
+                  >
+                    ✕
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!isPaid && (
+          <>
+            <div className={`grid ${tenderTypes.length > 3 ? 'grid-cols-4' : 'grid-cols-3'} gap-2 mb-3`}>
+              {tenderTypes.map(type => (
+                <button
+                  key={type}
+                  onClick={() => {
+                    setTenderType(type);
+                    setError(null);
+                  }}
+                  className={`py-2 rounded-lg font-bold border-2 ${tenderType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}
+                >
+                  {TENDER_LABELS[type]}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-3">
+              {quickAmounts.map(amount => (
+                <button
+                  key={amount}
+                  onClick={() => addTender(amount)}
+                  className="flex-1 py-2 px-2 rounded-lg font-bold bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+                >
+                  {amount === status.remaining ? 'ちょうど' : `${amount.toLocaleString()}円`}
+                </button>
+              ))}
+            </div>
+            {tenderType === 'points' && (
+              <p className="text-sm text-gray-600 mb-2">利用できるポイント: {availablePoints.toLocaleString()}ポイント</p>
+            )}
+
+            <div className="text-right text-3xl font-bold border-2 border-gray-300 rounded-lg px-4 py-2 mb-2 min-h-[3.5rem]">
+              {input ? `${Number(input).toLocaleString()}円` : ''}
+            </div>
+            {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {KEYPAD_KEYS.map(key => (
+                <button
+                  key={key}
+                  onClick={() => handleKey(key)}
+                  className="py-3 rounded-lg text-2xl font-bold bg-gray-100 hover:bg-gray-200 active:scale-95"
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => addTender(Number(input))}
+              disabled={!input}
+              className="w-full py-3 rounded-lg font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 active:scale-95"
+            >
+              {TENDER_LABELS[tenderType]}で預る
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={() => onConfirm(tenders, status.change)}
+          disabled={!isPaid || isSubmitting}
+          className="w-full mt-4 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-xl shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95"
+        >
+          {isSubmitting ? '処理中...' : '✓ 会計を確定'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="w-full mt-2 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors transform active:scale-95 disabled:opacity-50"
+        >
+          ✕ 戻る
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+
+const html5 = vi.hoisted(() => ({
+  onDecoded: null as ((text: string) => void) | null,
+  start: vi.fn(),
+  stop: vi.fn(async () => undefined),
+  config: null as unknown,
+}));
+
+vi.mock('html5-qrcode', () => {
+  const unsupported = () => ({ isSupported: () => false, value: () => null });
+
+  class Html5Qrcode {
+    isScanning = false;
+
+    static getCameras = vi.fn(async () => [
+      { id: 'front', label: 'フロントカメラ' },
+      { id: 'back', label: '背面カメラ' },
+    ]);
+
+    constructor(_elementId: string, config: unknown) {
+      html5.config = config;
+    }
+
+    async start(camera: unknown, options: unknown, onDecoded: (text: string) => void) {
+      html5.start(camera, options);
+      html5.onDecoded = onDecoded;
+      this.isScanning = true;
+    }
+
+    stop() {
+      this.isScanning = false;
+      return html5.stop();
+    }
+
+    getRunningTrackCameraCapabilities() {
+      return { torchFeature: unsupported, zoomFeature: unsupported };
+    }
+  }
+
+  return {
+    Html5Qrcode,
+    Html5QrcodeSupportedFormats: { EAN_13: 9, EAN_8: 10, UPC_A: 14, UPC_E: 15, ITF: 8 },
+  };
+});
+
+vi.mock('@/app/lib/feedback', () => ({ scanFeedback: vi.fn() }));
+
+import { scanFeedback } from '@/app/lib/feedback';
+
+const decode = async (text: string) => {
+  await act(async () => {
+    html5.onDecoded?.(text);
+  });
+};
+
+beforeEach(() => {
+  html5.onDecoded = null;
+  html5.start.mockClear();
+  html5.stop.mockClear();
+  vi.mocked(scanFeedback).mockClear();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('BarcodeScanner', () => {
+  it('単発モードは最初の読取のみ通知する', async () => {
+    const onScan = vi.fn();
+    render(<BarcodeScanner onScan={onScan} onClose={vi.fn()} />);
+    await waitFor(() => expect(html5.onDecoded).not.toBeNull());
+
+    await decode('4901234500013');
+    await decode('4901234500020');
+
+    expect(onScan).toHaveBeenCalledTimes(1);
+    expect(onScan).toHaveBeenCalledWith('4901234500013');
+    expect(scanFeedback).toHaveBeenCalledWith('accept');
+  });
+
+  it('連続モードは同じコードを一定時間無視し、別のコードは受け付ける', async () => {
+    const onScan = vi.fn(async (code: string) => code !== '1234');
+    render(<BarcodeScanner onScan={onScan} onClose={vi.fn()} continuous retailOnly />);
+    await waitFor(() => expect(html5.onDecoded).not.toBeNull());
+
+    await decode('4901234500013');
+    await decode('4901234500013');
+    await decode('1234');
+
+    expect(onScan.mock.calls.map(([code]) => code)).toEqual(['4901234500013', '1234']);
+    expect(vi.mocked(scanFeedback).mock.calls).toEqual([['accept'], ['reject']]);
+    expect(screen.getByText(/読取不可/)).toHaveTextContent('1234');
+    expect(html5.config).toMatchObject({ formatsToSupport: [9, 10, 14, 15, 8] });
+  });
+
+  it('カメラを切り替えると選択を保存して再起動する', async () => {
+    render(<BarcodeScanner onScan={vi.fn()} onClose={vi.fn()} />);
+    const select = await screen.findByRole('combobox', { name: 'カメラ' });
+
+    fireEvent.change(select, { target: { value: 'back' } });
+
+    await waitFor(() => expect(html5.start).toHaveBeenLastCalledWith('back', expect.anything()));
+    expect(html5.stop).toHaveBeenCalled();
+    expect(window.localStorage.getItem('pos-camera-id')).toBe('back');
+  });
+
+  it('前のカメラの停止が終わってから次のカメラを起動する', async () => {
+    let finishStop: () => void = () => undefined;
+    html5.stop.mockImplementationOnce(() => new Promise<undefined>(resolve => {
+      finishStop = () => resolve(undefined);
+    }));
+    render(<BarcodeScanner onScan={vi.fn()} onClose={vi.fn()} />);
+    const select = await screen.findByRole('combobox', { name: 'カメラ' });
+    await waitFor(() => expect(html5.start).toHaveBeenCalledTimes(1));
+
+    fireEvent.change(select, { target: { value: 'back' } });
+    await waitFor(() => expect(html5.stop).toHaveBeenCalled());
+    await act(async () => undefined);
+    expect(html5.start).toHaveBeenCalledTimes(1);
+
+    await act(async () => finishStop());
+    await waitFor(() => expect(html5.start).toHaveBeenLastCalledWith('back', expect.anything()));
+    expect(html5.start).toHaveBeenCalledTimes(2);
+  });
+
+  it('閉じるボタンで onClose を呼ぶ', async () => {
+    const onClose = vi.fn();
+    render(<BarcodeScanner onScan={vi.fn()} onClose={onClose} continuous />);
+
+    fireEvent.click(screen.getByRole('button', { name: '✓ スキャン終了' }));
+    expect(onClose).toHaveBeenCalled();
+    await waitFor(() => expect(html5.start).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import Notification from '@/app/components/Notification';
+
+describe('Notification', () => {
+  it('メッセージを表示し、閉じるボタンで閉じる', () => {
+    const onClose = vi.fn();
+    render(<Notification message="商品を追加しました" type="success" onClose={onClose} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('商品を追加しました');
+    fireEvent.click(screen.getByRole('button', { name: '閉じる' }));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('4秒後に自動で閉じる', () => {
+    vi.useFakeTimers();
+    const onClose = vi.fn();
+    render(<Notification message="商品が見つかりません" type="error" onClose={onClose} />);
+
+    act(() => vi.advanceTimersByTime(3999));
+    expect(onClose).not.toHaveBeenCalled();
+    act(() => vi.advanceTimersByTime(1));
+    expect(onClose).toHaveBeenCalledTimes(1);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchDisplayState } from '@/app/lib/api';
+import { openDisplayChannel } from '@/app/lib/customerDisplay';
+import { TAX_CATEGORY_LABELS } from '@/app/lib/tax';
+import type { CustomerDisplayState } from '@/app/types';
+
+// 別端末モードの更新間隔
+const POLL_INTERVAL_MS = 1000;
+// 待機画面のお知らせの切替間隔
+const SLIDE_INTERVAL_MS = 8000;
+
+const IDLE_SLIDES = [
+  'いらっしゃいませ',
+  'レジ袋が必要な方はお申し付けください',
+  'キャッシュレス決済がご利用いただけます',
+  '電子レシートはレシートのQRコードから',
+];
+
+/**
+ * お客様用画面
+ * 同じ端末の別ウィンドウではBroadcastChannel、別端末（?store=店舗コード&pos=POS番号）ではサーバー経由で
+ * レジ画面の購入リスト・合計・お釣りを表示する
+ */
+export default function CustomerDisplayPage({
+  searchParams,
+}: {
+  searchParams: { store?: string; pos?: string };
+}) {
+  const [state, setState] = useState<CustomerDisplayState | null>(null);
+  const [slide, setSlide] = useState(0);
+  const { store, pos } = searchParams;
+
+  useEffect(() => {
+    if (store && pos) {
+      let cancelled = false;
+      const poll = () => {
+        fetchDisplayState(store, pos)
+          .then(next => {
+            if (!cancelled) setState(next);
+          })
+          .catch(() => undefined);
+      };
+      poll();
+      const timer = setInterval(poll, POLL_INTERVAL_MS);
+      return () => {
+        cancelled = true;
+        clearInterval(timer);
+      };
+    }
+
+    const channel = openDisplayChannel(message => {
+      if (message.type === 'state') setState(message.state);
+    });
+    channel?.post({ type: 'request' });
+    return () => channel?.close();
+  }, [store, pos]);
+
+  const isIdle = !state || state.phase === 'idle';
+
+  useEffect(() => {
+    if (!isIdle) return;
+    const timer = setInterval(() => setSlide(prev => (prev + 1) % IDLE_SLIDES.length), SLIDE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isIdle]);
+
+  if (isIdle) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-600 to-indigo-800 flex flex-col items-center justify-center text-white p-8">
+        {state?.store_name && <p className="text-2xl font-bold mb-6 opacity-90">{state.store_name}</p>}
+        <p className="text-5xl font-extrabold text-center leading-tight">{IDLE_SLIDES[slide]}</p>
+      </div>
+    );
+  }
+
+  const { tax } = state;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 flex flex-col">
+      <header className="text-center mb-4">
+        <h1 className="text-3xl font-extrabold text-gray-800">
+          {state.phase === 'complete' ? 'ありがとうございました' : 'お買い上げ商品'}
+        </h1>
+      </header>
+
+      <main className="flex-1 grid gap-6 lg:grid-cols-3">
+        <ul className="lg:col-span-2 bg-white rounded-2xl shadow-lg divide-y divide-gray-200 overflow-y-auto max-h-[70vh]">
+          {state.lines.map((line, index) => (
+            <li key={index} className="flex justify-between items-center px-6 py-4 text-2xl">
+              <span className="min-w-0 truncate">
+                {line.reduced && <span className="text-green-700">※</span>}
+                {line.prd_name}
+                {line.quantity > 1 && <span className="text-gray-500 text-xl"> × {line.quantity}</span>}
+              </span>
+              <span className="shrink-0 text-right">
+                {line.discount_amount > 0 && (
+                  <span className="block text-base font-bold text-red-600">
+                    −{line.discount_amount.toLocaleString()}円
+                  </span>
+                )}
+                <span className="font-bold">{line.amount.toLocaleString()}円</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <section className="bg-white rounded-2xl shadow-lg p-6 flex flex-col gap-3">
+          {state.receipt_discount && (
+            <div className="flex justify-between text-xl font-bold text-red-600">
+              <span>{state.receipt_discount.label}</span>
+              <span>−{state.receipt_discount.amount.toLocaleString()}円</span>
+            </div>
+          )}
+          <div className="flex justify-between items-baseline text-4xl font-extrabold text-gray-800 border-b-2 border-gray-200 pb-3">
+            <span className="text-2xl">合計</span>
+            <span className="text-blue-600">{tax.total_amount.toLocaleString()}円</span>
+          </div>
+          {tax.buckets.map(bucket => (
+            <div key={bucket.category} className="flex justify-between text-lg text-gray-700">
+              <span>{TAX_CATEGORY_LABELS[bucket.category]}対象 {bucket.total_inc_tax.toLocaleString()}円</span>
+              <span>内消費税 {bucket.tax.toLocaleString()}円</span>
+            </div>
+          ))}
+          {(state.phase === 'tender' || state.phase === 'complete') && (
+            <>
+              <div className="flex justify-between text-2xl text-gray-800 mt-4">
+                <span>お預り</span>
+                <span>{state.paid.toLocaleString()}円</span>
+              </div>
+              {state.paid >= tax.total_amount ? (
+                <div className="flex justify-between text-4xl font-extrabold text-green-600">
+                  <span className="text-2xl">お釣り</span>
+                  <span>{state.change.toLocaleString()}円</span>
+                </div>
+              ) : (
+                <div className="flex justify-between text-3xl font-bold text-red-600">
+                  <span className="text-2xl">不足</span>
+                  <span>{(tax.total_amount - state.paid).toLocaleString()}円</span>
+                </div>
+              )}
+            </>
+          )}
+          <p className="text-sm text-gray-500 mt-auto">※は軽減税率（8%）対象商品</p>
+        </section>
+      </main>
+    </div>
+  );
+}
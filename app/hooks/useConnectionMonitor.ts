@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { healthCheck } from '@/app/lib/api';
+import { evaluateConnection, getApiCallSamples, subscribeApiCalls } from '@/app/lib/connection';
+import type { ApiCallSample, ConnectionStatus, HealthCheckResult } from '@/app/types';
+
+// ヘルスチェックの間隔（接続できない間は短くして回復を早く検知する）
+const POLL_INTERVAL_MS = 30000;
+const OFFLINE_POLL_INTERVAL_MS = 10000;
+
+/**
+ * 接続状態の監視フック
+ * ヘルスチェックの定期実行、ブラウザのオンライン・オフライン通知、API呼び出しの応答時間・失敗率から状態を判定する
+ * @param enabled 端末設定の完了後など、監視を行う場合のみtrue
+ */
+export function useConnectionMonitor(enabled = true): { status: ConnectionStatus; check: () => Promise<void> } {
+  const [browserOnline, setBrowserOnline] = useState(true);
+  const [health, setHealth] = useState<HealthCheckResult | null>(null);
+  const [samples, setSamples] = useState<ApiCallSample[]>([]);
+
+  const check = useCallback(async () => {
+    const startedAt = Date.now();
+    try {
+      const result = await healthCheck();
+      setHealth({
+        ok: true,
+        version: result.version,
+        latency_ms: Date.now() - startedAt,
+        checked_at: new Date().toISOString(),
+      });
+    } catch {
+      // エラーの内容はhealthCheck側でログ出力済み
+      setHealth(prev => ({
+        ok: false,
+        version: prev?.version,
+        latency_ms: Date.now() - startedAt,
+        checked_at: new Date().toISOString(),
+      }));
+    }
+  }, []);
+
+  // API呼び出しの結果を反映
+  useEffect(() => {
+    setSamples(getApiCallSamples());
+    return subscribeApiCalls(() => setSamples(getApiCallSamples()));
+  }, []);
+
+  // ブラウザのオンライン・オフライン（オンライン復帰時は即時に確認）
+  useEffect(() => {
+    setBrowserOnline(navigator.onLine);
+    const handleOnline = () => {
+      setBrowserOnline(true);
+      if (enabled) check();
+    };
+    const handleOffline = () => setBrowserOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [enabled, check]);
+
+  const isDown = health !== null && !health.ok;
+
+  // 監視開始時に確認し、以降は定期的に確認する
+  useEffect(() => {
+    if (enabled) check();
+  }, [enabled, check]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = setInterval(check, isDown ? OFFLINE_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, isDown, check]);
+
+  const status = useMemo(
+    () => evaluateConnection({ browserOnline, health, samples }),
+    [browserOnline, health, samples]
+  );
+
+  return { status, check };
+}
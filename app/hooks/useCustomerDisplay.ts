@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { pushDisplayState } from '@/app/lib/api';
+import { openDisplayChannel } from '@/app/lib/customerDisplay';
+import type { CustomerDisplayState, TerminalConfig } from '@/app/types';
+
+/**
+ * お客様用画面への送信フック
+ * 表示内容が変わるたびに同じ端末の別ウィンドウへ送信し、
+ * 別端末モードではサーバーにも送信する
+ * @param state 表示内容
+ * @param config 端末設定
+ */
+export function useCustomerDisplay(state: CustomerDisplayState, config: TerminalConfig | null) {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const channelRef = useRef<ReturnType<typeof openDisplayChannel>>(null);
+
+  // 後から開いたお客様用画面には現在の表示内容を返す
+  useEffect(() => {
+    const channel = openDisplayChannel(message => {
+      if (message.type === 'request') {
+        channel?.post({ type: 'state', state: stateRef.current });
+      }
+    });
+    channelRef.current = channel;
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'state', state });
+
+    if (config?.customer_display === 'remote') {
+      // 送信できなくても会計は継続（次の変更時に再送される）
+      pushDisplayState(config.store_cd, config.pos_no, state).catch(() => undefined);
+    }
+  }, [state, config]);
+}
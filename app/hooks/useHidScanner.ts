@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { createScanDetector } from '@/app/lib/scanInput';
+
+/**
+ * 入力欄にフォーカスがあるか（入力欄ではスキャナーの文字をそのまま入力させる）
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * HIDスキャナー入力の監視フック
+ * 画面全体のキー入力からスキャナー入力を判別し、読み取ったコードを通知する
+ * @param onScan コード読取時の処理
+ * @param enabled 監視の有効／無効
+ */
+export function useHidScanner(onScan: (code: string) => void, enabled: boolean) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const detector = createScanDetector();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      const code = detector.handleKey(event.key, event.timeStamp);
+      if (code) {
+        // 終端キー（Enter/Tab）でボタン押下やフォーカス移動が起きないようにする
+        event.preventDefault();
+        console.log('[HIDスキャン] ', code);
+        onScanRef.current(code);
+      } else if (detector.isScanning(event.timeStamp)) {
+        event.preventDefault();
+      }
+    };
+
+    // キーボード操作（useKeyboardShortcuts）より先に判定し、スキャナーの入力を取り除く
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled]);
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { isEditableTarget } from '@/app/hooks/useHidScanner';
+import { resolveShortcut } from '@/app/lib/shortcuts';
+import type { ShortcutCommand } from '@/app/lib/shortcuts';
+
+/**
+ * レジ画面のキーボード操作フック
+ * 入力欄以外でのキー入力をコマンドに変換して通知する
+ * HIDスキャナーの入力（useHidScanner で既定の動作を止めたキー）は対象外
+ * @param onCommand コマンドの実行（false を返した場合はキー本来の動作を妨げない）
+ * @param enabled 監視の有効／無効（ダイアログ表示中などは無効）
+ */
+export function useKeyboardShortcuts(onCommand: (command: ShortcutCommand) => boolean | void, enabled: boolean) {
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+
+      const command = resolveShortcut(event);
+      if (!command) return;
+      // 実行したコマンドは、Enterでのボタン押下やFキーのブラウザ機能などを止める
+      if (onCommandRef.current(command) !== false) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { countOutbox, enqueuePurchase } from '@/app/lib/offlineStore';
+import {
+  discardFailedOutboxEntry,
+  flushOutbox,
+  getFailedOutboxEntries,
+  retryFailedOutboxEntry,
+} from '@/app/lib/outbox';
+import type { OutboxEntry, PurchaseRequest } from '@/app/types';
+
+// 保留取引がある間の再送間隔
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * オフライン保留取引の管理フック
+ * 件数の追跡、保留への追加、接続回復時の自動再送と、送信失敗の取引の再送・破棄を行う
+ */
+export function useOutbox() {
+  const [pendingCount, setPendingCount] = useState(0);
+  // サーバーが拒否し、再送しない取引
+  const [failedEntries, setFailedEntries] = useState<OutboxEntry[]>([]);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const flushingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [counts, failed] = await Promise.all([countOutbox(), getFailedOutboxEntries()]);
+      setPendingCount(counts.pending);
+      setFailedEntries(failed);
+    } catch (error) {
+      console.error('[アウトボックス件数取得エラー]', error);
+    }
+  }, []);
+
+  const flush = useCallback(async () => {
+    // 二重送信防止
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    setIsFlushing(true);
+
+    try {
+      const result = await flushOutbox();
+      setPendingCount(result.remaining);
+      setFailedEntries(await getFailedOutboxEntries());
+    } catch (error) {
+      console.error('[アウトボックス再送エラー]', error);
+    } finally {
+      flushingRef.current = false;
+      setIsFlushing(false);
+    }
+  }, []);
+
+  const enqueue = useCallback(async (payload: PurchaseRequest) => {
+    await enqueuePurchase(payload);
+    await refresh();
+  }, [refresh]);
+
+  // 送信失敗の取引を再送の対象に戻して再送
+  const retryFailed = useCallback(async (entry: OutboxEntry) => {
+    await retryFailedOutboxEntry(entry);
+    await refresh();
+    await flush();
+  }, [refresh, flush]);
+
+  const discardFailed = useCallback(async (entry: OutboxEntry) => {
+    await discardFailedOutboxEntry(entry);
+    await refresh();
+  }, [refresh]);
+
+  // 初回読込時に件数取得と再送
+  useEffect(() => {
+    refresh().then(flush);
+  }, [refresh, flush]);
+
+  // 保留がある間は定期的に再送を試みる
+  useEffect(() => {
+    if (pendingCount === 0) return;
+
+    const timer = setInterval(flush, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, flush]);
+
+  // ブラウザがオンラインに戻ったら即時再送
+  useEffect(() => {
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [flush]);
+
+  return {
+    pendingCount,
+    failedCount: failedEntries.length,
+    failedEntries,
+    isFlushing,
+    enqueue,
+    flush,
+    retryFailed,
+    discardFailed,
+  };
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { countPendingAuditLogs, submitAuditLogs } from '@/app/lib/audit';
+import type { AuditLogUpload } from '@/app/types';
+
+// 未送信の監査ログがある間の再送間隔
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * 単独で送信する監査ログ（取引中止・保留の破棄）の管理フック
+ * 未送信件数の追跡、送信、起動時・接続回復時の自動再送を行う
+ */
+export function usePendingAuditLogs() {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+
+  const submit = useCallback(async (upload?: AuditLogUpload) => {
+    setIsSending(true);
+    try {
+      await submitAuditLogs(upload);
+    } catch (error) {
+      console.error('[監査ログ再送エラー]', error);
+    } finally {
+      setPendingCount(countPendingAuditLogs());
+      setIsSending(false);
+    }
+  }, []);
+
+  const retry = useCallback(() => submit(), [submit]);
+
+  // 初回読込時に前回までの未送信分を再送
+  useEffect(() => {
+    setPendingCount(countPendingAuditLogs());
+    retry();
+  }, [retry]);
+
+  // 未送信がある間は定期的に再送を試みる
+  useEffect(() => {
+    if (pendingCount === 0) return;
+
+    const timer = setInterval(retry, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, retry]);
+
+  // ブラウザがオンラインに戻ったら即時再送
+  useEffect(() => {
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [retry]);
+
+  return { pendingCount, isSending, submit, retry };
+}
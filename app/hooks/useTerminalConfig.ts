@@ -0,0 +1,21 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { loadTerminalConfig } from '@/app/lib/terminalConfig';
+import type { TerminalConfig } from '@/app/types';
+
+/**
+ * 端末設定の読込フック
+ * localStorageはクライアントでのみ参照できるため、マウント後に読み込む
+ */
+export function useTerminalConfig() {
+  const [config, setConfig] = useState<TerminalConfig | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setConfig(loadTerminalConfig());
+    setIsLoaded(true);
+  }, []);
+
+  return { config, isLoaded };
+}
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  authenticateOperator,
+  claimHeldCart,
+  fetchHeldCarts,
+  purchaseItems,
+  searchProduct,
+  setApiTransport,
+  setProductActive,
+  shareHeldCart,
+  updateProduct,
+} from "@/app/lib/api";
+import { ApiError, BusinessError, NetworkError, TimeoutError, ValidationError } from "@/app/lib/errors";
+import { createMockBackend, MOCK_PRODUCTS } from "@/app/lib/mockBackend";
+import type { ApiTransport } from "@/app/lib/mockBackend";
+import type { HeldCart, PurchaseRequest } from "@/app/types";
+
+vi.mock("@/app/lib/offlineStore", () => ({
+  cacheProduct: vi.fn(async () => undefined),
+  getCachedProduct: vi.fn(async () => null),
+}));
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const payload = (transactionId: string): PurchaseRequest => ({
+  transaction_id: transactionId,
+  emp_cd: "0001",
+  store_cd: "30",
+  pos_no: "90",
+  items: [
+    { prd_id: 1, prd_code: "4901234500013", prd_name: "お茶", prd_price: 150, tax_category: "reduced", quantity: 2, applied_discounts: [], line_amount: 300 },
+    { prd_id: 2, prd_code: "4901234500020", prd_name: "ボールペン", prd_price: 120, quantity: 1, applied_discounts: [], line_amount: 120 },
+  ],
+  tenders: [{ type: "cash", amount: 500 }],
+  change_amount: 80,
+});
+
+beforeEach(() => {
+  vi.stubEnv("NEXT_PUBLIC_API_URL", "http://api.test");
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setApiTransport(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("モックバックエンド", () => {
+  beforeEach(() => setApiTransport(createMockBackend()));
+
+  it("商品を検索する", async () => {
+    const { product } = await searchProduct(" 4901234500013 ");
+    expect(product).toMatchObject({ prd_id: 1, prd_price: 150, tax_category: "reduced" });
+  });
+
+  it("見つからない商品はnull", async () => {
+    expect(await searchProduct("4901234599999")).toEqual({ product: null });
+  });
+
+  it("空のコードは業務エラー", async () => {
+    await expect(searchProduct("  ")).rejects.toMatchObject({ code: "EMPTY_CODE" });
+  });
+
+  it("購入は取引IDごとに冪等", async () => {
+    const first = await purchaseItems(payload("tx-1"));
+    const retry = await purchaseItems(payload("tx-1"));
+    const next = await purchaseItems(payload("tx-2"));
+
+    expect(first).toEqual({ success: true, total_amount: 420, total_amount_ex_tax: 388, transaction_no: 1 });
+    expect(retry).toEqual(first);
+    expect(next.transaction_no).toBe(2);
+  });
+
+  it("従業員コード+PINまたはスタッフバッジで担当者を認証する", async () => {
+    expect(await authenticateOperator({ emp_cd: "0001", pin: "1234" }))
+      .toEqual({ emp_cd: "0001", emp_name: "山田 太郎", role: "cashier" });
+    expect(await authenticateOperator({ badge_code: "EMP0900" })).toMatchObject({ role: "supervisor" });
+    await expect(authenticateOperator({ emp_cd: "0001", pin: "0000" }))
+      .rejects.toMatchObject({ code: "INVALID_CREDENTIALS" });
+  });
+
+  it("共有した保留は店舗内で一覧でき、引き取れるのは1回だけ", async () => {
+    const hold: HeldCart = {
+      hold_id: "h1",
+      label: "保留 1",
+      items: [],
+      receipt_discount: null,
+      held_at: "2026-10-19T09:00:00.000Z",
+      item_count: 0,
+      total_amount: 0,
+      store_cd: "30",
+      pos_no: "90",
+    };
+    await shareHeldCart(hold);
+
+    expect(await fetchHeldCarts("30")).toMatchObject([hold]);
+    expect(await fetchHeldCarts("31")).toEqual([]);
+    expect(await claimHeldCart("h1")).toMatchObject(hold);
+    expect(await claimHeldCart("h1")).toBeNull();
+  });
+
+  it("商品マスタの変更は担当者と承認者を送信し、商品には残さない", async () => {
+    const backend = createMockBackend();
+    const bodies: unknown[] = [];
+    setApiTransport((url, init) => {
+      if (init.body) bodies.push(JSON.parse(init.body as string));
+      return backend(url, init);
+    });
+    const actor = { emp_cd: "0002", approver_emp_cd: "0001" };
+    const { prd_id: _prdId, ...input } = MOCK_PRODUCTS[0];
+
+    const product = await updateProduct(1, { ...input, prd_price: 160 }, actor);
+    await setProductActive(1, false, actor);
+
+    expect(bodies).toEqual([
+      { ...input, prd_price: 160, ...actor },
+      { is_active: false, ...actor },
+    ]);
+    expect(product).not.toHaveProperty("emp_cd");
+  });
+});
+
+describe("エラー", () => {
+  it("型の異なるレスポンスは検証エラー", async () => {
+    setApiTransport(async () => json({ product: { prd_id: 1, prd_code: "A", prd_name: "A", prd_price: "150" } }));
+
+    const error = await searchProduct("A").catch(e => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.path).toBe("product.prd_price");
+  });
+
+  it("コードのある4xxは業務エラー", async () => {
+    setApiTransport(async () => json({ code: "PRODUCT_DISCONTINUED", detail: "販売終了" }, 409));
+
+    const error = await searchProduct("A").catch(e => e);
+    expect(error).toBeInstanceOf(BusinessError);
+    expect(error).toMatchObject({ code: "PRODUCT_DISCONTINUED", message: "販売終了", status: 409 });
+  });
+
+  it("接続できなければ通信エラー", async () => {
+    setApiTransport(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    await expect(searchProduct("A")).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("応答がなければ制限時間で打ち切る", async () => {
+    vi.useFakeTimers();
+    const hang: ApiTransport = (_url, init) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      });
+    setApiTransport(hang);
+
+    const result = searchProduct("A").catch(e => e);
+    await vi.advanceTimersByTimeAsync(10000);
+    const error = await result;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toBeInstanceOf(NetworkError);
+  });
+
+  it("購入は5xxを再試行する", async () => {
+    vi.useFakeTimers();
+    const backend = createMockBackend();
+    let calls = 0;
+    setApiTransport(async (url, init) => {
+      calls++;
+      return calls < 3 ? json({ detail: "unavailable" }, 503) : backend(url, init);
+    });
+
+    const result = purchaseItems(payload("tx-3"));
+    await vi.advanceTimersByTimeAsync(500 + 1000);
+    await expect(result).resolves.toMatchObject({ success: true });
+    expect(calls).toBe(3);
+  });
+
+  it("購入の4xxは再試行しない", async () => {
+    let calls = 0;
+    setApiTransport(async () => {
+      calls++;
+      return json({ detail: "bad request" }, 400);
+    });
+
+    await expect(purchaseItems(payload("tx-4"))).rejects.toBeInstanceOf(ApiError);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setApiTransport } from "@/app/lib/api";
+import { countPendingAuditLogs, createAuditEntry, snapshotItem, submitAuditLogs } from "@/app/lib/audit";
+import { addToCart } from "@/app/lib/cart";
+import { MOCK_PRODUCTS } from "@/app/lib/mockBackend";
+import { discountRequiresApproval, lineVoidRequiresApproval } from "@/app/lib/permissions";
+import { lineKey } from "@/app/lib/pricing";
+import type { AuditLogUpload, Operator } from "@/app/types";
+
+const cashier: Operator = { emp_cd: "0001", emp_name: "山田 太郎", role: "cashier" };
+const supervisor: Operator = { emp_cd: "0900", emp_name: "鈴木 一郎", role: "supervisor" };
+const [tea, pen] = MOCK_PRODUCTS;
+
+describe("承認の要否", () => {
+  const items = addToCart(addToCart([], tea), pen);
+
+  it("直前に登録した明細は承認なしで取り消せる", () => {
+    expect(lineVoidRequiresApproval(items, lineKey(items[1]))).toBe(false);
+    expect(lineVoidRequiresApproval(items, lineKey(items[0]))).toBe(true);
+    expect(lineVoidRequiresApproval(items, "999")).toBe(false);
+  });
+
+  it("上限を超える値引のみ承認が必要", () => {
+    expect(discountRequiresApproval({ type: "percent", value: 10 }, 10000)).toBe(false);
+    expect(discountRequiresApproval({ type: "percent", value: 20 }, 1000)).toBe(true);
+    expect(discountRequiresApproval({ type: "amount", value: 500 }, 1000)).toBe(false);
+    expect(discountRequiresApproval({ type: "amount", value: 501 }, 1000)).toBe(true);
+    expect(discountRequiresApproval(null, 1000)).toBe(false);
+  });
+
+  it("円値引は数量分を合わせた値引額で判定する", () => {
+    expect(discountRequiresApproval({ type: "amount", value: 400 }, 50000, 100)).toBe(true);
+    expect(discountRequiresApproval({ type: "amount", value: 400 }, 800, 1)).toBe(false);
+    // 明細金額を超える値引は明細金額まで
+    expect(discountRequiresApproval({ type: "amount", value: 400 }, 450, 2)).toBe(false);
+  });
+});
+
+describe("createAuditEntry", () => {
+  it("担当者・承認者・対象明細・変更前後の値を記録する", () => {
+    const [item] = addToCart([], tea);
+    const entry = createAuditEntry({
+      action: "line_void",
+      operator: cashier,
+      approver: supervisor,
+      item,
+      before: snapshotItem(item),
+      after: snapshotItem(undefined),
+    });
+
+    expect(entry).toMatchObject({
+      action: "line_void",
+      emp_cd: "0001",
+      approver_cd: "0900",
+      target: { prd_code: tea.prd_code, prd_name: tea.prd_name },
+      before: { quantity: 1, unit_price: 150, discount: null },
+      after: { quantity: 0 },
+    });
+    expect(entry.audit_id).toBeTruthy();
+    expect(entry.reason).toBeUndefined();
+  });
+});
+
+describe("submitAuditLogs", () => {
+  const upload = (transactionId: string): AuditLogUpload => ({
+    transaction_id: transactionId,
+    store_cd: "30",
+    pos_no: "90",
+    entries: [],
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("NEXT_PUBLIC_API_URL", "http://api.test");
+    window.localStorage.clear();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setApiTransport(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("送信できなかった監査ログは端末に残し、次回まとめて再送する", async () => {
+    setApiTransport(async () => new Response("unavailable", { status: 503 }));
+    expect(await submitAuditLogs(upload("t1"))).toBe(1);
+    expect(countPendingAuditLogs()).toBe(1);
+
+    const sent: string[] = [];
+    setApiTransport(async (_url, init) => {
+      sent.push((JSON.parse(init.body as string) as AuditLogUpload).transaction_id);
+      return new Response(JSON.stringify({ success: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+    expect(await submitAuditLogs(upload("t2"))).toBe(0);
+    expect(sent).toEqual(["t1", "t2"]);
+    expect(countPendingAuditLogs()).toBe(0);
+  });
+
+  it("同時に送信しても監査ログを重複・欠落させない", async () => {
+    const sent: string[] = [];
+    setApiTransport(async (_url, init) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      sent.push((JSON.parse(init.body as string) as AuditLogUpload).transaction_id);
+      return new Response(JSON.stringify({ success: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+
+    await Promise.all([submitAuditLogs(upload("t1")), submitAuditLogs(upload("t2")), submitAuditLogs()]);
+    expect(sent).toEqual(["t1", "t2"]);
+    expect(countPendingAuditLogs()).toBe(0);
+  });
+});
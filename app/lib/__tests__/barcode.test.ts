@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BARCODE_RULES,
+  calculateCheckDigit,
+  expandUpcE,
+  isValidItf14,
+  isValidJan,
+  parseBarcode,
+  resolveEmbeddedValue,
+  validateBarcodeRules,
+} from "@/app/lib/barcode";
+import type { Product } from "@/app/types";
+
+describe("isValidJan", () => {
+  it("チェックデジットを検証する", () => {
+    expect(calculateCheckDigit("490123450001")).toBe(3);
+    expect(isValidJan("4901234500013")).toBe(true);
+    expect(isValidJan("4901234500014")).toBe(false);
+  });
+
+  it("EAN-8に対応する", () => {
+    expect(isValidJan("49123456")).toBe(calculateCheckDigit("4912345") === 6);
+  });
+});
+
+describe("expandUpcE / isValidItf14", () => {
+  it("UPC-Eを末尾の桁に応じてUPC-Aに展開する", () => {
+    expect(expandUpcE("04252614")).toBe("042100005264");
+    expect(expandUpcE("01234565")).toBe("012345000065");
+    expect(expandUpcE("01234531")).toBe("012300000451");
+    expect(expandUpcE("49123456")).toBeNull();
+  });
+
+  it("ITF-14のチェックデジットを検証する", () => {
+    expect(isValidItf14("14901234500010")).toBe(true);
+    expect(isValidItf14("14901234500011")).toBe(false);
+  });
+});
+
+describe("parseBarcode", () => {
+  it("通常のJANはそのまま検索する", () => {
+    expect(parseBarcode(" 4901234500013 ", DEFAULT_BARCODE_RULES))
+      .toEqual({ valid: true, lookup_code: "4901234500013" });
+  });
+
+  it("UPC-Eは展開したUPC-Aで、ITF-14はそのまま検索する", () => {
+    expect(parseBarcode("04252614", DEFAULT_BARCODE_RULES)).toEqual({ valid: true, lookup_code: "042100005264" });
+    expect(parseBarcode("14901234500010", DEFAULT_BARCODE_RULES)).toEqual({ valid: true, lookup_code: "14901234500010" });
+  });
+
+  it.each([
+    ["49012345ABC13", "数字以外"],
+    ["04252615", "チェックデジット"],
+    ["14901234500011", "チェックデジット"],
+    ["490123450001", "チェックデジット"],
+    ["12345", "桁数"],
+    ["4901234500014", "チェックデジット"],
+  ])("不正なコード %s", (raw, message) => {
+    const parsed = parseBarcode(raw, DEFAULT_BARCODE_RULES);
+    expect(parsed.valid).toBe(false);
+    if (!parsed.valid) expect(parsed.message).toContain(message);
+  });
+
+  it("価格埋込バーコードは価格を取り出し、埋込値を0にしたコードで検索する", () => {
+    const parsed = parseBarcode("0212345004982", DEFAULT_BARCODE_RULES);
+    expect(parsed).toMatchObject({
+      valid: true,
+      lookup_code: "0212345000007",
+      embedded: { barcode: "0212345004982", value: 498 },
+    });
+  });
+
+  it("重量埋込バーコードは基準重量あたりの価格から計算する", () => {
+    const parsed = parseBarcode("2512345003502", DEFAULT_BARCODE_RULES);
+    if (!parsed.valid || !parsed.embedded) throw new Error("解析に失敗しました");
+
+    const meat: Product = { prd_id: 7, prd_code: parsed.lookup_code, prd_name: "豚こま", prd_price: 198 };
+    expect(resolveEmbeddedValue(meat, parsed.embedded)).toEqual({
+      barcode: "2512345003502",
+      kind: "weight",
+      price: 693,
+      weight_g: 350,
+    });
+  });
+
+  it("埋込価格0円はエラー", () => {
+    expect(parseBarcode("0212345000007", DEFAULT_BARCODE_RULES))
+      .toEqual({ valid: false, message: "インストアバーコードの価格が0円です" });
+  });
+
+  it("規則がなければインストアバーコードとして扱わない", () => {
+    expect(parseBarcode("0212345004982", [])).toEqual({ valid: true, lookup_code: "0212345004982" });
+  });
+});
+
+describe("validateBarcodeRules", () => {
+  it("標準ルールは正しい", () => {
+    expect(validateBarcodeRules(DEFAULT_BARCODE_RULES)).toBeNull();
+  });
+
+  it("プレフィックスの重複を検出する", () => {
+    expect(validateBarcodeRules([
+      { prefixes: ["20"], item_digits: 5, value_kind: "price", value_digits: 5 },
+      { prefixes: ["20"], item_digits: 4, value_kind: "weight", value_digits: 5 },
+    ])).toBe("同じプレフィックスが複数の規則に指定されています");
+  });
+
+  it("桁数の合計が多すぎる", () => {
+    expect(validateBarcodeRules([{ prefixes: ["21"], item_digits: 6, value_digits: 5, value_kind: "price" }]))
+      .toContain("10桁以内");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  addToCart,
+  buildPurchaseRequest,
+  countItems,
+  decreaseQuantity,
+  increaseQuantity,
+  overridePrice,
+  removeFromCart,
+  setLineDiscount,
+} from "@/app/lib/cart";
+import { lineKey, priceCart } from "@/app/lib/pricing";
+import type { Product, TerminalConfig } from "@/app/types";
+
+const tea: Product = { prd_id: 1, prd_code: "4901234500013", prd_name: "お茶", prd_price: 150, tax_category: "reduced" };
+const pen: Product = { prd_id: 2, prd_code: "4901234500020", prd_name: "ボールペン", prd_price: 120 };
+
+describe("addToCart", () => {
+  it("新しい商品は数量1で末尾に追加する", () => {
+    const items = addToCart(addToCart([], tea), pen);
+    expect(items.map(item => [item.prd_id, item.quantity])).toEqual([[1, 1], [2, 1]]);
+  });
+
+  it("同じ商品は数量を加算する", () => {
+    const items = addToCart(addToCart([], tea), tea);
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(2);
+  });
+
+  it("元のリストを変更しない", () => {
+    const original = addToCart([], tea);
+    addToCart(original, tea);
+    expect(original[0].quantity).toBe(1);
+  });
+
+  it("インストアバーコードの商品は埋込価格で別明細にする", () => {
+    const first = addToCart([], tea, { barcode: "0212345004982", kind: "price", price: 498 });
+    const items = addToCart(first, tea, { barcode: "0212345003008", kind: "price", price: 300 });
+    expect(items.map(item => item.prd_price)).toEqual([498, 300]);
+  });
+
+  it("数量を指定して追加・加算する", () => {
+    const items = addToCart(addToCart([], tea, undefined, 3), tea, undefined, 2);
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(5);
+  });
+});
+
+describe("数量変更・削除", () => {
+  const items = addToCart(addToCart(addToCart([], tea), tea), pen);
+  const teaKey = lineKey(items[0]);
+  const penKey = lineKey(items[1]);
+
+  it("数量を増やす", () => {
+    expect(increaseQuantity(items, penKey)[1].quantity).toBe(2);
+  });
+
+  it("数量を減らす", () => {
+    expect(decreaseQuantity(items, teaKey)[0].quantity).toBe(1);
+  });
+
+  it("数量が1の明細を減らすと削除する", () => {
+    expect(decreaseQuantity(items, penKey).map(item => item.prd_id)).toEqual([1]);
+  });
+
+  it("存在しないキーは無視する", () => {
+    expect(decreaseQuantity(items, "999")).toBe(items);
+  });
+
+  it("明細を削除する", () => {
+    expect(removeFromCart(items, teaKey).map(item => item.prd_id)).toEqual([2]);
+  });
+
+  it("明細値引を適用・解除する", () => {
+    const discounted = setLineDiscount(items, penKey, { type: "amount", value: 20 });
+    expect(discounted[1].discount).toEqual({ type: "amount", value: 20 });
+    expect(setLineDiscount(discounted, penKey, null)[1].discount).toBeUndefined();
+  });
+
+  it("売価変更で元の単価を残し、元の単価に戻すと売価変更を解除する", () => {
+    const overridden = overridePrice(items, penKey, 100);
+    expect(overridden[1]).toMatchObject({ prd_price: 100, original_price: 120 });
+    expect(overridePrice(overridden, penKey, 80)[1]).toMatchObject({ prd_price: 80, original_price: 120 });
+    expect(overridePrice(overridden, penKey, 120)[1].original_price).toBeUndefined();
+  });
+
+  it("購入点数を数える", () => {
+    expect(countItems(items)).toBe(3);
+  });
+});
+
+describe("buildPurchaseRequest", () => {
+  it("端末・担当者・支払を含むリクエストを作成する", () => {
+    const config: TerminalConfig = { store_cd: "30", pos_no: "90", api_url: "https://api.example.com", settings_pin: "1234" };
+    const cart = priceCart(addToCart(addToCart([], tea), pen), [], null);
+
+    const request = buildPurchaseRequest({
+      transactionId: "tx-1",
+      cart,
+      tenders: [{ type: "cash", amount: 300 }],
+      change: 30,
+      config,
+      operator: { emp_cd: "0001", emp_name: "山田" },
+    });
+
+    expect(request).toMatchObject({
+      transaction_id: "tx-1",
+      emp_cd: "0001",
+      store_cd: "30",
+      pos_no: "90",
+      tenders: [{ type: "cash", amount: 300 }],
+      change_amount: 30,
+    });
+    expect(request.items.map(item => item.line_amount)).toEqual([150, 120]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { evaluateConnection } from "@/app/lib/connection";
+import type { ApiCallSample, HealthCheckResult } from "@/app/types";
+
+const now = Date.parse("2026-04-01T10:00:00Z");
+const health: HealthCheckResult = { ok: true, version: "1.2.0", latency_ms: 80, checked_at: "2026-04-01T10:00:00Z" };
+const sample = (ok: boolean, latency_ms = 100, ageMs = 0): ApiCallSample => ({ at: now - ageMs, latency_ms, ok });
+
+describe("evaluateConnection", () => {
+  it("正常時はオンラインで、平均応答時間とバージョンを返す", () => {
+    const status = evaluateConnection({ browserOnline: true, health, samples: [sample(true, 100), sample(true, 300)], now });
+    expect(status).toMatchObject({ state: "online", version: "1.2.0", latency_ms: 200, error_rate: 0 });
+  });
+
+  it("端末の切断・ヘルスチェック失敗・3回連続の失敗はオフライン", () => {
+    expect(evaluateConnection({ browserOnline: false, health, samples: [], now }).state).toBe("offline");
+    expect(evaluateConnection({ browserOnline: true, health: { ...health, ok: false }, samples: [], now }).state).toBe("offline");
+    expect(evaluateConnection({
+      browserOnline: true,
+      health,
+      samples: [sample(true), sample(false), sample(false), sample(false)],
+      now,
+    })).toMatchObject({ state: "offline", error_rate: 0.75 });
+  });
+
+  it("応答の遅れや失敗の増加は低速", () => {
+    expect(evaluateConnection({ browserOnline: true, health, samples: [sample(true, 2000)], now }))
+      .toMatchObject({ state: "slow", reason: "応答が遅くなっています（平均2,000ms）" });
+    expect(evaluateConnection({
+      browserOnline: true,
+      health,
+      samples: [sample(false), sample(true), sample(true), sample(true), sample(true)],
+      now,
+    })).toMatchObject({ state: "slow", reason: "通信エラーが増えています（直近20%）" });
+  });
+
+  it("5分より前の呼び出しは判定に使わない", () => {
+    const old = [sample(false, 100, 6 * 60 * 1000), sample(false, 100, 6 * 60 * 1000), sample(false, 100, 6 * 60 * 1000)];
+    expect(evaluateConnection({ browserOnline: true, health, samples: old, now })).toMatchObject({ state: "online", latency_ms: null });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { formatHotkeys, parseHotkeys, validateHotkeys, MAX_HOTKEYS } from "@/app/lib/hotkeys";
+
+describe("parseHotkeys / formatHotkeys", () => {
+  it("1行に「商品コード,表示名」で読み書きし、空行は無視する", () => {
+    const hotkeys = parseHotkeys("0000000000017, レジ袋 M\n\n0000000000024,コーヒー,S\n");
+    expect(hotkeys).toEqual([
+      { prd_code: "0000000000017", label: "レジ袋 M" },
+      { prd_code: "0000000000024", label: "コーヒー,S" },
+    ]);
+    expect(parseHotkeys(formatHotkeys(hotkeys))).toEqual(hotkeys);
+  });
+});
+
+describe("validateHotkeys", () => {
+  it("正しい設定はエラーなし", () => {
+    expect(validateHotkeys(parseHotkeys("0000000000017,レジ袋 M"))).toBeNull();
+  });
+
+  it("商品コード・表示名の不備は行番号付きで返す", () => {
+    expect(validateHotkeys(parseHotkeys("0000000000017,レジ袋 M\nabc,コーヒー"))).toBe(
+      "2行目: 商品コードは13桁以内の数字で入力してください"
+    );
+    expect(validateHotkeys(parseHotkeys("0000000000017"))).toBe("1行目: 表示名を入力してください");
+  });
+
+  it("重複と上限超過を拒否する", () => {
+    expect(validateHotkeys(parseHotkeys("17,袋\n17,袋"))).toBe("同じ商品コードが複数のホットキーに指定されています");
+    const many = Array.from({ length: MAX_HOTKEYS + 1 }, (_, index) => ({ prd_code: String(index + 1), label: "商品" }));
+    expect(validateHotkeys(many)).toBe(`ホットキーは${MAX_HOTKEYS}個まで登録できます`);
+  });
+});
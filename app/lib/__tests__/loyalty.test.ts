@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildMemberPoints, calculateEarnedPoints, maskMemberId, toReceiptMember } from "@/app/lib/loyalty";
+import type { Member } from "@/app/types";
+
+const member: Member = { member_id: "2900000000018", member_name: "佐藤 花子", point_balance: 1200 };
+
+describe("calculateEarnedPoints", () => {
+  it("お支払い100円につき1ポイント（端数切り捨て）", () => {
+    expect(calculateEarnedPoints(1580, [{ type: "cash", amount: 2000 }])).toBe(15);
+  });
+
+  it("ポイント利用分には付与しない", () => {
+    expect(calculateEarnedPoints(1580, [{ type: "points", amount: 500 }, { type: "cash", amount: 1080 }])).toBe(10);
+    expect(calculateEarnedPoints(300, [{ type: "points", amount: 300 }])).toBe(0);
+  });
+});
+
+describe("buildMemberPoints / toReceiptMember", () => {
+  it("付与・利用のポイントと会計後の残高", () => {
+    const points = buildMemberPoints(member, 1580, [{ type: "points", amount: 500 }, { type: "card", amount: 1080 }]);
+    expect(points).toEqual({ member_id: "2900000000018", points_earned: 10, points_redeemed: 500 });
+    expect(toReceiptMember(member, points).point_balance).toBe(710);
+  });
+});
+
+describe("maskMemberId", () => {
+  it("下4桁以外を伏せる", () => {
+    expect(maskMemberId("2900000000018")).toBe("*********0018");
+    expect(maskMemberId("0018")).toBe("0018");
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchReceipt, setApiTransport } from "@/app/lib/api";
+import { createMockBackend } from "@/app/lib/mockBackend";
+import {
+  getJournalEntries,
+  getOutboxEntries,
+  putJournalEntry,
+  removeOutboxEntry,
+  updateOutboxEntry,
+} from "@/app/lib/offlineStore";
+import {
+  discardFailedOutboxEntry,
+  flushOutbox,
+  getFailedOutboxEntries,
+  retryFailedOutboxEntry,
+} from "@/app/lib/outbox";
+import type { JournalEntry, OutboxEntry, PurchaseRequest } from "@/app/types";
+
+vi.mock("@/app/lib/offlineStore", () => ({
+  cacheProduct: vi.fn(async () => undefined),
+  getCachedProduct: vi.fn(async () => null),
+  getOutboxEntries: vi.fn(),
+  getJournalEntries: vi.fn(async () => []),
+  putJournalEntry: vi.fn(async () => undefined),
+  removeOutboxEntry: vi.fn(async () => undefined),
+  updateOutboxEntry: vi.fn(async () => undefined),
+}));
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const entry = (id: number, status?: OutboxEntry["status"]): OutboxEntry => ({
+  id,
+  payload: {
+    transaction_id: `tx-${id}`,
+    emp_cd: "0001",
+    store_cd: "30",
+    pos_no: "90",
+    items: [
+      { prd_id: 1, prd_code: "4901234500013", prd_name: "お茶", prd_price: 150, tax_category: "reduced", quantity: 1, applied_discounts: [], line_amount: 150 },
+    ],
+    tenders: [{ type: "cash", amount: 150 }],
+    change_amount: 0,
+  },
+  created_at: "2026-10-19T09:00:00.000Z",
+  attempts: 0,
+  status,
+});
+
+// オフラインで保留した取引のジャーナル（取引番号なし）
+const queuedJournal = (id: number): JournalEntry => ({
+  journal_id: `tx-${id}`,
+  recorded_at: "2026-10-19T09:00:00.000Z",
+  emp_cd: "0001",
+  receipt: {
+    transaction_id: `tx-${id}`,
+    issued_at: "2026-10-19T09:00:00.000Z",
+    store: { store_cd: "30", pos_no: "90" },
+    lines: [{ prd_code: "4901234500013", prd_name: "お茶", quantity: 1, unit_price: 150, amount: 150, reduced: true, discounts: [] }],
+    tax_buckets: [{ category: "reduced", rate: 0.08, total_inc_tax: 150, total_ex_tax: 139, tax: 11 }],
+    total_amount: 150,
+    total_tax: 11,
+    tenders: [{ type: "cash", amount: 150 }],
+    change_amount: 0,
+    queued: true,
+  },
+  response: null,
+});
+
+// 指定した取引IDの購入だけ応答を差し替え、それ以外はモックバックエンドに渡す
+const respondTo = (responses: Record<string, () => Promise<Response>>) => {
+  const backend = createMockBackend();
+  setApiTransport((url, init) => {
+    if (new URL(url).pathname === "/purchase") {
+      const { transaction_id } = JSON.parse(init.body as string) as PurchaseRequest;
+      const response = responses[transaction_id];
+      if (response) return response();
+    }
+    return backend(url, init);
+  });
+};
+
+beforeEach(() => {
+  vi.stubEnv("NEXT_PUBLIC_API_URL", "http://api.test");
+  vi.mocked(removeOutboxEntry).mockClear();
+  vi.mocked(updateOutboxEntry).mockClear();
+  vi.mocked(putJournalEntry).mockClear();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setApiTransport(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("flushOutbox", () => {
+  it("サーバーが拒否した取引は送信失敗として残し、後続の取引を送信する", async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry(1), entry(2)]);
+    respondTo({ "tx-1": async () => json({ code: "INVALID_ITEM", message: "商品が存在しません" }, 422) });
+
+    expect(await flushOutbox()).toEqual({ sent: 1, remaining: 0, failed: 1 });
+    expect(updateOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({ id: 1, status: "failed", attempts: 1 }));
+    expect(removeOutboxEntry).toHaveBeenCalledWith(2);
+  });
+
+  it("通信失敗・5xxでは停止し、後続の取引を追い越さない", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry(1), entry(2)]);
+    respondTo({ "tx-1": async () => json({ message: "Service Unavailable" }, 503) });
+
+    const result = flushOutbox();
+    await vi.runAllTimersAsync();
+    expect(await result).toEqual({ sent: 0, remaining: 2, failed: 0 });
+    expect(updateOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({ id: 1, status: "pending" }));
+    expect(removeOutboxEntry).not.toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it("送信失敗のエントリは再送しない", async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry(1, "failed"), entry(2)]);
+    respondTo({});
+
+    expect(await flushOutbox()).toEqual({ sent: 1, remaining: 0, failed: 1 });
+    expect(removeOutboxEntry).toHaveBeenCalledTimes(1);
+    expect(removeOutboxEntry).toHaveBeenCalledWith(2);
+  });
+
+  it("送信できた取引はジャーナルに取引番号を記録し、電子レシートを登録する", async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry(1)]);
+    vi.mocked(getJournalEntries).mockResolvedValueOnce([queuedJournal(1)]);
+    respondTo({});
+
+    expect(await flushOutbox()).toEqual({ sent: 1, remaining: 0, failed: 0 });
+    const journal = vi.mocked(putJournalEntry).mock.calls[0][0];
+    expect(journal.response).toMatchObject({ success: true });
+    expect(journal.receipt).toMatchObject({ transaction_id: "tx-1", transaction_no: expect.any(Number), queued: false });
+    expect(await fetchReceipt("tx-1")).toEqual(journal.receipt);
+  });
+
+  it("電子レシートを登録できなくても後続の取引を送信する", async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry(1), entry(2)]);
+    vi.mocked(getJournalEntries).mockResolvedValue([queuedJournal(1), queuedJournal(2)]);
+    const backend = createMockBackend();
+    setApiTransport((url, init) =>
+      new URL(url).pathname === "/receipts" ? Promise.resolve(json({ message: "Internal Server Error" }, 500)) : backend(url, init)
+    );
+
+    expect(await flushOutbox()).toEqual({ sent: 2, remaining: 0, failed: 0 });
+    expect(putJournalEntry).toHaveBeenCalledTimes(2);
+    expect(removeOutboxEntry).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("送信失敗の取引", () => {
+  it("送信失敗のエントリだけを取得する", async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry(1, "failed"), entry(2), entry(3, "failed")]);
+
+    expect((await getFailedOutboxEntries()).map(e => e.id)).toEqual([1, 3]);
+  });
+
+  it("再送の対象に戻すと次の送信で送られる", async () => {
+    const failed = { ...entry(1, "failed"), attempts: 1, last_error: "商品が存在しません" };
+    await retryFailedOutboxEntry(failed);
+    expect(updateOutboxEntry).toHaveBeenCalledWith({ ...failed, status: "pending" });
+
+    vi.mocked(getOutboxEntries).mockResolvedValue([{ ...failed, status: "pending" }]);
+    respondTo({});
+    expect(await flushOutbox()).toEqual({ sent: 1, remaining: 0, failed: 0 });
+    expect(removeOutboxEntry).toHaveBeenCalledWith(1);
+  });
+
+  it("破棄するとアウトボックスから削除する", async () => {
+    await discardFailedOutboxEntry(entry(1, "failed"));
+
+    expect(removeOutboxEntry).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { allocate, findActivePromotions, formatDiscount, formatPromotion, priceCart, toTaxableLines } from "@/app/lib/pricing";
+import type { Promotion, PurchaseItem } from "@/app/types";
+
+const item = (overrides: Partial<PurchaseItem> & Pick<PurchaseItem, "prd_id" | "prd_code" | "prd_price">): PurchaseItem => ({
+  prd_name: overrides.prd_code,
+  quantity: 1,
+  ...overrides,
+});
+
+const NOW = new Date("2026-04-01T10:00:00+09:00");
+
+describe("priceCart", () => {
+  it("値引がなければ明細金額の合計を返す", () => {
+    const cart = priceCart([item({ prd_id: 1, prd_code: "A", prd_price: 200, quantity: 3 })], [], null, NOW);
+    expect(cart.subtotal).toBe(600);
+    expect(cart.total).toBe(600);
+  });
+
+  it("まとめ売り・明細値引・会計値引を順に適用する", () => {
+    const bundle: Promotion = { promo_id: "P1", name: "2個で300円", type: "bundle", prd_codes: ["A"], quantity: 2, price: 300 };
+    const cart = priceCart(
+      [
+        item({ prd_id: 1, prd_code: "A", prd_price: 200, quantity: 2 }),
+        item({ prd_id: 2, prd_code: "B", prd_price: 100, tax_category: "reduced", discount: { type: "percent", value: 10 } }),
+      ],
+      [bundle],
+      { type: "percent", value: 10 },
+      NOW
+    );
+
+    expect(cart.lines.map(line => line.net_amount)).toEqual([300, 90]);
+    expect(cart.subtotal).toBe(390);
+    expect(cart.receipt_discount?.amount).toBe(39);
+    expect(cart.lines.map(line => line.receipt_discount_share)).toEqual([30, 9]);
+    expect(cart.total).toBe(351);
+    expect(toTaxableLines(cart)).toEqual([
+      { amount: 270, tax_category: undefined },
+      { amount: 81, tax_category: "reduced" },
+    ]);
+  });
+
+  it("手動値引のある明細には販促を適用しない", () => {
+    const percent: Promotion = { promo_id: "P2", name: "10%引", type: "percent", prd_codes: ["A"], value: 10 };
+    const cart = priceCart(
+      [item({ prd_id: 1, prd_code: "A", prd_price: 150, quantity: 2, discount: { type: "amount", value: 20 } })],
+      [percent],
+      null,
+      NOW
+    );
+    expect(cart.lines[0].discounts.map(d => d.kind)).toEqual(["line"]);
+    expect(cart.lines[0].net_amount).toBe(260);
+  });
+
+  it("割引率・値引額の販促は1点ごとに適用する", () => {
+    const promotions: Promotion[] = [
+      { promo_id: "P3", name: "10%引", type: "percent", prd_codes: ["A"], value: 10 },
+      { promo_id: "P4", name: "20円引", type: "amount", prd_codes: ["B"], value: 20 },
+    ];
+    const cart = priceCart(
+      [
+        item({ prd_id: 1, prd_code: "A", prd_price: 150, quantity: 2 }),
+        item({ prd_id: 2, prd_code: "B", prd_price: 100, quantity: 2 }),
+      ],
+      promotions,
+      null,
+      NOW
+    );
+    expect(cart.lines.map(line => line.net_amount)).toEqual([270, 160]);
+  });
+
+  it("期間外の販促は適用しない", () => {
+    const expired: Promotion = {
+      promo_id: "P5", name: "終了", type: "amount", prd_codes: ["A"], value: 50, ends_at: "2026-03-31T23:59:59+09:00",
+    };
+    const cart = priceCart([item({ prd_id: 1, prd_code: "A", prd_price: 150 })], [expired], null, NOW);
+    expect(cart.total).toBe(150);
+  });
+
+  it("値引額は明細金額を超えない", () => {
+    const cart = priceCart(
+      [item({ prd_id: 1, prd_code: "A", prd_price: 100, discount: { type: "amount", value: 500 } })],
+      [],
+      null,
+      NOW
+    );
+    expect(cart.total).toBe(0);
+  });
+});
+
+describe("allocate", () => {
+  it("端数は比率の大きい順に1円ずつ配分する", () => {
+    const result = allocate(10, [["a", 1], ["b", 2], ["c", 1]]);
+    expect([result.get("a"), result.get("b"), result.get("c")]).toEqual([2, 6, 2]);
+  });
+
+  it("比率の合計が0なら配分しない", () => {
+    expect(allocate(10, [["a", 0]]).size).toBe(0);
+  });
+});
+
+describe("formatDiscount", () => {
+  it("値引の表示名", () => {
+    expect(formatDiscount({ type: "percent", value: 20 })).toBe("20%引");
+    expect(formatDiscount({ type: "amount", value: 1000 })).toBe("1,000円引");
+  });
+});
+
+describe("findActivePromotions / formatPromotion", () => {
+  const promotions: Promotion[] = [
+    { promo_id: "P1", name: "2個で300円", type: "bundle", prd_codes: ["A", "B"], quantity: 2, price: 300 },
+    { promo_id: "P2", name: "春の割引", type: "percent", prd_codes: ["A"], value: 20, ends_at: "2026-03-31T23:59:59+09:00" },
+    { promo_id: "P3", name: "値下げ", type: "amount", prd_codes: ["A"], value: 30 },
+  ];
+
+  it("商品が対象で有効期間内の販促のみ返す", () => {
+    expect(findActivePromotions("A", promotions, NOW).map(p => p.promo_id)).toEqual(["P1", "P3"]);
+    expect(findActivePromotions("C", promotions, NOW)).toEqual([]);
+  });
+
+  it("販促の内容を表示する", () => {
+    expect(promotions.map(formatPromotion)).toEqual(["2点で300円", "20%引", "1点につき30円引"]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildImportPreview,
+  importTargets,
+  parseCsv,
+  productsToCsv,
+  validateProductInput,
+} from "@/app/lib/productMaster";
+import type { Product, ProductInput } from "@/app/types";
+
+const existing: Product[] = [
+  { prd_id: 1, prd_code: "4900000000016", prd_name: "おにぎり 鮭", prd_price: 150, tax_category: "reduced", department: "食品" },
+  { prd_id: 2, prd_code: "4900000000023", prd_name: "ボールペン", prd_price: 120, tax_category: "standard", department: "文具" },
+];
+
+const preview = (text: string) => {
+  const result = buildImportPreview(text, existing);
+  if ("error" in result) throw new Error(result.error);
+  return result.rows;
+};
+
+describe("validateProductInput", () => {
+  it("正しい入力はエラーなし", () => {
+    expect(validateProductInput({ prd_code: "4900000000030", prd_name: "ノート", prd_price: 200 })).toEqual({});
+  });
+
+  it("チェックデジット誤り・空の商品名・小数の価格を項目ごとに返す", () => {
+    const errors = validateProductInput({ prd_code: "4900000000031", prd_name: " ", prd_price: 10.5 });
+    expect(Object.keys(errors).sort()).toEqual(["prd_code", "prd_name", "prd_price"]);
+  });
+
+  it("税区分・年齢確認はオブジェクトの組込みのキーを受け付けない", () => {
+    const errors = validateProductInput({
+      prd_code: "4900000000030",
+      prd_name: "ノート",
+      prd_price: 200,
+      tax_category: "toString" as ProductInput["tax_category"],
+      age_restriction: "constructor" as ProductInput["age_restriction"],
+    });
+    expect(Object.keys(errors).sort()).toEqual(["age_restriction", "tax_category"]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("BOM・引用符内のカンマと改行・CRLFを扱える", () => {
+    const rows = parseCsv('\uFEFFa,b\r\n"x,1","say ""hi""\nok"\r\n');
+    expect(rows).toEqual([["a", "b"], ["x,1", 'say "hi"\nok']]);
+  });
+});
+
+describe("buildImportPreview", () => {
+  it("新規・変更・変更なしを判定し、変更点を表示用の値で返す", () => {
+    const rows = preview([
+      "商品コード,商品名,価格,税区分,部門",
+      "4900000000016,おにぎり 鮭,160,軽減,食品",
+      "4900000000023,ボールペン,120,10,文具",
+      "4900000000030,ノート,\"1,200円\",standard,文具",
+    ].join("\n"));
+
+    expect(rows.map(row => row.status)).toEqual(["changed", "unchanged", "new"]);
+    expect(rows[0].changes).toEqual([{ field: "prd_price", before: "150円", after: "160円" }]);
+    expect(rows[2].input?.prd_price).toBe(1200);
+    expect(importTargets(rows).map(p => p.prd_code)).toEqual(["4900000000016", "4900000000030"]);
+  });
+
+  it("行ごとの入力エラーとファイル内の重複を報告し、取込対象から外す", () => {
+    const rows = preview([
+      "prd_code,prd_name,prd_price,tax_category,is_active",
+      "4900000000030,ノート,200,,1",
+      "4900000000030,ノート2,200,,1",
+      "4900000000031,,abc,9,maybe",
+      "",
+    ].join("\n"));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toMatchObject({ line: 3, status: "error", errors: ["商品コードが2行目と重複しています"] });
+    expect(rows[2].status).toBe("error");
+    expect(rows[2].errors).toHaveLength(5);
+    expect(importTargets(rows)).toHaveLength(1);
+  });
+
+  it("必須の見出しがなければエラー", () => {
+    expect(buildImportPreview("prd_code,prd_name\n4900000000030,ノート", existing)).toEqual({
+      error: "見出しに価格がありません",
+    });
+  });
+
+  it("CSV出力の内容をそのまま取込むと変更なしになる", () => {
+    const rows = preview(productsToCsv(existing));
+    expect(rows.map(row => row.status)).toEqual(["unchanged", "unchanged"]);
+  });
+});
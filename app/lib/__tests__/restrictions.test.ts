@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { addToCart } from "@/app/lib/cart";
+import { ageOn, checkPurchaseLimit, parseBirthDate, purchasedQuantity } from "@/app/lib/restrictions";
+import type { EmbeddedBarcodeValue, Product } from "@/app/types";
+
+const masks: Product = { prd_id: 9, prd_code: "4901234500075", prd_name: "マスク", prd_price: 598, purchase_limit: 2 };
+const pork: Product = { prd_id: 7, prd_code: "2512345000006", prd_name: "豚こま", prd_price: 198, purchase_limit: 2 };
+
+describe("checkPurchaseLimit", () => {
+  it("上限までは追加でき、超える場合は理由を返す", () => {
+    const items = addToCart([], masks);
+    expect(checkPurchaseLimit(items, masks)).toBeNull();
+    expect(checkPurchaseLimit(addToCart(items, masks), masks)).toBe("「マスク」はお一人様2点までです（購入リストに2点）");
+  });
+
+  it("インストアバーコードの明細も同じ商品として合算する", () => {
+    const embedded = (barcode: string): EmbeddedBarcodeValue => ({ barcode, kind: "price", price: 300 });
+    const items = addToCart(addToCart([], pork, embedded("2512345003007")), pork, embedded("2512345004004"));
+    expect(purchasedQuantity(items, pork.prd_code)).toBe(2);
+    expect(checkPurchaseLimit(items, pork)).not.toBeNull();
+  });
+
+  it("上限のない商品は制限しない", () => {
+    const pen: Product = { prd_id: 2, prd_code: "4901234500020", prd_name: "ボールペン", prd_price: 120 };
+    expect(checkPurchaseLimit(addToCart([], pen), pen, 100)).toBeNull();
+  });
+});
+
+describe("parseBirthDate / ageOn", () => {
+  it("区切りの有無を問わず解釈し、存在しない日付は拒否する", () => {
+    expect(parseBirthDate("20060401")?.getDate()).toBe(1);
+    expect(parseBirthDate("2006/04/01")?.getMonth()).toBe(3);
+    expect(parseBirthDate("2006-02-30")).toBeNull();
+    expect(parseBirthDate("0401")).toBeNull();
+  });
+
+  it("誕生日の当日に年齢を加算する", () => {
+    const birth = new Date(2006, 3, 1);
+    expect(ageOn(birth, new Date(2026, 2, 31))).toBe(19);
+    expect(ageOn(birth, new Date(2026, 3, 1))).toBe(20);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildRefundLines, parseTransactionQuery, refundTargetKey, selectAllReturnable } from "@/app/lib/returns";
+import type { TransactionRecord } from "@/app/types";
+
+// 同じ惣菜（prd_id 6）を価格違いで2パック購入した取引
+const transaction: TransactionRecord = {
+  transaction_id: "8f0c2a9e-1d3b-4c5a-9e7f-0a1b2c3d4e5f",
+  transaction_no: 12,
+  created_at: "2026-10-19T09:00:00.000Z",
+  store_cd: "30",
+  pos_no: "90",
+  items: [
+    {
+      prd_id: 6, prd_code: "0212345000007", prd_name: "日替わり弁当", prd_price: 498, quantity: 1,
+      embedded: { barcode: "0212345004982", kind: "price", price: 498 }, applied_discounts: [], line_amount: 498,
+    },
+    {
+      prd_id: 6, prd_code: "0212345000007", prd_name: "日替わり弁当", prd_price: 300, quantity: 1,
+      embedded: { barcode: "0212345003008", kind: "price", price: 300 }, applied_discounts: [], line_amount: 300,
+    },
+    { prd_id: 1, prd_code: "4901234500013", prd_name: "お茶", prd_price: 150, quantity: 2, applied_discounts: [], line_amount: 300, returned_quantity: 1 },
+  ],
+  tenders: [{ type: "cash", amount: 1098 }],
+  total_amount: 1098,
+  total_amount_ex_tax: 1017,
+  status: "partially_refunded",
+};
+
+describe("buildRefundLines", () => {
+  it("インストアバーコードの明細は同じ商品でも別の明細として返品する", () => {
+    expect(buildRefundLines(transaction, { "6:0212345003008": 1 })).toEqual([
+      { prd_id: 6, prd_code: "0212345000007", embedded_barcode: "0212345003008", quantity: 1, amount: 300 },
+    ]);
+  });
+
+  it("返品済みの数量を超えて返品しない", () => {
+    const lines = buildRefundLines(transaction, selectAllReturnable(transaction));
+    expect(lines.map(line => [line.embedded_barcode, line.quantity, line.amount])).toEqual([
+      ["0212345004982", 1, 498],
+      ["0212345003008", 1, 300],
+      [undefined, 1, 150],
+    ]);
+  });
+});
+
+describe("refundTargetKey", () => {
+  it("同じ取引・明細の返品は同じ対象として扱う", () => {
+    const lines = buildRefundLines(transaction, { "6:0212345003008": 1 });
+    const target = refundTargetKey("refund", transaction.transaction_id, lines);
+
+    expect(refundTargetKey("refund", transaction.transaction_id, buildRefundLines(transaction, { "6:0212345003008": 1 })))
+      .toBe(target);
+    expect(refundTargetKey("refund", transaction.transaction_id, buildRefundLines(transaction, { "6:0212345004982": 1 })))
+      .not.toBe(target);
+    expect(refundTargetKey("void", transaction.transaction_id, lines)).not.toBe(target);
+  });
+});
+
+describe("parseTransactionQuery", () => {
+  it("取引番号とレシートのURLを解釈する", () => {
+    expect(parseTransactionQuery(" 12 ")).toEqual({ transaction_no: 12 });
+    expect(parseTransactionQuery(`https://pos.example/receipt/${transaction.transaction_id}`))
+      .toEqual({ transaction_id: transaction.transaction_id });
+    expect(parseTransactionQuery("abc")).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { buildSalesReport, reportFilename, reportToCsv } from "@/app/lib/salesReport";
+import type { JournalEntry, Operator, Receipt, TaxBucket, Tender } from "@/app/types";
+
+const yamada: Operator = { emp_cd: "0001", emp_name: "山田" };
+const suzuki: Operator = { emp_cd: "0002", emp_name: "鈴木" };
+
+const bucket = (category: TaxBucket["category"], total: number, tax: number): TaxBucket => ({
+  category,
+  rate: category === "reduced" ? 0.08 : 0.1,
+  total_inc_tax: total,
+  total_ex_tax: total - tax,
+  tax,
+});
+
+const entry = (params: {
+  id: string;
+  at: Date;
+  kind?: Receipt["kind"];
+  cashier: Operator;
+  total: number;
+  quantity: number;
+  buckets: TaxBucket[];
+  tenders: Tender[];
+  change?: number;
+  discount?: number;
+  queued?: boolean;
+}): JournalEntry => ({
+  journal_id: params.id,
+  recorded_at: params.at.toISOString(),
+  emp_cd: params.cashier.emp_cd,
+  receipt: {
+    kind: params.kind,
+    transaction_id: params.id,
+    issued_at: params.at.toISOString(),
+    store: { store_cd: "30", pos_no: "90" },
+    cashier: params.cashier,
+    lines: [{
+      prd_code: "4901234500013",
+      prd_name: "商品",
+      quantity: params.quantity,
+      unit_price: 0,
+      amount: params.total,
+      reduced: false,
+      discounts: params.discount ? [{ kind: "line", label: "値引", amount: params.discount }] : [],
+    }],
+    tax_buckets: params.buckets,
+    total_amount: params.total,
+    total_tax: params.buckets.reduce((sum, b) => sum + b.tax, 0),
+    tenders: params.tenders,
+    change_amount: params.change ?? 0,
+    queued: params.queued ?? false,
+  },
+  response: params.queued ? null : { success: true, total_amount: params.total, total_amount_ex_tax: 0 },
+});
+
+const ENTRIES: JournalEntry[] = [
+  entry({
+    id: "s1", at: new Date(2026, 3, 1, 9, 15), cashier: yamada, total: 1100, quantity: 2,
+    buckets: [bucket("standard", 1100, 100)], tenders: [{ type: "cash", amount: 2000 }], change: 900, discount: 50,
+  }),
+  entry({
+    id: "s2", at: new Date(2026, 3, 1, 9, 40), cashier: suzuki, total: 540, quantity: 3,
+    buckets: [bucket("reduced", 540, 40)], tenders: [{ type: "qr", amount: 300 }, { type: "cash", amount: 500 }], change: 260,
+    queued: true,
+  }),
+  entry({
+    id: "s3", at: new Date(2026, 3, 1, 13, 5), cashier: yamada, total: 2200, quantity: 1,
+    buckets: [bucket("standard", 2200, 200)], tenders: [{ type: "card", amount: 2200 }],
+  }),
+  entry({
+    id: "r1", at: new Date(2026, 3, 1, 14, 0), kind: "refund", cashier: suzuki, total: 550, quantity: 1,
+    buckets: [bucket("standard", 550, 50)], tenders: [{ type: "cash", amount: 550 }],
+  }),
+];
+
+describe("buildSalesReport", () => {
+  const report = buildSalesReport(ENTRIES, {
+    type: "X",
+    store_cd: "30",
+    pos_no: "90",
+    opening_float: 30000,
+    counted: 30780,
+    now: new Date(2026, 3, 1, 15, 0),
+  });
+
+  it("売上・返品・値引を集計する", () => {
+    expect(report).toMatchObject({
+      sale_count: 3,
+      refund_count: 1,
+      item_count: 5,
+      gross_sales: 3840,
+      refund_total: 550,
+      net_sales: 3290,
+      discount_total: 50,
+      queued_count: 1,
+      period_from: ENTRIES[0].receipt.issued_at,
+      period_to: ENTRIES[3].receipt.issued_at,
+    });
+  });
+
+  it("時間帯別に集計する", () => {
+    expect(report.by_hour.map(row => [row.label, row.count, row.amount])).toEqual([
+      ["09:00〜", 2, 1640],
+      ["13:00〜", 1, 2200],
+      ["14:00〜", 1, -550],
+    ]);
+  });
+
+  it("税率別は返品を差し引く", () => {
+    expect(report.by_tax.map(b => [b.category, b.total_inc_tax, b.tax])).toEqual([
+      ["standard", 2750, 250],
+      ["reduced", 540, 40],
+    ]);
+  });
+
+  it("支払方法別の現金はお釣りを差し引く", () => {
+    expect(report.by_tender.map(row => [row.key, row.count, row.amount])).toEqual([
+      ["cash", 3, 1100 + 240 - 550],
+      ["qr", 1, 300],
+      ["card", 1, 2200],
+    ]);
+  });
+
+  it("担当者別に集計する", () => {
+    expect(report.by_operator.map(row => [row.key, row.label, row.count, row.amount])).toEqual([
+      ["0001", "山田", 2, 3300],
+      ["0002", "鈴木", 2, -10],
+    ]);
+  });
+
+  it("現金在高を照合する", () => {
+    expect(report.cash).toEqual({
+      opening_float: 30000,
+      cash_sales: 1340,
+      cash_refunds: 550,
+      expected: 30790,
+      counted: 30780,
+      difference: -10,
+    });
+  });
+
+  it("取引がなければ0件のレポート", () => {
+    const empty = buildSalesReport([], { type: "Z", z_no: 3, store_cd: "30", pos_no: "90", opening_float: 0, counted: null });
+    expect(empty).toMatchObject({ sale_count: 0, net_sales: 0, period_from: null, by_hour: [] });
+    expect(empty.cash.difference).toBeNull();
+  });
+});
+
+describe("reportToCsv", () => {
+  const report = buildSalesReport(ENTRIES, {
+    type: "Z",
+    z_no: 12,
+    store_cd: "30",
+    pos_no: "90",
+    opening_float: 30000,
+    counted: null,
+    now: new Date(2026, 3, 1, 21, 0),
+  });
+  const csv = reportToCsv(report);
+  const lines = csv.split("\r\n");
+
+  it("区分ごとに見出し行を出力する", () => {
+    expect(lines[0]).toBe("レポート,Zレポート（精算）");
+    expect(lines).toContain("精算番号,12");
+    expect(lines).toContain("総売上,3,3840");
+    expect(lines).toContain("返品・取消,1,-550");
+    expect(lines).toContain("10%,2750,2500,250");
+    expect(lines).toContain("0002,鈴木,2,-10");
+    expect(lines).toContain("実査在高,");
+  });
+
+  it("ファイル名に精算番号と日付を含める", () => {
+    expect(reportFilename(report)).toBe("Z0012_30_90_20260401.csv");
+  });
+});
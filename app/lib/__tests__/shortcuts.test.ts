@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { moveSelection, parseQuantityInput, resolveShortcut } from "@/app/lib/shortcuts";
+
+const key = (key: string, modifiers: { ctrlKey?: boolean; altKey?: boolean; metaKey?: boolean } = {}) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  metaKey: false,
+  ...modifiers,
+});
+
+describe("resolveShortcut", () => {
+  it("数字・数量・明細操作・ファンクションキーをコマンドにする", () => {
+    expect(resolveShortcut(key("7"))).toEqual({ type: "digit", digit: "7" });
+    expect(resolveShortcut(key("*"))).toEqual({ type: "multiply" });
+    expect(resolveShortcut(key("x"))).toEqual({ type: "multiply" });
+    expect(resolveShortcut(key("ArrowUp"))).toEqual({ type: "select", delta: -1 });
+    expect(resolveShortcut(key("Delete"))).toEqual({ type: "void" });
+    expect(resolveShortcut(key("F4"))).toEqual({ type: "checkout" });
+  });
+
+  it("割り当てのないキー・修飾キーとの組み合わせは無視する", () => {
+    expect(resolveShortcut(key("a"))).toBeNull();
+    expect(resolveShortcut(key("F5"))).toBeNull();
+    expect(resolveShortcut(key("x", { ctrlKey: true }))).toBeNull();
+    expect(resolveShortcut(key("1", { metaKey: true }))).toBeNull();
+  });
+});
+
+describe("parseQuantityInput", () => {
+  it("1〜99の整数だけを数量にする", () => {
+    expect(parseQuantityInput("3")).toBe(3);
+    expect(parseQuantityInput("99")).toBe(99);
+    expect(parseQuantityInput("0")).toBeNull();
+    expect(parseQuantityInput("100")).toBeNull();
+    expect(parseQuantityInput("")).toBeNull();
+  });
+});
+
+describe("moveSelection", () => {
+  const keys = ["1", "2", "3"];
+
+  it("上下に移動し、端で止まる", () => {
+    expect(moveSelection(keys, "2", 1)).toBe("3");
+    expect(moveSelection(keys, "3", 1)).toBe("3");
+    expect(moveSelection(keys, "1", -1)).toBe("1");
+  });
+
+  it("未選択・選択中の明細がない場合は下へは先頭、上へは末尾を選ぶ", () => {
+    expect(moveSelection(keys, null, 1)).toBe("1");
+    expect(moveSelection(keys, "9", -1)).toBe("3");
+    expect(moveSelection([], null, 1)).toBeNull();
+  });
+});
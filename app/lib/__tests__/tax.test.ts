@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { calculateTax, findTotalsMismatch, getTaxSettings, roundAmount } from "@/app/lib/tax";
+
+describe("calculateTax", () => {
+  it("税込金額から内税を求める", () => {
+    const summary = calculateTax([{ amount: 1100 }], { rounding: "floor", unit: "receipt" });
+    expect(summary).toEqual({
+      buckets: [{ category: "standard", rate: 0.1, total_inc_tax: 1100, total_ex_tax: 1000, tax: 100 }],
+      total_amount: 1100,
+      total_amount_ex_tax: 1000,
+      total_tax: 100,
+    });
+  });
+
+  it("税率ごとに集計する", () => {
+    const summary = calculateTax(
+      [{ amount: 270 }, { amount: 81, tax_category: "reduced" }],
+      { rounding: "floor", unit: "receipt" }
+    );
+    expect(summary.buckets.map(b => [b.category, b.total_inc_tax, b.tax])).toEqual([
+      ["standard", 270, 24],
+      ["reduced", 81, 6],
+    ]);
+    expect(summary.total_tax).toBe(30);
+    expect(summary.total_amount_ex_tax).toBe(321);
+  });
+
+  it.each([
+    ["floor", 13],
+    ["round", 14],
+    ["ceil", 14],
+  ] as const)("端数処理 %s", (rounding, tax) => {
+    expect(calculateTax([{ amount: 150 }], { rounding, unit: "receipt" }).total_tax).toBe(tax);
+  });
+
+  it("明細単位の端数処理はレシート単位と結果が異なる場合がある", () => {
+    const lines = [{ amount: 150 }, { amount: 150 }];
+    expect(calculateTax(lines, { rounding: "floor", unit: "line" }).total_tax).toBe(26);
+    expect(calculateTax(lines, { rounding: "floor", unit: "receipt" }).total_tax).toBe(27);
+  });
+
+  it("明細がなければ集計なし", () => {
+    expect(calculateTax([], { rounding: "floor", unit: "receipt" }).buckets).toEqual([]);
+  });
+});
+
+describe("roundAmount", () => {
+  it("浮動小数点誤差を補正してから切り捨てる", () => {
+    expect(roundAmount(99.99999999, "floor")).toBe(100);
+  });
+});
+
+describe("getTaxSettings", () => {
+  it("未設定の項目は既定値", () => {
+    expect(getTaxSettings(null)).toEqual({ rounding: "floor", unit: "receipt" });
+  });
+});
+
+describe("findTotalsMismatch", () => {
+  const summary = calculateTax([{ amount: 1100 }], { rounding: "floor", unit: "receipt" });
+
+  it("一致すればnull", () => {
+    expect(findTotalsMismatch(summary, { total_amount: 1100, total_amount_ex_tax: 1000 })).toBeNull();
+  });
+
+  it("不一致の差額を説明する", () => {
+    expect(findTotalsMismatch(summary, { total_amount: 1100, total_amount_ex_tax: 999 }))
+      .toBe("税抜: 端末 1000円 / サーバー 999円");
+  });
+});
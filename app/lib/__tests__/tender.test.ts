@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { getTenderStatus, quickCashAmounts, validateTender } from "@/app/lib/tender";
+
+describe("getTenderStatus", () => {
+  it("現金預りからお釣りを出す", () => {
+    expect(getTenderStatus(780, [{ type: "cash", amount: 1000 }])).toEqual({ paid: 1000, remaining: 0, change: 220 });
+  });
+
+  it("併用払いの不足額を求める", () => {
+    expect(getTenderStatus(1500, [{ type: "qr", amount: 500 }, { type: "cash", amount: 500 }]))
+      .toEqual({ paid: 1000, remaining: 500, change: 0 });
+  });
+
+  it("お釣りは現金預りを超えない", () => {
+    expect(getTenderStatus(1000, [{ type: "cash", amount: 100 }, { type: "card", amount: 1000 }]).change).toBe(100);
+  });
+});
+
+describe("validateTender", () => {
+  it("キャッシュレス決済は不足額まで", () => {
+    expect(validateTender(1000, [], { type: "card", amount: 1200 }))
+      .toBe("クレジットは不足額（1,000円）以内で入力してください");
+    expect(validateTender(1000, [], { type: "cash", amount: 1200 })).toBeNull();
+  });
+
+  it("支払済みなら追加できない", () => {
+    expect(validateTender(1000, [{ type: "cash", amount: 1000 }], { type: "cash", amount: 100 }))
+      .toBe("すでに支払が完了しています");
+  });
+
+  it("ポイントは残高（利用済みを除く）まで", () => {
+    const tenders = [{ type: "points" as const, amount: 300 }];
+    expect(validateTender(1000, tenders, { type: "points", amount: 300 }, 500))
+      .toBe("ポイントは残高（200ポイント）以内で入力してください");
+    expect(validateTender(1000, tenders, { type: "points", amount: 200 }, 500)).toBeNull();
+  });
+
+  it("0円や小数は受け付けない", () => {
+    expect(validateTender(1000, [], { type: "cash", amount: 0 })).toBe("金額を入力してください");
+    expect(validateTender(1000, [], { type: "cash", amount: 10.5 })).toBe("金額を入力してください");
+  });
+});
+
+describe("quickCashAmounts", () => {
+  it("ちょうど・切り上げ・紙幣の候補", () => {
+    expect(quickCashAmounts(780)).toEqual([780, 800, 1000, 5000, 10000]);
+  });
+});
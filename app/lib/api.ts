@@ -2,89 +2,247 @@
  * POS System API Client
  * バックエンドAPIとの通信を管理
  */
-import type { Product, PurchaseRequest, PurchaseResponse } from "@/app/types";
+import type {
+  AuditLogUpload,
+  CustomerDisplayState,
+  HeldCart,
+  Member,
+  Operator,
+  OperatorCredentials,
+  Product,
+  ProductChangeActor,
+  ProductImportResult,
+  ProductInput,
+  ProductListQuery,
+  ProductListResult,
+  Promotion,
+  PurchaseRequest,
+  PurchaseResponse,
+  Receipt,
+  RefundRequest,
+  RefundResponse,
+  StockLevel,
+  TransactionRecord,
+} from "@/app/types";
+import {
+  ApiError,
+  BusinessError,
+  NetworkError,
+  PosApiError,
+  TimeoutError,
+  ValidationError,
+} from "@/app/lib/errors";
+import { createMockBackend } from "@/app/lib/mockBackend";
+import type { ApiTransport } from "@/app/lib/mockBackend";
+import { unknown } from "@/app/lib/validation";
+import type { Schema } from "@/app/lib/validation";
+import {
+  displayStateResponseSchema,
+  healthResponseSchema,
+  heldCartResponseSchema,
+  heldCartsResponseSchema,
+  memberResponseSchema,
+  operatorResponseSchema,
+  productAdminListResponseSchema,
+  productImportResponseSchema,
+  productListResponseSchema,
+  productResponseSchema,
+  productSearchResponseSchema,
+  promotionsResponseSchema,
+  purchaseResponseSchema,
+  receiptResponseSchema,
+  refundResponseSchema,
+  stockResponseSchema,
+  transactionResponseSchema,
+} from "@/app/types/schemas";
+import { recordApiCall } from "@/app/lib/connection";
+import { cacheProduct, getCachedProduct } from "@/app/lib/offlineStore";
+import { validateProductInput } from "@/app/lib/productMaster";
+import { loadTerminalConfig, normalizeApiUrl } from "@/app/lib/terminalConfig";
+import { createUuid } from "@/app/lib/uuid";
+
+// 応答待ちの上限（ミリ秒）
+const DEFAULT_TIMEOUT_MS = 10000;
+// モックバックエンド使用時のURL（端末設定が未登録でも動作させるため）
+const MOCK_API_URL = "http://mock.pos.local";
+
+const isMockEnabled = (): boolean => process.env.NEXT_PUBLIC_API_MOCK === "true";
+
+let transport: ApiTransport | null = isMockEnabled() ? createMockBackend() : null;
+
+/**
+ * API呼び出しの送信処理を差し替える（モックバックエンド・テスト用）
+ * @param next 送信処理（nullで通常の fetch に戻す）
+ */
+export function setApiTransport(next: ApiTransport | null): void {
+  transport = next;
+}
 
 /**
  * API URL取得と検証
+ * 端末設定のURLを優先し、未設定の場合はビルド時の環境変数を使用
  */
 const getApiUrl = (): string => {
-  // Next.jsの環境変数（ビルド時に埋め込まれる）
-  const raw = process.env.NEXT_PUBLIC_API_URL;
+  // 端末設定 → Next.jsの環境変数（ビルド時に埋め込まれる）の順に参照
+  const raw = loadTerminalConfig()?.api_url || process.env.NEXT_PUBLIC_API_URL
+    || (isMockEnabled() ? MOCK_API_URL : undefined);
   
   if (!raw) {
-    console.error("[API設定エラー] NEXT_PUBLIC_API_URLが未設定です");
-    throw new Error("API URLが設定されていません。管理者に連絡してください。");
+    console.error("[API設定エラー] API URLが未設定です（端末設定またはNEXT_PUBLIC_API_URL）");
+    throw new BusinessError("API_URL_NOT_CONFIGURED", "API URLが設定されていません。管理者に連絡してください。");
   }
   
-  // プロトコル補完
-  const withProto = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
-  
-  // 末尾スラッシュ除去
-  return withProto.replace(/\/$/, "");
+  return normalizeApiUrl(raw);
 };
 
-const API_URL = getApiUrl();
-
-// 開発環境でのログ（ブラウザでのみ実行）
-if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
-  console.log(`[API] Connecting to: ${API_URL}`);
+/**
+ * エラーレスポンスからエラーを作成
+ * 本文に code がある場合は業務エラー、それ以外はHTTPエラー
+ */
+async function toResponseError(response: Response): Promise<PosApiError> {
+  let errorMessage = `HTTPエラー (${response.status})`;
+  let code: string | undefined;
+  
+  try {
+    const errorData = await response.clone().json();
+    errorMessage = errorData.detail || errorData.message || errorMessage;
+    code = typeof errorData.code === "string" ? errorData.code : undefined;
+  } catch {
+    // JSONパースに失敗した場合はテキストを取得
+    const errorText = await response.text();
+    if (errorText) {
+      errorMessage = errorText;
+    }
+  }
+  
+  console.error(`[API Error] ${response.status}: ${errorMessage}`);
+  return code && response.status < 500
+    ? new BusinessError(code, errorMessage, response.status)
+    : new ApiError(errorMessage, response.status);
 }
 
 /**
  * 共通フェッチヘルパー
+ * 応答は制限時間で打ち切り、本文はスキーマで検証してから返す
+ * @param endpoint パス
+ * @param schema レスポンスのスキーマ
+ * @param options fetch のオプションと応答待ちの上限（timeoutMs）
+ * @param baseUrl 接続先
  */
 async function fetchAPI<T>(
   endpoint: string,
-  options: RequestInit = {}
+  schema: Schema<T>,
+  options: RequestInit & { timeoutMs?: number } = {},
+  baseUrl: string = getApiUrl()
 ): Promise<T> {
-  const url = `${API_URL}${endpoint}`;
+  const url = `${baseUrl}${endpoint}`;
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, ...init } = options;
+  
+  // 呼び出し側の中断と、制限時間による中断のどちらでも打ち切る
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  init.signal?.addEventListener("abort", () => controller.abort());
   
   const defaultOptions: RequestInit = {
+    ...init,
+    signal: controller.signal,
     headers: {
       "Content-Type": "application/json",
       "Accept": "application/json",
+      ...init.headers,
     },
-    ...options,
   };
   
+  // 接続状態の判定用に応答時間と成否を記録（5xx・通信失敗・タイムアウトは失敗）
+  const startedAt = Date.now();
+  const record = (ok: boolean) => recordApiCall({ at: Date.now(), latency_ms: Date.now() - startedAt, ok });
+  
   try {
-    const response = await fetch(url, defaultOptions);
+    const response = await (transport ?? fetch)(url, defaultOptions);
+    record(response.status < 500);
     
     if (!response.ok) {
-      let errorMessage = `HTTPエラー (${response.status})`;
-      
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.detail || errorData.message || errorMessage;
-      } catch {
-        // JSONパースに失敗した場合はテキストを取得
-        const errorText = await response.text();
-        if (errorText) {
-          errorMessage = errorText;
-        }
-      }
-      
-      console.error(`[API Error] ${response.status}: ${errorMessage}`);
-      throw new Error(errorMessage);
+      throw await toResponseError(response);
     }
     
-    return await response.json();
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new ValidationError("レスポンスがJSONではありません", "");
+    }
+    return schema.parse(body);
   } catch (error: unknown) {
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      // ネットワークエラー
+    if (error instanceof DOMException && error.name === "AbortError") {
+      if (init.signal?.aborted) {
+        throw error;
+      }
+      record(false);
+      console.error(`[Timeout] ${url} (${timeoutMs}ms)`);
+      throw new TimeoutError("サーバーの応答がありません。時間をおいて再度お試しください。", timeoutMs);
+    }
+    if (error instanceof TypeError) {
+      // ネットワークエラー（ブラウザによりメッセージが異なるため型で判定）
+      record(false);
       console.error(`[Network Error] ${url}`, error);
-      throw new Error("ネットワークエラー: サーバーに接続できません。インターネット接続を確認してください。");
+      throw new NetworkError("ネットワークエラー: サーバーに接続できません。インターネット接続を確認してください。");
+    }
+    if (error instanceof ValidationError) {
+      console.error(`[Validation Error] ${url} ${error.path}`, error);
+      throw error;
     }
     
     // その他のエラー
     const err = error as Error;
     console.error(`[API Request Failed] ${url}`, err);
     throw err;
+  } finally {
+    clearTimeout(timer);
   }
 }
 
+/**
+ * 再試行の対象となるエラーか（通信失敗・5xx）
+ */
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  (error instanceof ApiError && error.status >= 500);
+
+/**
+ * 指数バックオフ付きで処理を再試行
+ * @param operation 実行する処理
+ * @param retries 最大再試行回数
+ * @param baseDelay 初回待機時間（ミリ秒）
+ */
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  retries = 3,
+  baseDelay = 500
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = baseDelay * 2 ** attempt;
+      console.warn(`[再試行] ${delay}ms後に再送 (${attempt + 1}/${retries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * 取引IDを生成（UUID v4）
+ */
+export function createTransactionId(): string {
+  return createUuid();
+}
+
 /**
  * 商品検索API
+ * 取得した商品はキャッシュし、オフライン時はキャッシュから返す
  * @param code 商品コード
  * @returns 商品情報（見つからない場合はnull）
  */
@@ -92,24 +250,269 @@ export async function searchProduct(
   code: string
 ): Promise<{ product: Product | null }> {
   if (!code.trim()) {
-    throw new Error("商品コードを入力してください");
+    throw new BusinessError("EMPTY_CODE", "商品コードを入力してください");
   }
   
   console.log(`[商品検索] コード: ${code}`);
   
   try {
-    return await fetchAPI<{ product: Product | null }>("/search_product", {
+    const data = await fetchAPI("/search_product", productSearchResponseSchema, {
       method: "POST",
       body: JSON.stringify({ code: code.trim() }),
     });
+    if (data.product) {
+      await cacheProduct(data.product);
+    }
+    return data;
   } catch (error) {
+    if (error instanceof NetworkError) {
+      const cached = await getCachedProduct(code.trim());
+      if (cached) {
+        console.log(`[商品検索] オフライン - キャッシュを使用: ${code}`);
+        return { product: cached };
+      }
+    }
     console.error('[商品検索エラー]', error);
     throw error;
   }
 }
 
+/**
+ * 在庫照会API
+ * @param storeCd 店舗コード
+ * @param prdCode 商品コード
+ * @returns 在庫数（在庫管理していない商品はnull）
+ */
+export async function fetchStock(storeCd: string, prdCode: string): Promise<StockLevel | null> {
+  try {
+    const data = await fetchAPI(
+      `/inventory/${encodeURIComponent(storeCd)}/${encodeURIComponent(prdCode)}`,
+      stockResponseSchema,
+      { method: "GET" }
+    );
+    return data.stock;
+  } catch (error) {
+    console.error('[在庫照会エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 商品名検索API
+ * @param query 商品名（部分一致）
+ * @param limit 最大件数
+ * @returns 候補商品の一覧
+ */
+export async function searchProductsByName(
+  query: string,
+  limit = 20
+): Promise<Product[]> {
+  if (!query.trim()) {
+    return [];
+  }
+  
+  const params = new URLSearchParams({ q: query.trim(), limit: String(limit) });
+  
+  try {
+    const data = await fetchAPI(`/products?${params}`, productListResponseSchema, {
+      method: "GET",
+    });
+    return data.products;
+  } catch (error) {
+    console.error('[商品名検索エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 会員検索API（ポイントカード）
+ * @param memberId 会員番号（カードのバーコードまたは手入力）
+ * @returns 会員情報とポイント残高（見つからない場合はnull）
+ */
+export async function lookupMember(memberId: string): Promise<Member | null> {
+  const id = memberId.trim();
+  if (!/^\d{8,16}$/.test(id)) {
+    throw new BusinessError("INVALID_MEMBER_ID", "会員番号は8〜16桁の数字で入力してください");
+  }
+  
+  try {
+    const data = await fetchAPI("/search_member", memberResponseSchema, {
+      method: "POST",
+      body: JSON.stringify({ member_id: id }),
+    });
+    console.log(`[会員検索] ${id}: ${data.member ? `${data.member.point_balance}pt` : "該当なし"}`);
+    return data.member;
+  } catch (error) {
+    console.error('[会員検索エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 商品の入力チェック（送信前）
+ */
+function assertValidProduct(input: ProductInput): void {
+  const errors = Object.values(validateProductInput(input));
+  if (errors.length > 0) {
+    throw new BusinessError("INVALID_PRODUCT", errors[0] as string);
+  }
+}
+
+/**
+ * 商品マスタ一覧API（管理画面）
+ * @param query 検索条件
+ * @returns 条件に一致する商品と全件数
+ */
+export async function fetchAdminProducts(
+  query: ProductListQuery = {}
+): Promise<ProductListResult> {
+  const params = new URLSearchParams();
+  if (query.q?.trim()) params.set("q", query.q.trim());
+  if (query.department) params.set("department", query.department);
+  if (query.include_inactive) params.set("include_inactive", "true");
+  params.set("offset", String(query.offset ?? 0));
+  params.set("limit", String(query.limit ?? 50));
+  
+  try {
+    return await fetchAPI(`/admin/products?${params}`, productAdminListResponseSchema, {
+      method: "GET",
+    });
+  } catch (error) {
+    console.error('[商品マスタ一覧取得エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 商品マスタの全件取得（CSV取込の差分作成・CSV出力用）
+ * 販売停止中の商品を含め、ページ単位で全件を取得する
+ */
+export async function fetchAllAdminProducts(): Promise<Product[]> {
+  const pageSize = 500;
+  const products: Product[] = [];
+  
+  for (;;) {
+    const page = await fetchAdminProducts({
+      include_inactive: true,
+      offset: products.length,
+      limit: pageSize,
+    });
+    products.push(...page.products);
+    if (page.products.length === 0 || products.length >= page.total) {
+      return products;
+    }
+  }
+}
+
+/**
+ * 商品登録API
+ * @param input 商品
+ * @param actor 操作した担当者と承認した店長
+ * @returns 登録した商品（商品IDはサーバー採番）
+ */
+export async function createProduct(input: ProductInput, actor: ProductChangeActor): Promise<Product> {
+  assertValidProduct(input);
+  
+  try {
+    const data = await fetchAPI("/admin/products", productResponseSchema, {
+      method: "POST",
+      body: JSON.stringify({ ...input, ...actor }),
+    });
+    console.log(`[商品登録] ${data.product.prd_code}`);
+    return data.product;
+  } catch (error) {
+    console.error('[商品登録エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 商品更新API
+ * @param prdId 商品ID
+ * @param input 更新後の商品
+ * @param actor 操作した担当者と承認した店長
+ * @returns 更新した商品
+ */
+export async function updateProduct(
+  prdId: number,
+  input: ProductInput,
+  actor: ProductChangeActor
+): Promise<Product> {
+  assertValidProduct(input);
+  
+  try {
+    const data = await fetchAPI(`/admin/products/${prdId}`, productResponseSchema, {
+      method: "PUT",
+      body: JSON.stringify({ ...input, ...actor }),
+    });
+    console.log(`[商品更新] ${data.product.prd_code}`);
+    return data.product;
+  } catch (error) {
+    console.error('[商品更新エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 商品の販売停止・再開API
+ * 取引履歴から参照されるため商品は削除せず、販売停止にする
+ * @param prdId 商品ID
+ * @param active 販売中にする場合はtrue
+ * @param actor 操作した担当者と承認した店長
+ * @returns 更新した商品
+ */
+export async function setProductActive(
+  prdId: number,
+  active: boolean,
+  actor: ProductChangeActor
+): Promise<Product> {
+  try {
+    const data = await fetchAPI(`/admin/products/${prdId}`, productResponseSchema, {
+      method: "PATCH",
+      body: JSON.stringify({ is_active: active, ...actor }),
+    });
+    console.log(`[商品${active ? "販売再開" : "販売停止"}] ${data.product.prd_code}`);
+    return data.product;
+  } catch (error) {
+    console.error('[商品販売状態変更エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 商品CSV一括取込API
+ * 商品コードが登録済みの商品は更新、それ以外は新規登録する
+ * @param products 取込む商品（新規・変更の行のみ）
+ * @param actor 操作した担当者と承認した店長
+ * @returns 登録・更新の件数
+ */
+export async function importProducts(
+  products: ProductInput[],
+  actor: ProductChangeActor
+): Promise<ProductImportResult> {
+  if (products.length === 0) {
+    throw new BusinessError("EMPTY_IMPORT", "取込む商品がありません");
+  }
+  products.forEach(assertValidProduct);
+  
+  try {
+    const data = await fetchAPI("/admin/products/import", productImportResponseSchema, {
+      method: "POST",
+      body: JSON.stringify({ products, ...actor }),
+      timeoutMs: 60000,
+    });
+    console.log(`[商品CSV取込] 新規 ${data.created}件 / 更新 ${data.updated}件`);
+    return data;
+  } catch (error) {
+    console.error('[商品CSV取込エラー]', error);
+    throw error;
+  }
+}
+
 /**
  * 購入API
+ * 取引IDを冪等キーとして送信するため、再送しても二重計上されない
+ * 通信失敗・5xxの場合はバックオフしながら再試行する
  * @param payload 購入情報
  * @returns 購入結果
  */
@@ -117,33 +520,304 @@ export async function purchaseItems(
   payload: PurchaseRequest
 ): Promise<PurchaseResponse> {
   if (!payload.items || payload.items.length === 0) {
-    throw new Error("購入する商品を選択してください");
+    throw new BusinessError("EMPTY_CART", "購入する商品を選択してください");
   }
   
-  console.log(`[購入リクエスト] ${payload.items.length}件の商品`);
+  console.log(`[購入リクエスト] ${payload.items.length}件の商品 (取引ID: ${payload.transaction_id})`);
   
   try {
-    return await fetchAPI<PurchaseResponse>("/purchase", {
+    return await withRetry(() =>
+      fetchAPI("/purchase", purchaseResponseSchema, {
+        method: "POST",
+        headers: { "Idempotency-Key": payload.transaction_id },
+        body: JSON.stringify(payload),
+      })
+    );
+  } catch (error) {
+    console.error('[購入エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 電子レシート登録API
+ * @param receipt レシート
+ */
+export async function uploadReceipt(receipt: Receipt): Promise<void> {
+  try {
+    await fetchAPI("/receipts", unknown(), {
       method: "POST",
-      body: JSON.stringify(payload),
+      body: JSON.stringify(receipt),
     });
   } catch (error) {
-    console.error('[購入エラー]', error);
+    console.error('[電子レシート登録エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 監査ログ登録API（購入を伴わない取引中止などの監査ログ）
+ * @param upload 監査ログ
+ */
+export async function uploadAuditLog(upload: AuditLogUpload): Promise<void> {
+  try {
+    await fetchAPI("/audit_log", unknown(), {
+      method: "POST",
+      body: JSON.stringify(upload),
+    });
+  } catch (error) {
+    console.error('[監査ログ登録エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 電子レシート取得API
+ * @param transactionId 取引ID
+ * @returns レシート
+ */
+export async function fetchReceipt(transactionId: string): Promise<Receipt> {
+  try {
+    const data = await fetchAPI(
+      `/receipts/${encodeURIComponent(transactionId)}`,
+      receiptResponseSchema,
+      { method: "GET" }
+    );
+    return data.receipt;
+  } catch (error) {
+    console.error('[電子レシート取得エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 販促ルール取得API
+ * @returns 有効な販促ルール一覧
+ */
+export async function fetchPromotions(): Promise<Promotion[]> {
+  try {
+    const data = await fetchAPI("/promotions", promotionsResponseSchema, { method: "GET" });
+    console.log(`[販促ルール] ${data.promotions.length}件`);
+    return data.promotions;
+  } catch (error) {
+    console.error('[販促ルール取得エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 取引照会API
+ * @param query 取引番号または取引ID（レシートのQRコード）
+ * @returns 取引（見つからない場合はnull）
+ */
+export async function fetchTransaction(
+  query: { transaction_no: number } | { transaction_id: string }
+): Promise<TransactionRecord | null> {
+  const key = "transaction_no" in query
+    ? `no/${query.transaction_no}`
+    : encodeURIComponent(query.transaction_id);
+  
+  try {
+    const data = await fetchAPI(
+      `/transactions/${key}`,
+      transactionResponseSchema,
+      { method: "GET" }
+    );
+    return data.transaction;
+  } catch (error) {
+    console.error('[取引照会エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 返品API
+ * 返品IDを冪等キーとして送信する
+ * @param payload 返品情報
+ * @returns 返品結果
+ */
+export async function refundItems(payload: RefundRequest): Promise<RefundResponse> {
+  if (payload.lines.length === 0) {
+    throw new BusinessError("EMPTY_REFUND", "返品する商品を選択してください");
+  }
+  
+  console.log(`[返品リクエスト] 元取引: ${payload.original_transaction_id} ${payload.lines.length}件`);
+  
+  try {
+    return await withRetry(() =>
+      fetchAPI("/refund", refundResponseSchema, {
+        method: "POST",
+        headers: { "Idempotency-Key": payload.refund_id },
+        body: JSON.stringify(payload),
+      })
+    );
+  } catch (error) {
+    console.error('[返品エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 取引取消API（全明細の取消）
+ * @param payload 取消情報（lines には全明細を指定）
+ * @returns 取消結果
+ */
+export async function voidTransaction(payload: RefundRequest): Promise<RefundResponse> {
+  console.log(`[取引取消リクエスト] 元取引: ${payload.original_transaction_id}`);
+  
+  try {
+    return await withRetry(() =>
+      fetchAPI("/void", refundResponseSchema, {
+        method: "POST",
+        headers: { "Idempotency-Key": payload.refund_id },
+        body: JSON.stringify(payload),
+      })
+    );
+  } catch (error) {
+    console.error('[取引取消エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 保留登録API（他の端末から再開できるように共有）
+ * @param hold 保留中の購入リスト
+ */
+export async function shareHeldCart(hold: HeldCart): Promise<void> {
+  try {
+    await fetchAPI("/holds", unknown(), {
+      method: "POST",
+      body: JSON.stringify(hold),
+    });
+  } catch (error) {
+    console.error('[保留登録エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 保留一覧API
+ * @param storeCd 店舗コード
+ * @returns 店舗内で共有されている保留
+ */
+export async function fetchHeldCarts(storeCd: string): Promise<HeldCart[]> {
+  try {
+    const data = await fetchAPI(
+      `/holds?store_cd=${encodeURIComponent(storeCd)}`,
+      heldCartsResponseSchema,
+      { method: "GET" }
+    );
+    return data.holds;
+  } catch (error) {
+    console.error('[保留一覧取得エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 保留の引取API
+ * 引き取った保留はサーバーから削除され、他の端末では再開できなくなる
+ * @param holdId 保留ID
+ * @returns 保留（すでに他の端末で再開済みの場合はnull）
+ */
+export async function claimHeldCart(holdId: string): Promise<HeldCart | null> {
+  try {
+    const data = await fetchAPI(
+      `/holds/${encodeURIComponent(holdId)}/claim`,
+      heldCartResponseSchema,
+      { method: "POST" }
+    );
+    return data.hold;
+  } catch (error) {
+    console.error('[保留引取エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * お客様用画面の表示内容の送信API（別端末のお客様用画面向け）
+ * @param storeCd 店舗コード
+ * @param posNo POS番号
+ * @param state 表示内容
+ */
+export async function pushDisplayState(
+  storeCd: string,
+  posNo: string,
+  state: CustomerDisplayState
+): Promise<void> {
+  try {
+    await fetchAPI(`/display/${encodeURIComponent(storeCd)}/${encodeURIComponent(posNo)}`, unknown(), {
+      method: "PUT",
+      body: JSON.stringify(state),
+    });
+  } catch (error) {
+    console.error('[お客様用画面送信エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * お客様用画面の表示内容の取得API
+ * @returns 表示内容（レジが未送信の場合はnull）
+ */
+export async function fetchDisplayState(
+  storeCd: string,
+  posNo: string
+): Promise<CustomerDisplayState | null> {
+  try {
+    const data = await fetchAPI(
+      `/display/${encodeURIComponent(storeCd)}/${encodeURIComponent(posNo)}`,
+      displayStateResponseSchema,
+      { method: "GET" }
+    );
+    return data.state;
+  } catch (error) {
+    console.error('[お客様用画面取得エラー]', error);
+    throw error;
+  }
+}
+
+/**
+ * 担当者認証API
+ * @param credentials 従業員コード+PIN、またはスタッフバッジのコード
+ * @returns 認証された担当者
+ */
+export async function authenticateOperator(
+  credentials: OperatorCredentials
+): Promise<Operator> {
+  if ("badge_code" in credentials) {
+    if (!credentials.badge_code.trim()) {
+      throw new BusinessError("EMPTY_BADGE", "スタッフバッジを読み取れませんでした");
+    }
+  } else if (!credentials.emp_cd.trim() || !credentials.pin) {
+    throw new BusinessError("EMPTY_CREDENTIALS", "従業員コードとPINを入力してください");
+  }
+  
+  try {
+    const data = await fetchAPI("/login", operatorResponseSchema, {
+      method: "POST",
+      body: JSON.stringify(credentials),
+    });
+    console.log(`[担当者認証] ${data.operator.emp_cd}`);
+    return data.operator;
+  } catch (error) {
+    console.error('[担当者認証エラー]', error);
     throw error;
   }
 }
 
 /**
  * ヘルスチェックAPI
+ * @param baseUrl 接続先（省略時は現在の設定。端末設定画面での接続確認に使用）
  * @returns APIの状態
  */
-export async function healthCheck(): Promise<{
+export async function healthCheck(baseUrl?: string): Promise<{
   status: string;
   service: string;
   version: string;
 }> {
   try {
-    return await fetchAPI("/", { method: "GET" });
+    return await fetchAPI("/", healthResponseSchema, { method: "GET" }, baseUrl ? normalizeApiUrl(baseUrl) : undefined);
   } catch (error) {
     console.error('[ヘルスチェックエラー]', error);
     throw error;
@@ -0,0 +1,121 @@
+/**
+ * 監査ログ
+ * 明細の取消・売価変更・値引・取引中止について、操作した担当者・承認者・日時・変更前後の値を記録する
+ * 購入した取引は購入リクエストに含めて送信し、取引中止は単独で送信する
+ */
+import { uploadAuditLog } from "@/app/lib/api";
+import { createUuid } from "@/app/lib/uuid";
+import type { AuditAction, AuditEntry, AuditLogUpload, AuditSnapshot, Operator, PurchaseItem } from "@/app/types";
+
+const PENDING_AUDIT_LOGS_KEY = "pos-pending-audit-logs";
+
+/**
+ * 監査対象の操作の表示名
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  line_void: "明細取消",
+  price_override: "売価変更",
+  discount: "値引",
+  sale_cancel: "取引中止",
+};
+
+/**
+ * 監査ログを作成
+ * @param approver 責任者の承認を受けた場合の承認者
+ */
+export function createAuditEntry(params: {
+  action: AuditAction;
+  operator: Operator;
+  approver?: Operator | null;
+  item?: PurchaseItem;
+  reason?: string;
+  before: AuditSnapshot;
+  after: AuditSnapshot;
+}): AuditEntry {
+  const { action, operator, approver, item, reason, before, after } = params;
+  return {
+    audit_id: createUuid(),
+    action,
+    at: new Date().toISOString(),
+    emp_cd: operator.emp_cd,
+    approver_cd: approver?.emp_cd,
+    target: item && { prd_code: item.prd_code, prd_name: item.prd_name },
+    reason: reason || undefined,
+    before,
+    after,
+  };
+}
+
+/**
+ * 明細の監査用の値（数量・単価・値引）
+ */
+export function snapshotItem(item: PurchaseItem | undefined): AuditSnapshot {
+  if (!item) return { quantity: 0 };
+  return {
+    quantity: item.quantity,
+    unit_price: item.prd_price,
+    discount: item.discount ?? null,
+  };
+}
+
+function loadPendingAuditLogs(): AuditLogUpload[] {
+  try {
+    const raw = window.localStorage.getItem(PENDING_AUDIT_LOGS_KEY);
+    return raw ? (JSON.parse(raw) as AuditLogUpload[]) : [];
+  } catch (error) {
+    console.error('[監査ログ読込エラー]', error);
+    return [];
+  }
+}
+
+function savePendingAuditLogs(uploads: AuditLogUpload[]): void {
+  if (uploads.length === 0) {
+    window.localStorage.removeItem(PENDING_AUDIT_LOGS_KEY);
+    return;
+  }
+  window.localStorage.setItem(PENDING_AUDIT_LOGS_KEY, JSON.stringify(uploads));
+}
+
+/**
+ * 未送信の監査ログの件数
+ */
+export function countPendingAuditLogs(): number {
+  if (typeof window === "undefined") return 0;
+  return loadPendingAuditLogs().length;
+}
+
+// 実行中の送信（同時に呼ばれても未送信分の読み書きが重ならないよう順に実行する）
+let sending: Promise<number> = Promise.resolve(0);
+
+/**
+ * 監査ログを送信（購入を伴わない取引中止など）
+ * 新たな監査ログはまず端末に保存し、送信できなかった分は端末に残して次回の送信時にまとめて再送する
+ * @param upload 新たに送信する監査ログ（省略時は未送信分の再送のみ）
+ * @returns 送信できなかった件数
+ */
+export function submitAuditLogs(upload?: AuditLogUpload): Promise<number> {
+  if (upload) {
+    savePendingAuditLogs([...loadPendingAuditLogs(), upload]);
+  }
+  sending = sending.catch(() => 0).then(sendPendingAuditLogs);
+  return sending;
+}
+
+async function sendPendingAuditLogs(): Promise<number> {
+  const queue = loadPendingAuditLogs();
+  const failed: AuditLogUpload[] = [];
+
+  for (const entry of queue) {
+    try {
+      await uploadAuditLog(entry);
+    } catch {
+      // エラーの内容はuploadAuditLog側でログ出力済み
+      failed.push(entry);
+    }
+  }
+
+  // 送信中に追加された監査ログは、追加時に予約された次の送信で送る
+  const added = loadPendingAuditLogs().slice(queue.length);
+  savePendingAuditLogs([...failed, ...added]);
+  return failed.length;
+}
@@ -0,0 +1,219 @@
+/**
+ * バーコード
+ * JAN（EAN-13/EAN-8）・UPC-A/UPC-E・ITF-14のチェックデジット検証と、
+ * 価格・重量を埋め込んだインストアバーコード（02・20〜29始まり）の解析
+ */
+import type {
+  EmbeddedBarcodeValue,
+  InStoreBarcodeRule,
+  Product,
+  TerminalConfig,
+} from "@/app/types";
+
+/**
+ * 標準のインストアバーコード規則
+ *   02・20〜24: 商品コード5桁 + 価格5桁（円）
+ *   25〜29: 商品コード5桁 + 重量5桁（g）、マスタ価格は100gあたり
+ */
+export const DEFAULT_BARCODE_RULES: InStoreBarcodeRule[] = [
+  { prefixes: ["02", "20", "21", "22", "23", "24"], item_digits: 5, value_kind: "price", value_digits: 5 },
+  { prefixes: ["25", "26", "27", "28", "29"], item_digits: 5, value_kind: "weight", value_digits: 5, unit_grams: 100 },
+];
+
+/**
+ * バーコードの解析結果
+ * 有効な場合は商品検索に使うコードと、インストアバーコードの埋込値を返す
+ */
+export type ParsedBarcode =
+  | {
+      valid: true;
+      lookup_code: string; // 商品マスタの検索に使うコード
+      embedded?: { barcode: string; rule: InStoreBarcodeRule; value: number };
+    }
+  | { valid: false; message: string };
+
+/**
+ * モジュラス10／ウェイト3-1のチェックデジットを計算
+ * @param body チェックデジットを除いた数字列
+ */
+export function calculateCheckDigit(body: string): number {
+  const sum = body
+    .split("")
+    .reverse()
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * JAN/UPCコードとして正しいか（桁数とチェックデジット）
+ * 対応: EAN-8（8桁）・UPC-A（12桁）・EAN-13（13桁）
+ */
+export function isValidJan(code: string): boolean {
+  if (!/^(\d{8}|\d{12}|\d{13})$/.test(code)) {
+    return false;
+  }
+  return calculateCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+}
+
+/**
+ * UPC-E（8桁）をUPC-A（12桁）に展開
+ * UPC-Eのチェックデジットは展開後のUPC-Aのものを使う
+ * @returns UPC-A（ナンバーシステムが0・1でない場合はnull）
+ */
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) {
+    return null;
+  }
+  const numberSystem = code[0];
+  const [d1, d2, d3, d4, d5, d6] = code.slice(1, 7);
+  const check = code[7];
+
+  switch (d6) {
+    case "0":
+    case "1":
+    case "2":
+      return `${numberSystem}${d1}${d2}${d6}0000${d3}${d4}${d5}${check}`;
+    case "3":
+      return `${numberSystem}${d1}${d2}${d3}00000${d4}${d5}${check}`;
+    case "4":
+      return `${numberSystem}${d1}${d2}${d3}${d4}00000${d5}${check}`;
+    default:
+      return `${numberSystem}${d1}${d2}${d3}${d4}${d5}0000${d6}${check}`;
+  }
+}
+
+/**
+ * ITF-14（集合包装用GTIN、14桁）として正しいか
+ */
+export function isValidItf14(code: string): boolean {
+  return /^\d{14}$/.test(code)
+    && calculateCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+}
+
+/**
+ * 端末設定のインストアバーコード規則（未設定は標準ルール）
+ */
+export function getBarcodeRules(config: TerminalConfig | null): InStoreBarcodeRule[] {
+  return config?.barcode_rules ?? DEFAULT_BARCODE_RULES;
+}
+
+/**
+ * インストアバーコード規則の入力チェック
+ * @returns エラーメッセージ（問題なければnull）
+ */
+export function validateBarcodeRules(rules: InStoreBarcodeRule[]): string | null {
+  if (!Array.isArray(rules)) {
+    return "規則は配列で指定してください";
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const label = `${index + 1}件目`;
+    if (typeof rule !== "object" || rule === null) {
+      return `${label}: 規則の形式が正しくありません`;
+    }
+    if (!Array.isArray(rule.prefixes) || rule.prefixes.length === 0
+      || !rule.prefixes.every(prefix => /^(02|2\d)$/.test(prefix))) {
+      return `${label}: プレフィックスは 02 または 20〜29 で指定してください`;
+    }
+    if (rule.value_kind !== "price" && rule.value_kind !== "weight") {
+      return `${label}: 埋込値の種類は price または weight で指定してください`;
+    }
+    if (!Number.isInteger(rule.item_digits) || !Number.isInteger(rule.value_digits)
+      || rule.item_digits < 1 || rule.value_digits < 1) {
+      return `${label}: 桁数は1以上の整数で指定してください`;
+    }
+    // プレフィックス2桁 + 商品コード + 埋込値 がチェックデジットを除く12桁に収まること
+    if (2 + rule.item_digits + rule.value_digits > 12) {
+      return `${label}: 商品コードと埋込値の桁数の合計は10桁以内にしてください`;
+    }
+    if (rule.unit_grams !== undefined && !(rule.unit_grams > 0)) {
+      return `${label}: 基準重量は正の数で指定してください`;
+    }
+  }
+
+  const prefixes = rules.flatMap(rule => rule.prefixes);
+  if (new Set(prefixes).size !== prefixes.length) {
+    return "同じプレフィックスが複数の規則に指定されています";
+  }
+  return null;
+}
+
+const CHECK_DIGIT_MESSAGE = "チェックデジットが一致しません。もう一度読み取ってください";
+
+/**
+ * 読み取ったバーコードを解析（商品検索の前に不正なコードを除外する）
+ * インストアバーコードは埋込値を取り出し、埋込値の桁を0にしたコードで商品マスタを検索する
+ * @param raw 読み取った文字列
+ * @param rules インストアバーコード規則
+ */
+export function parseBarcode(raw: string, rules: InStoreBarcodeRule[]): ParsedBarcode {
+  const code = raw.trim();
+
+  if (!/^\d+$/.test(code)) {
+    return { valid: false, message: "商品のバーコードではありません（数字以外を含んでいます）" };
+  }
+  if (![8, 12, 13, 14].includes(code.length)) {
+    return { valid: false, message: `バーコードの桁数が正しくありません（${code.length}桁）` };
+  }
+  if (code.length === 14) {
+    return isValidItf14(code)
+      ? { valid: true, lookup_code: code }
+      : { valid: false, message: CHECK_DIGIT_MESSAGE };
+  }
+  if (!isValidJan(code)) {
+    // 8桁はEAN-8として一致しなければUPC-Eとして検証し、展開したUPC-Aで検索する
+    const upcA = code.length === 8 ? expandUpcE(code) : null;
+    return upcA && isValidJan(upcA)
+      ? { valid: true, lookup_code: upcA }
+      : { valid: false, message: CHECK_DIGIT_MESSAGE };
+  }
+
+  const rule = code.length === 13
+    ? rules.find(r => r.prefixes.some(prefix => code.startsWith(prefix)))
+    : undefined;
+  if (!rule) {
+    return { valid: true, lookup_code: code };
+  }
+
+  const itemEnd = 2 + rule.item_digits;
+  const value = Number(code.slice(12 - rule.value_digits, 12));
+  if (value <= 0) {
+    return {
+      valid: false,
+      message: rule.value_kind === "price"
+        ? "インストアバーコードの価格が0円です"
+        : "インストアバーコードの重量が0gです",
+    };
+  }
+
+  const lookupBody = code.slice(0, itemEnd).padEnd(12, "0");
+  return {
+    valid: true,
+    lookup_code: lookupBody + calculateCheckDigit(lookupBody),
+    embedded: { barcode: code, rule, value },
+  };
+}
+
+/**
+ * 埋込値から明細の価格を求める
+ * 重量の場合はマスタ価格（基準重量あたり）× 重量で計算し、1円未満は切り捨て
+ * @param product 商品マスタ
+ * @param embedded 解析したインストアバーコード
+ */
+export function resolveEmbeddedValue(
+  product: Product,
+  embedded: NonNullable<Extract<ParsedBarcode, { valid: true }>["embedded"]>
+): EmbeddedBarcodeValue {
+  const { barcode, rule, value } = embedded;
+
+  if (rule.value_kind === "price") {
+    return { barcode, kind: "price", price: value };
+  }
+  const unitGrams = rule.unit_grams ?? 100;
+  return {
+    barcode,
+    kind: "weight",
+    price: Math.floor((product.prd_price * value) / unitGrams),
+    weight_g: value,
+  };
+}
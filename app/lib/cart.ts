@@ -0,0 +1,153 @@
+/**
+ * 購入リスト操作
+ * 商品の追加・数量変更・削除・明細値引と、購入APIに送るリクエストの組み立て
+ * React の状態更新から呼び出す純粋関数（元のリストは変更せず新しいリストを返す）
+ */
+import { buildMemberPoints } from "@/app/lib/loyalty";
+import { lineKey, toRequestItems } from "@/app/lib/pricing";
+import { cartRequiresAgeVerification } from "@/app/lib/restrictions";
+import type {
+  AgeVerification,
+  AuditEntry,
+  EmbeddedBarcodeValue,
+  ManualDiscount,
+  Member,
+  Operator,
+  PricedCart,
+  Product,
+  PurchaseItem,
+  PurchaseRequest,
+  Tender,
+  TerminalConfig,
+} from "@/app/types";
+
+/**
+ * 商品を追加（同じ明細があれば数量を加算）
+ * インストアバーコードの商品は埋込値から求めた価格で追加する
+ * @param quantity 追加する数量（テンキーで「数量 ×」を指定した場合）
+ */
+export function addToCart(
+  items: PurchaseItem[],
+  product: Product,
+  embedded?: EmbeddedBarcodeValue,
+  quantity = 1
+): PurchaseItem[] {
+  const newItem: PurchaseItem = embedded
+    ? { ...product, prd_price: embedded.price, embedded, quantity }
+    : { ...product, quantity };
+  const key = lineKey(newItem);
+
+  if (items.some(item => lineKey(item) === key)) {
+    return increaseQuantity(items, key, quantity);
+  }
+  return [...items, newItem];
+}
+
+/**
+ * 数量を増やす（既定は1）
+ */
+export function increaseQuantity(items: PurchaseItem[], key: string, by = 1): PurchaseItem[] {
+  return items.map(item =>
+    lineKey(item) === key ? { ...item, quantity: item.quantity + by } : item
+  );
+}
+
+/**
+ * 数量を1減らす（数量が1の明細は削除）
+ */
+export function decreaseQuantity(items: PurchaseItem[], key: string): PurchaseItem[] {
+  const target = items.find(item => lineKey(item) === key);
+  if (!target) return items;
+
+  if (target.quantity === 1) {
+    return removeFromCart(items, key);
+  }
+  return items.map(item =>
+    lineKey(item) === key ? { ...item, quantity: item.quantity - 1 } : item
+  );
+}
+
+/**
+ * 明細を削除
+ */
+export function removeFromCart(items: PurchaseItem[], key: string): PurchaseItem[] {
+  return items.filter(item => lineKey(item) !== key);
+}
+
+/**
+ * 明細値引の適用・解除（null で解除）
+ */
+export function setLineDiscount(
+  items: PurchaseItem[],
+  key: string,
+  discount: ManualDiscount | null
+): PurchaseItem[] {
+  return items.map(item =>
+    lineKey(item) === key ? { ...item, discount: discount ?? undefined } : item
+  );
+}
+
+/**
+ * 売価変更（変更前の単価は original_price に残す。元の単価に戻した場合は売価変更なしに戻す）
+ */
+export function overridePrice(items: PurchaseItem[], key: string, price: number): PurchaseItem[] {
+  return items.map(item => {
+    if (lineKey(item) !== key) return item;
+
+    const originalPrice = item.original_price ?? item.prd_price;
+    return price === originalPrice
+      ? { ...item, prd_price: price, original_price: undefined }
+      : { ...item, prd_price: price, original_price: originalPrice };
+  });
+}
+
+/**
+ * 購入点数
+ */
+export function countItems(items: PurchaseItem[]): number {
+  return items.reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * 購入APIに送信するリクエストを作成
+ * 年齢確認の記録は、年齢確認が必要な商品を含む場合のみ送信する
+ * 会員の会計はポイントの付与・利用を含める
+ * 取消・売価変更・値引の監査ログは取引と一緒に送信する
+ */
+export function buildPurchaseRequest(params: {
+  transactionId: string;
+  cart: PricedCart;
+  tenders: Tender[];
+  change: number;
+  config: TerminalConfig;
+  operator: Operator;
+  ageVerification?: AgeVerification | null;
+  member?: Member | null;
+  auditLog?: AuditEntry[];
+}): PurchaseRequest {
+  const { transactionId, cart, tenders, change, config, operator, ageVerification, member, auditLog } = params;
+  const items = toRequestItems(cart);
+
+  return {
+    transaction_id: transactionId,
+    emp_cd: operator.emp_cd,
+    store_cd: config.store_cd,
+    pos_no: config.pos_no,
+    items,
+    receipt_discount: cart.receipt_discount,
+    tenders,
+    change_amount: change,
+    age_verification: cartRequiresAgeVerification(items) ? ageVerification ?? undefined : undefined,
+    member: member ? buildMemberPoints(member, cart.total, tenders) : undefined,
+    audit_log: auditLog && auditLog.length > 0 ? auditLog : undefined,
+  };
+}
+
+/**
+ * 購入リクエストの内容（取引IDを除く）
+ * 送信結果が分からない購入を再送する際、同じ内容かどうかの判定に使う
+ */
+export function purchaseFingerprint(request: PurchaseRequest): string {
+  const { transaction_id: _transactionId, ...content } = request;
+  return JSON.stringify(content);
+}
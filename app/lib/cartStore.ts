@@ -0,0 +1,103 @@
+/**
+ * 購入リストの保存
+ * 会計中の購入リストと保留中の購入リストを端末（localStorage）に保存する
+ */
+import type { ActiveCart, AgeVerification, AuditEntry, Member, HeldCart, ManualDiscount, PendingPurchase, PurchaseItem } from "@/app/types";
+
+const ACTIVE_CART_KEY = "pos-active-cart";
+const HELD_CARTS_KEY = "pos-held-carts";
+
+/**
+ * 会計中の購入リストを保存（空になったら削除）
+ */
+export function saveActiveCart(
+  items: PurchaseItem[],
+  receiptDiscount: ManualDiscount | null,
+  ageVerification: AgeVerification | null = null,
+  member: Member | null = null,
+  auditLog: AuditEntry[] = [],
+  pendingPurchase: PendingPurchase | null = null
+): void {
+  if (items.length === 0) {
+    window.localStorage.removeItem(ACTIVE_CART_KEY);
+    return;
+  }
+
+  const cart: ActiveCart = {
+    items,
+    receipt_discount: receiptDiscount,
+    age_verification: ageVerification,
+    member,
+    audit_log: auditLog,
+    pending_purchase: pendingPurchase,
+    updated_at: new Date().toISOString(),
+  };
+  window.localStorage.setItem(ACTIVE_CART_KEY, JSON.stringify(cart));
+}
+
+/**
+ * 会計中だった購入リストを読み込む（リロード・タブの再起動後の復元用）
+ */
+export function loadActiveCart(): ActiveCart | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = window.localStorage.getItem(ACTIVE_CART_KEY);
+    return raw ? (JSON.parse(raw) as ActiveCart) : null;
+  } catch (error) {
+    console.error('[購入リスト読込エラー]', error);
+    return null;
+  }
+}
+
+/**
+ * 端末に保留中の購入リスト（古い順）
+ */
+export function loadHeldCarts(): HeldCart[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const raw = window.localStorage.getItem(HELD_CARTS_KEY);
+    return raw ? (JSON.parse(raw) as HeldCart[]) : [];
+  } catch (error) {
+    console.error('[保留読込エラー]', error);
+    return [];
+  }
+}
+
+function saveHeldCarts(holds: HeldCart[]): void {
+  window.localStorage.setItem(HELD_CARTS_KEY, JSON.stringify(holds));
+}
+
+/**
+ * 購入リストを保留として保存
+ */
+export function addHeldCart(hold: HeldCart): void {
+  saveHeldCarts([...loadHeldCarts(), hold]);
+  console.log(`[保留] ${hold.label} ${hold.item_count}点`);
+}
+
+/**
+ * 保留をサーバーに共有済みとして記録
+ */
+export function markHeldCartShared(holdId: string): void {
+  saveHeldCarts(loadHeldCarts().map(hold => (hold.hold_id === holdId ? { ...hold, shared: true } : hold)));
+}
+
+/**
+ * 保留を削除（再開・破棄時）
+ */
+export function removeHeldCart(holdId: string): void {
+  saveHeldCarts(loadHeldCarts().filter(hold => hold.hold_id !== holdId));
+}
+
+/**
+ * 保留からの経過時間の表示
+ */
+export function formatHoldAge(heldAt: string, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(heldAt).getTime()) / 60000);
+  if (minutes < 1) return "1分未満";
+  if (minutes < 60) return `${minutes}分前`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}時間${minutes % 60}分前` : `${Math.floor(hours / 24)}日前`;
+}
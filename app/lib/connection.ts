@@ -0,0 +1,116 @@
+/**
+ * 接続状態の監視
+ * API呼び出しの結果（応答時間・通信失敗）を記録し、ヘルスチェックと合わせて接続状態を判定する
+ */
+import type {
+  ApiCallSample,
+  ConnectionState,
+  ConnectionStatus,
+  HealthCheckResult,
+} from "@/app/types";
+
+// 判定に使う直近の呼び出し（件数・期間）
+const MAX_SAMPLES = 20;
+const SAMPLE_WINDOW_MS = 5 * 60 * 1000;
+// 失敗率の判定に必要な最低件数
+const MIN_SAMPLES_FOR_ERROR_RATE = 5;
+
+/**
+ * 低速と判定する平均応答時間
+ */
+export const SLOW_LATENCY_MS = 1500;
+
+/**
+ * 低速（不安定）と判定する失敗率
+ */
+export const DEGRADED_ERROR_RATE = 0.2;
+
+/**
+ * 接続状態の表示名
+ */
+export const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  online: "オンライン",
+  slow: "低速",
+  offline: "オフライン",
+};
+
+let samples: ApiCallSample[] = [];
+const listeners = new Set<() => void>();
+
+/**
+ * API呼び出しの結果を記録
+ */
+export function recordApiCall(sample: ApiCallSample): void {
+  samples = [...samples, sample].slice(-MAX_SAMPLES);
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * 記録したAPI呼び出しの結果（古い順）
+ */
+export function getApiCallSamples(): ApiCallSample[] {
+  return samples;
+}
+
+/**
+ * API呼び出しの記録を購読
+ * @returns 購読の解除
+ */
+export function subscribeApiCalls(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 記録を消去（テスト用）
+ */
+export function clearApiCallSamples(): void {
+  samples = [];
+}
+
+/**
+ * 接続状態を判定
+ * 端末のネットワーク切断・ヘルスチェック失敗・直近の連続失敗はオフライン、
+ * 応答の遅れや失敗の増加は低速とする
+ */
+export function evaluateConnection(params: {
+  browserOnline: boolean;
+  health: HealthCheckResult | null;
+  samples: ApiCallSample[];
+  now?: number;
+}): ConnectionStatus {
+  const now = params.now ?? Date.now();
+  const recent = params.samples.filter(sample => now - sample.at <= SAMPLE_WINDOW_MS);
+  const succeeded = recent.filter(sample => sample.ok);
+  const errorRate = recent.length > 0 ? (recent.length - succeeded.length) / recent.length : 0;
+  const latency = succeeded.length > 0
+    ? Math.round(succeeded.reduce((sum, sample) => sum + sample.latency_ms, 0) / succeeded.length)
+    : null;
+
+  const base = {
+    version: params.health?.version,
+    latency_ms: latency,
+    error_rate: errorRate,
+    checked_at: params.health?.checked_at,
+  };
+  const lastThree = recent.slice(-3);
+
+  if (!params.browserOnline) {
+    return { ...base, state: "offline", reason: "端末がネットワークに接続されていません" };
+  }
+  if (params.health && !params.health.ok) {
+    return { ...base, state: "offline", reason: "サーバーに接続できません" };
+  }
+  if (lastThree.length === 3 && lastThree.every(sample => !sample.ok)) {
+    return { ...base, state: "offline", reason: "サーバーとの通信が続けて失敗しています" };
+  }
+  if (recent.length >= MIN_SAMPLES_FOR_ERROR_RATE && errorRate >= DEGRADED_ERROR_RATE) {
+    return { ...base, state: "slow", reason: `通信エラーが増えています（直近${Math.round(errorRate * 100)}%）` };
+  }
+  if (latency !== null && latency >= SLOW_LATENCY_MS) {
+    return { ...base, state: "slow", reason: `応答が遅くなっています（平均${latency.toLocaleString()}ms）` };
+  }
+  return { ...base, state: "online", reason: "正常に接続しています" };
+}
@@ -0,0 +1,80 @@
+/**
+ * お客様用画面
+ * レジ画面の購入リスト・合計・お釣りをお客様用画面に送るための表示内容の作成と、
+ * 同じ端末の別ウィンドウとの通信（BroadcastChannel）
+ */
+import { getTenderStatus } from "@/app/lib/tender";
+import type {
+  CustomerDisplayPhase,
+  CustomerDisplayState,
+  PricedCart,
+  TaxSummary,
+  Tender,
+} from "@/app/types";
+
+const CHANNEL_NAME = "pos-customer-display";
+
+/**
+ * レジ画面とお客様用画面の間のメッセージ
+ * request: お客様用画面が開いたときに現在の表示内容を要求する
+ */
+export type CustomerDisplayMessage =
+  | { type: "state"; state: CustomerDisplayState }
+  | { type: "request" };
+
+/**
+ * お客様用画面の表示内容を作成
+ * @param phase 表示段階
+ * @param cart 値引・販促適用後の購入リスト
+ * @param tax 税額の集計
+ * @param tenders 支払（お支払い中・会計完了時）
+ * @param storeName 待機画面に表示する店舗名
+ */
+export function buildDisplayState(
+  phase: CustomerDisplayPhase,
+  cart: PricedCart,
+  tax: TaxSummary,
+  tenders: Tender[] = [],
+  storeName?: string
+): CustomerDisplayState {
+  const status = getTenderStatus(tax.total_amount, tenders);
+
+  return {
+    phase,
+    store_name: storeName,
+    lines: phase === "idle"
+      ? []
+      : cart.lines.map(line => ({
+          prd_name: line.item.prd_name,
+          quantity: line.item.quantity,
+          amount: line.net_amount,
+          discount_amount: line.gross_amount - line.net_amount,
+          reduced: line.item.tax_category === "reduced",
+        })),
+    receipt_discount: phase === "idle" ? undefined : cart.receipt_discount,
+    tax,
+    paid: status.paid,
+    change: status.change,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * お客様用画面との通信チャネルを開く
+ * @returns チャネル（BroadcastChannel非対応のブラウザではnull）
+ */
+export function openDisplayChannel(
+  onMessage: (message: CustomerDisplayMessage) => void
+): { post: (message: CustomerDisplayMessage) => void; close: () => void } | null {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<CustomerDisplayMessage>) => onMessage(event.data);
+
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * APIエラー
+ * 通信・タイムアウト・レスポンス形式・業務エラーを種類ごとのクラスで表す
+ * 画面側は instanceof で判定し、メッセージはそのまま担当者に表示できる
+ */
+
+/**
+ * API呼び出しで発生するエラーの基底クラス
+ */
+export class PosApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PosApiError";
+  }
+}
+
+/**
+ * サーバーに到達できなかったことを示すエラー
+ * （オフライン処理の判定に使用）
+ */
+export class NetworkError extends PosApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * 応答が制限時間内に返らなかったことを示すエラー
+ * 届いたかどうか分からないため、通信失敗と同じく再送・オフライン処理の対象とする
+ */
+export class TimeoutError extends NetworkError {
+  timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * サーバーがエラーステータスを返したことを示すエラー
+ */
+export class ApiError extends PosApiError {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * 業務エラー（在庫なし・取引済みなど、処理を続けられない理由のコード付き）
+ * サーバーが code を返した場合と、送信前の入力チェックで使う
+ */
+export class BusinessError extends PosApiError {
+  code: string;
+  status?: number;
+
+  constructor(code: string, message: string, status?: number) {
+    super(message);
+    this.name = "BusinessError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * レスポンスが想定した形式でないことを示すエラー
+ * （型の異なる値で合計金額などが壊れるのを防ぐため、受け取った時点で検出する）
+ */
+export class ValidationError extends PosApiError {
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = "ValidationError";
+    this.path = path;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * スキャン結果のフィードバック（ビープ音・バイブレーション）
+ */
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * ビープ音を鳴らす
+ * @param kind accept: 読取成功（高い短音）, reject: 読取失敗（低い2回音）
+ */
+export function playBeep(kind: "accept" | "reject"): void {
+  if (typeof window === "undefined" || typeof window.AudioContext === "undefined") return;
+
+  try {
+    audioContext ??= new window.AudioContext();
+    const ctx = audioContext;
+    const tones = kind === "accept"
+      ? [{ freq: 1800, start: 0, duration: 0.08 }]
+      : [
+          { freq: 400, start: 0, duration: 0.12 },
+          { freq: 400, start: 0.18, duration: 0.12 },
+        ];
+
+    tones.forEach(({ freq, start, duration }) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = "square";
+      oscillator.frequency.value = freq;
+      gain.gain.value = 0.1;
+      oscillator.connect(gain);
+      gain.connect(ctx.destination);
+      oscillator.start(ctx.currentTime + start);
+      oscillator.stop(ctx.currentTime + start + duration);
+    });
+  } catch (error) {
+    console.warn('[ビープ音エラー]', error);
+  }
+}
+
+/**
+ * 端末を振動させる（対応端末のみ）
+ */
+export function vibrate(kind: "accept" | "reject"): void {
+  if (typeof navigator === "undefined" || typeof navigator.vibrate !== "function") return;
+  navigator.vibrate(kind === "accept" ? 50 : [100, 60, 100]);
+}
+
+/**
+ * ビープ音とバイブレーションで結果を通知
+ */
+export function scanFeedback(kind: "accept" | "reject"): void {
+  playBeep(kind);
+  vibrate(kind);
+}
@@ -0,0 +1,54 @@
+/**
+ * ホットキーの設定
+ * 端末設定では1行に「商品コード,表示名」の形式で入力する
+ */
+import type { HotkeyItem } from "@/app/types";
+
+/**
+ * ホットキーの最大数
+ */
+export const MAX_HOTKEYS = 24;
+
+/**
+ * 入力テキストをホットキーの一覧に変換（空行は無視、表示名の省略時は空文字）
+ */
+export function parseHotkeys(text: string): HotkeyItem[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== "")
+    .map(line => {
+      const [code, ...label] = line.split(",");
+      return { prd_code: code.trim(), label: label.join(",").trim() };
+    });
+}
+
+/**
+ * ホットキーの一覧を入力テキストに変換
+ */
+export function formatHotkeys(hotkeys: HotkeyItem[]): string {
+  return hotkeys.map(hotkey => `${hotkey.prd_code},${hotkey.label}`).join("\n");
+}
+
+/**
+ * ホットキーの入力チェック
+ * @returns エラーメッセージ（問題なければnull）
+ */
+export function validateHotkeys(hotkeys: HotkeyItem[]): string | null {
+  if (hotkeys.length > MAX_HOTKEYS) {
+    return `ホットキーは${MAX_HOTKEYS}個まで登録できます`;
+  }
+  for (const [index, hotkey] of hotkeys.entries()) {
+    if (!/^\d{1,13}$/.test(hotkey.prd_code)) {
+      return `${index + 1}行目: 商品コードは13桁以内の数字で入力してください`;
+    }
+    if (!hotkey.label) {
+      return `${index + 1}行目: 表示名を入力してください`;
+    }
+  }
+  const codes = hotkeys.map(hotkey => hotkey.prd_code);
+  if (new Set(codes).size !== codes.length) {
+    return "同じ商品コードが複数のホットキーに指定されています";
+  }
+  return null;
+}
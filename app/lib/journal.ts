@@ -0,0 +1,107 @@
+/**
+ * 電子ジャーナル
+ * 会計完了・返品・取消のたびに取引を端末（IndexedDB）に記録し、精算（Zレポート）で締める
+ */
+import {
+  getJournalEntries,
+  getZReports,
+  putJournalEntry,
+  saveZReport,
+} from "@/app/lib/offlineStore";
+import { buildSalesReport } from "@/app/lib/salesReport";
+import type {
+  JournalEntry,
+  Operator,
+  PurchaseResponse,
+  Receipt,
+  RefundResponse,
+  SalesReport,
+  TerminalConfig,
+} from "@/app/types";
+
+// 精算済みの取引を端末に残す日数
+const JOURNAL_RETENTION_DAYS = 90;
+
+/**
+ * 取引をジャーナルに記録
+ * 記録に失敗しても会計は完了しているため、エラーはログのみとする
+ * @param receipt 発行したレシート（販売・返品・取消）
+ * @param response サーバーの応答（オフラインで保留した取引はnull）
+ * @param operator 担当者
+ */
+export async function recordJournal(
+  receipt: Receipt,
+  response: PurchaseResponse | RefundResponse | null,
+  operator?: Operator
+): Promise<void> {
+  const entry: JournalEntry = {
+    journal_id: receipt.transaction_id,
+    recorded_at: receipt.issued_at,
+    emp_cd: operator?.emp_cd ?? receipt.cashier?.emp_cd,
+    receipt,
+    response,
+  };
+
+  try {
+    await putJournalEntry(entry);
+    console.log(`[ジャーナル記録] ${receipt.kind ?? "sale"} ${receipt.transaction_id}`);
+  } catch (error) {
+    console.error('[ジャーナル記録エラー]', error);
+  }
+}
+
+/**
+ * オフラインで保留した取引の送信完了を記録
+ * ジャーナルの取引にサーバーの応答と取引番号を記録する
+ * @param transactionId 取引ID
+ * @param response サーバーの応答
+ * @returns 取引番号を記録したレシート（ジャーナルに記録がない場合はnull）
+ */
+export async function recordQueuedSaleSent(
+  transactionId: string,
+  response: PurchaseResponse
+): Promise<Receipt | null> {
+  const entry = (await getJournalEntries()).find(candidate => candidate.journal_id === transactionId);
+  if (!entry) return null;
+
+  const receipt: Receipt = { ...entry.receipt, transaction_no: response.transaction_no, queued: false };
+  await putJournalEntry({ ...entry, receipt, response });
+  console.log(`[ジャーナル更新] ${transactionId} 取引番号 ${response.transaction_no ?? "-"}`);
+  return receipt;
+}
+
+/**
+ * 未精算の取引（前回のZレポート以降）
+ */
+export async function getOpenJournalEntries(): Promise<JournalEntry[]> {
+  const entries = await getJournalEntries();
+  return entries.filter(entry => entry.z_no === undefined);
+}
+
+/**
+ * 精算（Zレポート）
+ * 未精算の取引を集計して精算番号を振り、以降のXレポートの集計対象から外す
+ * @param config 端末設定
+ * @param cash 釣銭準備金と実査在高
+ * @returns 保存したZレポート
+ */
+export async function closeDay(
+  config: TerminalConfig,
+  cash: { opening_float: number; counted: number | null }
+): Promise<SalesReport> {
+  const [entries, reports] = await Promise.all([getOpenJournalEntries(), getZReports()]);
+  const zNo = (reports[0]?.z_no ?? 0) + 1;
+
+  const report = buildSalesReport(entries, {
+    type: "Z",
+    z_no: zNo,
+    store_cd: config.store_cd,
+    pos_no: config.pos_no,
+    ...cash,
+  });
+
+  const purgeBefore = new Date(Date.now() - JOURNAL_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  await saveZReport(report, entries, purgeBefore);
+  console.log(`[精算] Z${zNo} ${entries.length}件`);
+  return report;
+}
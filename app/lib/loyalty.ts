@@ -0,0 +1,48 @@
+/**
+ * ポイントカード
+ * 会計ごとのポイントの付与・利用の計算
+ */
+import { redeemedPoints } from "@/app/lib/tender";
+import type { Member, MemberPoints, ReceiptMember, Tender } from "@/app/types";
+
+/**
+ * 付与の単位（お支払い100円につき1ポイント）
+ */
+export const POINT_EARN_UNIT = 100;
+
+/**
+ * 付与するポイント
+ * ポイント利用分を除いたお支払い金額に対して付与する
+ */
+export function calculateEarnedPoints(total: number, tenders: Tender[]): number {
+  const paid = Math.max(total - redeemedPoints(tenders), 0);
+  return Math.floor(paid / POINT_EARN_UNIT);
+}
+
+/**
+ * 購入APIに送る会員のポイントの付与・利用
+ */
+export function buildMemberPoints(member: Member, total: number, tenders: Tender[]): MemberPoints {
+  return {
+    member_id: member.member_id,
+    points_earned: calculateEarnedPoints(total, tenders),
+    points_redeemed: redeemedPoints(tenders),
+  };
+}
+
+/**
+ * レシートに印字する会員・ポイント（会計後の残高を含む）
+ */
+export function toReceiptMember(member: Member, points: MemberPoints): ReceiptMember {
+  return {
+    ...points,
+    point_balance: member.point_balance - points.points_redeemed + points.points_earned,
+  };
+}
+
+/**
+ * 会員番号の表示（下4桁以外を伏せる）
+ */
+export function maskMemberId(memberId: string): string {
+  return memberId.length <= 4 ? memberId : `${"*".repeat(memberId.length - 4)}${memberId.slice(-4)}`;
+}
@@ -0,0 +1,331 @@
+/**
+ * モックバックエンド
+ * サーバーなしで画面の開発・テストを行うためのメモリ上のAPI
+ * （/, /login, /search_product, /search_member, /inventory, /promotions, /purchase, /audit_log, /receipts, /holds, /display, /admin/products）
+ * NEXT_PUBLIC_API_MOCK=true で起動するか、setApiTransport(createMockBackend()) で差し替える
+ */
+import { allocate } from "@/app/lib/pricing";
+import { calculateTax, getTaxSettings } from "@/app/lib/tax";
+import { loadTerminalConfig } from "@/app/lib/terminalConfig";
+import type {
+  AuditLogUpload,
+  CustomerDisplayState,
+  HeldCart,
+  Member,
+  Operator,
+  OperatorCredentials,
+  Product,
+  ProductChangeActor,
+  ProductInput,
+  Promotion,
+  PurchaseRequest,
+  PurchaseResponse,
+  Receipt,
+} from "@/app/types";
+
+/**
+ * API呼び出しの送信処理（fetch と同じ形）
+ */
+export type ApiTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * モックの商品マスタ
+ */
+export const MOCK_PRODUCTS: Product[] = [
+  { prd_id: 1, prd_code: "4901234500013", prd_name: "おーいお茶 500ml", prd_price: 150, tax_category: "reduced" },
+  { prd_id: 2, prd_code: "4901234500020", prd_name: "ボールペン 黒", prd_price: 120 },
+  { prd_id: 3, prd_code: "4901234500037", prd_name: "鮭おにぎり", prd_price: 160, tax_category: "reduced" },
+  { prd_id: 4, prd_code: "4901234500044", prd_name: "乾電池 単3 4本", prd_price: 480 },
+  { prd_id: 5, prd_code: "4901234500051", prd_name: "ミネラルウォーター 2L", prd_price: 110, tax_category: "reduced" },
+  // 年齢確認・購入点数の上限がある商品
+  { prd_id: 8, prd_code: "4901234500068", prd_name: "生ビール 350ml", prd_price: 228, age_restriction: "alcohol" },
+  { prd_id: 9, prd_code: "4901234500075", prd_name: "マスク 50枚入", prd_price: 598, purchase_limit: 2 },
+  // インストアバーコード（標準ルール）の検索用コード
+  { prd_id: 6, prd_code: "0212345000007", prd_name: "日替わり弁当", prd_price: 0, tax_category: "reduced" },
+  { prd_id: 7, prd_code: "2512345000006", prd_name: "国産豚こま（100g）", prd_price: 198, tax_category: "reduced" },
+  // バーコードのない商品（ホットキーで登録する店内コード）
+  { prd_id: 10, prd_code: "0000000000017", prd_name: "レジ袋 M", prd_price: 5 },
+  { prd_id: 11, prd_code: "0000000000024", prd_name: "ホットコーヒー S", prd_price: 120, tax_category: "reduced" },
+];
+
+/**
+ * モックの担当者（従業員コード+PIN、またはスタッフバッジでサインインできる）
+ */
+export type MockOperator = Operator & { pin: string; badge_code?: string };
+
+export const MOCK_OPERATORS: MockOperator[] = [
+  { emp_cd: "0001", emp_name: "山田 太郎", role: "cashier", pin: "1234", badge_code: "EMP0001" },
+  { emp_cd: "0900", emp_name: "鈴木 一郎", role: "supervisor", pin: "9999", badge_code: "EMP0900" },
+  { emp_cd: "1000", emp_name: "田中 店長", role: "manager", pin: "0000", badge_code: "EMP1000" },
+];
+
+/**
+ * モックの販促ルール
+ */
+export const MOCK_PROMOTIONS: Promotion[] = [
+  { promo_id: "P001", name: "水2本で200円", type: "bundle", prd_codes: ["4901234500051"], quantity: 2, price: 200 },
+];
+
+export const MOCK_MEMBERS: Member[] = [
+  { member_id: "2900000000018", member_name: "佐藤 花子", point_balance: 1200 },
+  { member_id: "2900000000025", point_balance: 0 },
+];
+
+/**
+ * モックの在庫数（商品コード → 在庫数。未登録の商品は在庫管理なし）
+ */
+export const MOCK_STOCK: Record<string, number> = {
+  "4901234500013": 24,
+  "4901234500020": 3,
+  "4901234500037": 0,
+  "4901234500044": 12,
+  "4901234500051": 40,
+  "4901234500068": 48,
+  "4901234500075": 6,
+};
+
+export interface MockBackendOptions {
+  products?: Product[];
+  operators?: MockOperator[];
+  promotions?: Promotion[];
+  members?: Member[];
+  stock?: Record<string, number>;
+  latencyMs?: number; // 応答までの待ち時間
+}
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * モックバックエンドを作成
+ * 購入は取引IDごとに結果を保持し、同じ取引IDの再送には同じ結果を返す（冪等）
+ */
+export function createMockBackend(options: MockBackendOptions = {}): ApiTransport {
+  let products = [...(options.products ?? MOCK_PRODUCTS)];
+  const members = new Map((options.members ?? MOCK_MEMBERS).map(member => [member.member_id, { ...member }]));
+  const stock = new Map(Object.entries(options.stock ?? MOCK_STOCK));
+  const latencyMs = options.latencyMs ?? 0;
+  const purchases = new Map<string, PurchaseResponse>();
+  let nextTransactionNo = 1;
+  const auditLogs: AuditLogUpload[] = [];
+  const operators = options.operators ?? MOCK_OPERATORS;
+  const promotions = options.promotions ?? MOCK_PROMOTIONS;
+  const receipts = new Map<string, Receipt>();
+  const holds = new Map<string, HeldCart>();
+  const displays = new Map<string, CustomerDisplayState>();
+
+  const login = (credentials: OperatorCredentials): Response => {
+    const found = operators.find(candidate =>
+      "badge_code" in credentials
+        ? candidate.badge_code === credentials.badge_code
+        : candidate.emp_cd === credentials.emp_cd && candidate.pin === credentials.pin
+    );
+    if (!found) {
+      return json({ code: "INVALID_CREDENTIALS", detail: "従業員コードまたはPINが正しくありません" }, 401);
+    }
+    const { pin: _pin, badge_code: _badgeCode, ...operator } = found;
+    return json({ operator });
+  };
+
+  const purchase = (payload: PurchaseRequest): Response => {
+    const existing = purchases.get(payload.transaction_id);
+    if (existing) {
+      return json(existing);
+    }
+    if (!Array.isArray(payload.items) || payload.items.length === 0) {
+      return json({ code: "EMPTY_CART", detail: "購入する商品がありません" }, 422);
+    }
+    const member = payload.member && members.get(payload.member.member_id);
+    if (payload.member && !member) {
+      return json({ code: "MEMBER_NOT_FOUND", detail: "会員が見つかりません" }, 422);
+    }
+    if (member && payload.member && payload.member.points_redeemed > member.point_balance) {
+      return json({ code: "INSUFFICIENT_POINTS", detail: "ポイント残高が不足しています" }, 422);
+    }
+
+    // 会計値引は端末と同じく明細金額の比率で按分してから税率ごとに集計する
+    const shares = allocate(
+      payload.receipt_discount?.amount ?? 0,
+      payload.items.map((item, index) => [index, item.line_amount] as [number, number])
+    );
+    const tax = calculateTax(
+      payload.items.map((item, index) => ({
+        amount: item.line_amount - (shares.get(index) ?? 0),
+        tax_category: item.tax_category,
+      })),
+      getTaxSettings(loadTerminalConfig())
+    );
+
+    const response: PurchaseResponse = {
+      success: true,
+      total_amount: tax.total_amount,
+      total_amount_ex_tax: tax.total_amount_ex_tax,
+      transaction_no: nextTransactionNo++,
+    };
+    purchases.set(payload.transaction_id, response);
+    if (member && payload.member) {
+      member.point_balance += payload.member.points_earned - payload.member.points_redeemed;
+    }
+    payload.items.forEach(item => {
+      const onHand = stock.get(item.prd_code);
+      if (onHand !== undefined) stock.set(item.prd_code, onHand - item.quantity);
+    });
+    return json(response);
+  };
+
+  // 商品マスタ管理（商品コードの重複は409、変更には担当者と承認者が必要）
+  const adminProducts = (method: string, path: string, params: URLSearchParams, rawBody: unknown): Response => {
+    const idMatch = path.match(/^\/admin\/products\/(\d+)$/);
+    const { emp_cd, approver_emp_cd, ...body } = (rawBody ?? {}) as Partial<ProductChangeActor>;
+    if (method !== "GET" && (!emp_cd || !approver_emp_cd)) {
+      return json({ code: "MISSING_ACTOR", detail: "担当者と承認者が必要です" }, 400);
+    }
+
+    if (path === "/admin/products" && method === "GET") {
+      const q = (params.get("q") ?? "").toLowerCase();
+      const department = params.get("department");
+      const includeInactive = params.get("include_inactive") === "true";
+      const matched = products.filter(p =>
+        (includeInactive || p.is_active !== false)
+        && (!department || p.department === department)
+        && (!q || p.prd_code.includes(q) || p.prd_name.toLowerCase().includes(q))
+      );
+      const offset = Number(params.get("offset") ?? 0);
+      const limit = Number(params.get("limit") ?? 50);
+      return json({ products: matched.slice(offset, offset + limit), total: matched.length });
+    }
+    if (path === "/admin/products" && method === "POST") {
+      const input = body as ProductInput;
+      if (products.some(p => p.prd_code === input.prd_code)) {
+        return json({ code: "DUPLICATE_PRODUCT_CODE", detail: "この商品コードはすでに登録されています" }, 409);
+      }
+      const product: Product = { ...input, prd_id: Math.max(0, ...products.map(p => p.prd_id)) + 1 };
+      products.push(product);
+      return json({ product });
+    }
+    if (path === "/admin/products/import" && method === "POST") {
+      let created = 0;
+      let updated = 0;
+      (body as { products: ProductInput[] }).products.forEach(input => {
+        const index = products.findIndex(p => p.prd_code === input.prd_code);
+        if (index >= 0) {
+          products[index] = { ...input, prd_id: products[index].prd_id };
+          updated++;
+        } else {
+          products.push({ ...input, prd_id: Math.max(0, ...products.map(p => p.prd_id)) + 1 });
+          created++;
+        }
+      });
+      return json({ created, updated });
+    }
+    if (idMatch && (method === "PUT" || method === "PATCH")) {
+      const prdId = Number(idMatch[1]);
+      const current = products.find(p => p.prd_id === prdId);
+      if (!current) {
+        return json({ detail: "商品が見つかりません" }, 404);
+      }
+      const next: Product = method === "PUT"
+        ? { ...(body as ProductInput), prd_id: prdId }
+        : { ...current, ...(body as Partial<ProductInput>) };
+      if (products.some(p => p.prd_code === next.prd_code && p.prd_id !== prdId)) {
+        return json({ code: "DUPLICATE_PRODUCT_CODE", detail: "この商品コードはすでに登録されています" }, 409);
+      }
+      products = products.map(p => (p.prd_id === prdId ? next : p));
+      return json({ product: next });
+    }
+    return json({ detail: `Not Found: ${method} ${path}` }, 404);
+  };
+
+  return async (url, init) => {
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+    if (init.signal?.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError");
+    }
+
+    const { pathname, searchParams } = new URL(url);
+    const method = (init.method ?? "GET").toUpperCase();
+    const body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+
+    if (pathname === "/" && method === "GET") {
+      return json({ status: "ok", service: "pos-mock", version: "1.0.0" });
+    }
+    if (pathname === "/login" && method === "POST") {
+      return login(body as OperatorCredentials);
+    }
+    if (pathname === "/promotions" && method === "GET") {
+      return json({ promotions });
+    }
+    if (pathname === "/search_product" && method === "POST") {
+      return json({ product: products.find(p => p.prd_code === body?.code) ?? null });
+    }
+    if (pathname === "/search_member" && method === "POST") {
+      return json({ member: members.get((body as { member_id: string }).member_id) ?? null });
+    }
+    const inventoryMatch = pathname.match(/^\/inventory\/([^/]+)\/([^/]+)$/);
+    if (inventoryMatch && method === "GET") {
+      const [, storeCd, prdCode] = inventoryMatch.map(decodeURIComponent);
+      const onHand = stock.get(prdCode);
+      return json({
+        stock: onHand === undefined
+          ? null
+          : { prd_code: prdCode, store_cd: storeCd, on_hand: onHand, updated_at: new Date().toISOString() },
+      });
+    }
+    if (pathname === "/purchase" && method === "POST") {
+      return purchase(body as PurchaseRequest);
+    }
+    if (pathname === "/audit_log" && method === "POST") {
+      auditLogs.push(body as AuditLogUpload);
+      return json({ success: true });
+    }
+    if (pathname === "/receipts" && method === "POST") {
+      const receipt = body as Receipt;
+      receipts.set(receipt.transaction_id, receipt);
+      return json({ success: true });
+    }
+    const receiptMatch = pathname.match(/^\/receipts\/([^/]+)$/);
+    if (receiptMatch && method === "GET") {
+      const receipt = receipts.get(decodeURIComponent(receiptMatch[1]));
+      return receipt ? json({ receipt }) : json({ detail: "レシートが見つかりません" }, 404);
+    }
+
+    // 保留の共有（引き取った保留は削除し、他の端末では再開できない）
+    if (pathname === "/holds" && method === "POST") {
+      const hold = body as HeldCart;
+      holds.set(hold.hold_id, hold);
+      return json({ success: true });
+    }
+    if (pathname === "/holds" && method === "GET") {
+      const storeCd = searchParams.get("store_cd");
+      return json({ holds: Array.from(holds.values()).filter(hold => !storeCd || hold.store_cd === storeCd) });
+    }
+    const claimMatch = pathname.match(/^\/holds\/([^/]+)\/claim$/);
+    if (claimMatch && method === "POST") {
+      const holdId = decodeURIComponent(claimMatch[1]);
+      const hold = holds.get(holdId) ?? null;
+      holds.delete(holdId);
+      return json({ hold });
+    }
+
+    const displayMatch = pathname.match(/^\/display\/([^/]+)\/([^/]+)$/);
+    if (displayMatch) {
+      const key = `${decodeURIComponent(displayMatch[1])}/${decodeURIComponent(displayMatch[2])}`;
+      if (method === "PUT") {
+        displays.set(key, body as CustomerDisplayState);
+        return json({ success: true });
+      }
+      if (method === "GET") {
+        return json({ state: displays.get(key) ?? null });
+      }
+    }
+    if (pathname.startsWith("/admin/products")) {
+      return adminProducts(method, pathname, searchParams, body);
+    }
+    return json({ detail: `Not Found: ${method} ${pathname}` }, 404);
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * オフラインストア
+ * IndexedDBに商品キャッシュ・未送信取引（アウトボックス）・電子ジャーナルを保存
+ */
+import type { Product, PurchaseRequest, OutboxCounts, OutboxEntry, JournalEntry, SalesReport } from "@/app/types";
+
+const DB_NAME = "pos-offline";
+const DB_VERSION = 2;
+const PRODUCT_STORE = "products";
+const OUTBOX_STORE = "outbox";
+const JOURNAL_STORE = "journal";
+const Z_REPORT_STORE = "z_reports";
+
+/**
+ * IndexedDBが利用可能か（SSR時や非対応ブラウザではfalse）
+ */
+const isAvailable = (): boolean =>
+  typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * DB接続を開く（初回のみスキーマ作成）
+ */
+function openDB(): Promise<IDBDatabase> {
+  if (!isAvailable()) {
+    return Promise.reject(new Error("IndexedDBが利用できません"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRODUCT_STORE)) {
+          db.createObjectStore(PRODUCT_STORE, { keyPath: "prd_code" });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+          db.createObjectStore(JOURNAL_STORE, { keyPath: "journal_id" });
+        }
+        if (!db.objectStoreNames.contains(Z_REPORT_STORE)) {
+          db.createObjectStore(Z_REPORT_STORE, { keyPath: "z_no" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * 単一ストアに対するトランザクション実行ヘルパー
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ===== 商品キャッシュ =====
+
+/**
+ * 商品をキャッシュに保存
+ */
+export async function cacheProduct(product: Product): Promise<void> {
+  if (!isAvailable()) return;
+
+  try {
+    await withStore(PRODUCT_STORE, "readwrite", store => store.put(product));
+  } catch (error) {
+    // キャッシュ失敗は販売処理を止めない
+    console.warn('[商品キャッシュ保存失敗]', error);
+  }
+}
+
+/**
+ * キャッシュから商品を取得
+ * @param code 商品コード
+ * @returns 商品情報（未キャッシュの場合はnull）
+ */
+export async function getCachedProduct(code: string): Promise<Product | null> {
+  if (!isAvailable()) return null;
+
+  try {
+    const product = await withStore<Product | undefined>(
+      PRODUCT_STORE,
+      "readonly",
+      store => store.get(code)
+    );
+    return product ?? null;
+  } catch (error) {
+    console.warn('[商品キャッシュ読込失敗]', error);
+    return null;
+  }
+}
+
+// ===== アウトボックス =====
+
+/**
+ * 未送信の購入リクエストをアウトボックスに追加
+ */
+export async function enqueuePurchase(payload: PurchaseRequest): Promise<void> {
+  const entry: Omit<OutboxEntry, "id"> = {
+    payload,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+  };
+  await withStore(OUTBOX_STORE, "readwrite", store => store.add(entry));
+}
+
+/**
+ * アウトボックスの全件を登録順で取得
+ */
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  if (!isAvailable()) return [];
+  // autoIncrementキーの昇順 = 登録順
+  return withStore<OutboxEntry[]>(OUTBOX_STORE, "readonly", store => store.getAll());
+}
+
+/**
+ * アウトボックスの件数を状態ごとに取得
+ */
+export async function countOutbox(): Promise<OutboxCounts> {
+  const entries = await getOutboxEntries();
+  const failed = entries.filter(entry => entry.status === "failed").length;
+  return { pending: entries.length - failed, failed };
+}
+
+/**
+ * アウトボックスのエントリを更新（再送失敗の記録など）
+ */
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", store => store.put(entry));
+}
+
+/**
+ * 送信済みのエントリをアウトボックスから削除
+ */
+export async function removeOutboxEntry(id: number): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", store => store.delete(id));
+}
+
+// ===== 電子ジャーナル =====
+
+/**
+ * 取引をジャーナルに記録（同じIDは上書き）
+ */
+export async function putJournalEntry(entry: JournalEntry): Promise<void> {
+  await withStore(JOURNAL_STORE, "readwrite", store => store.put(entry));
+}
+
+/**
+ * ジャーナルの全件を記録日時順で取得
+ */
+export async function getJournalEntries(): Promise<JournalEntry[]> {
+  if (!isAvailable()) return [];
+  const entries = await withStore<JournalEntry[]>(JOURNAL_STORE, "readonly", store => store.getAll());
+  return entries.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+}
+
+/**
+ * 精算（Zレポート）を保存し、対象の取引に精算番号を記録
+ * 保存期間を過ぎた精算済みの取引は同じトランザクションで削除する
+ * @param report Zレポート
+ * @param entries 精算対象の取引
+ * @param purgeBefore この日時より前に記録された精算済みの取引を削除
+ */
+export async function saveZReport(
+  report: SalesReport,
+  entries: JournalEntry[],
+  purgeBefore: string
+): Promise<void> {
+  const db = await openDB();
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([JOURNAL_STORE, Z_REPORT_STORE], "readwrite");
+    const journal = tx.objectStore(JOURNAL_STORE);
+
+    tx.objectStore(Z_REPORT_STORE).add(report);
+    entries.forEach(entry => journal.put({ ...entry, z_no: report.z_no }));
+
+    const cursorRequest = journal.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const entry = cursor.value as JournalEntry;
+      if (entry.z_no !== undefined && entry.recorded_at < purgeBefore) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * 保存済みのZレポートを精算番号の新しい順で取得
+ */
+export async function getZReports(): Promise<SalesReport[]> {
+  if (!isAvailable()) return [];
+  const reports = await withStore<SalesReport[]>(Z_REPORT_STORE, "readonly", store => store.getAll());
+  return reports.sort((a, b) => (b.z_no ?? 0) - (a.z_no ?? 0));
+}
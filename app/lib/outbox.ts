@@ -0,0 +1,109 @@
+/**
+ * アウトボックス送信処理
+ * オフライン中に保留した購入リクエストを登録順に再送し、送信できた取引のジャーナル・電子レシートを確定する
+ */
+import { healthCheck, isRetryable, purchaseItems, uploadReceipt } from "@/app/lib/api";
+import { BusinessError } from "@/app/lib/errors";
+import { recordQueuedSaleSent } from "@/app/lib/journal";
+import {
+  getOutboxEntries,
+  removeOutboxEntry,
+  updateOutboxEntry,
+} from "@/app/lib/offlineStore";
+import type { OutboxEntry, PurchaseResponse } from "@/app/types";
+
+export interface FlushResult {
+  sent: number;
+  remaining: number;
+  failed: number; // サーバーが拒否し、再送しないエントリ（今回以前の分を含む）
+}
+
+/**
+ * アウトボックスを再送
+ * ヘルスチェックが成功した場合のみ送信し、通信失敗・5xxのエントリで停止する
+ * （取引の順序を守るため、後続のエントリは追い越さない）
+ * サーバーが拒否したエントリ（4xx・success: false）は送信失敗として残し、後続の送信を続ける
+ */
+export async function flushOutbox(): Promise<FlushResult> {
+  const entries = await getOutboxEntries();
+  const pending = entries.filter(entry => entry.status !== "failed");
+  const failedBefore = entries.length - pending.length;
+  if (pending.length === 0) {
+    return { sent: 0, remaining: 0, failed: failedBefore };
+  }
+
+  try {
+    await healthCheck();
+  } catch {
+    return { sent: 0, remaining: pending.length, failed: failedBefore };
+  }
+
+  let sent = 0;
+  let rejected = 0;
+  for (const entry of pending) {
+    try {
+      const data = await purchaseItems(entry.payload);
+      if (!data.success) {
+        throw new BusinessError("PURCHASE_REJECTED", "購入処理に失敗しました");
+      }
+      await removeOutboxEntry(entry.id);
+      await completeSentSale(entry.payload.transaction_id, data);
+      sent++;
+    } catch (error) {
+      const err = error as Error;
+      const retryable = isRetryable(error);
+      console.error(`[アウトボックス再送失敗] id=${entry.id}`, err);
+      await updateOutboxEntry({
+        ...entry,
+        attempts: entry.attempts + 1,
+        last_error: err.message,
+        status: retryable ? "pending" : "failed",
+      });
+      if (retryable) break;
+      rejected++;
+    }
+  }
+
+  console.log(`[アウトボックス再送] ${sent}/${pending.length}件送信（拒否 ${rejected}件）`);
+  return {
+    sent,
+    remaining: pending.length - sent - rejected,
+    failed: failedBefore + rejected,
+  };
+}
+
+/**
+ * 送信できた取引のジャーナルに取引番号を記録し、電子レシートを登録する
+ * 会計は完了済みのため、失敗してもログのみとして後続の送信を続ける
+ */
+async function completeSentSale(transactionId: string, response: PurchaseResponse): Promise<void> {
+  try {
+    const receipt = await recordQueuedSaleSent(transactionId, response);
+    if (receipt) await uploadReceipt(receipt);
+  } catch (error) {
+    console.error(`[保留取引の確定エラー] ${transactionId}`, error);
+  }
+}
+
+/**
+ * 送信失敗（サーバーが拒否した）のエントリを登録順で取得
+ */
+export async function getFailedOutboxEntries(): Promise<OutboxEntry[]> {
+  const entries = await getOutboxEntries();
+  return entries.filter(entry => entry.status === "failed");
+}
+
+/**
+ * 送信失敗のエントリを再送の対象に戻す（サーバー側の原因を解消した後の再送用）
+ */
+export async function retryFailedOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await updateOutboxEntry({ ...entry, status: "pending" });
+}
+
+/**
+ * 送信失敗のエントリを破棄（電子ジャーナルの記録は残る）
+ */
+export async function discardFailedOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await removeOutboxEntry(entry.id);
+  console.log(`[アウトボックス破棄] id=${entry.id} ${entry.payload.transaction_id}`);
+}
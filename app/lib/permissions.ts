@@ -0,0 +1,62 @@
+/**
+ * 担当者の権限判定
+ */
+import { lineKey, manualDiscountAmount } from "@/app/lib/pricing";
+import type { ManualDiscount, Operator, OperatorRole, PurchaseItem } from "@/app/types";
+
+const ROLE_LEVELS: Record<OperatorRole, number> = {
+  cashier: 0,
+  supervisor: 1,
+  manager: 2,
+};
+
+/**
+ * 権限の表示名
+ */
+export const ROLE_LABELS: Record<OperatorRole, string> = {
+  cashier: "レジ担当",
+  supervisor: "責任者",
+  manager: "店長",
+};
+
+/**
+ * 担当者が必要な権限以上を持つか
+ */
+export function hasRole(operator: Operator | null | undefined, required: OperatorRole): boolean {
+  if (!operator) return false;
+  return ROLE_LEVELS[operator.role ?? "cashier"] >= ROLE_LEVELS[required];
+}
+
+/**
+ * 責任者の承認が必要な操作の基準
+ * free_void_lines: 直近に登録した明細のうち、承認なしで取消・数量の減算ができる件数（スキャン直後の訂正用）
+ * discount_percent_limit / discount_amount_limit: 承認なしで適用できる値引の上限
+ */
+export const APPROVAL_POLICY = {
+  free_void_lines: 1,
+  discount_percent_limit: 10,
+  discount_amount_limit: 500,
+};
+
+/**
+ * 明細の取消・数量の減算に責任者の承認が必要か
+ * 直近に登録した明細以外（会計の途中で前に登録した明細）の取消は承認が必要
+ */
+export function lineVoidRequiresApproval(items: PurchaseItem[], key: string): boolean {
+  const index = items.findIndex(item => lineKey(item) === key);
+  if (index < 0) return false;
+  return index < items.length - APPROVAL_POLICY.free_void_lines;
+}
+
+/**
+ * 値引に責任者の承認が必要か（値引の解除は承認不要）
+ * 円値引は1点あたりの額ではなく、数量分を合わせた値引額で判定する
+ * @param amount 値引の対象金額（明細金額または会計の小計）
+ * @param quantity 明細の数量（会計値引は1）
+ */
+export function discountRequiresApproval(discount: ManualDiscount | null, amount: number, quantity = 1): boolean {
+  if (!discount) return false;
+  return discount.type === "percent"
+    ? discount.value > APPROVAL_POLICY.discount_percent_limit
+    : manualDiscountAmount(discount, amount, quantity) > APPROVAL_POLICY.discount_amount_limit;
+}
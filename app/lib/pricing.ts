@@ -0,0 +1,263 @@
+/**
+ * 値引・販促計算
+ * 購入リストに明細値引・販促ルール・会計値引を適用し、税計算に渡す明細金額を求める
+ *
+ * 適用順序:
+ *   1. 明細値引（値引シール等）… 手動値引のある明細には販促を適用しない
+ *   2. 販促ルール（まとめ売り・割引）
+ *   3. 会計値引 … 明細金額の比率で各明細に按分（税率ごとの課税額を正しく求めるため）
+ */
+import type {
+  AppliedDiscount,
+  ManualDiscount,
+  PricedCart,
+  PricedLine,
+  Promotion,
+  PurchaseItem,
+  PurchaseRequestItem,
+} from "@/app/types";
+import type { TaxableLine } from "@/app/lib/tax";
+
+/**
+ * 購入リストの明細を識別するキー
+ * インストアバーコードの商品は同じ商品でも価格・重量が異なるため、バーコードごとに別明細にする
+ */
+export function lineKey(item: PurchaseItem): string {
+  return item.embedded ? `${item.prd_id}:${item.embedded.barcode}` : String(item.prd_id);
+}
+
+/**
+ * 手動値引の表示名
+ */
+export function formatDiscount(discount: ManualDiscount): string {
+  return discount.type === "percent"
+    ? `${discount.value}%引`
+    : `${discount.value.toLocaleString()}円引`;
+}
+
+/**
+ * 手動値引の額を計算（対象金額を超えない）
+ * @param discount 値引
+ * @param amount 対象金額
+ * @param quantity 数量（円値引は1点あたりで適用）
+ */
+export function manualDiscountAmount(discount: ManualDiscount, amount: number, quantity = 1): number {
+  const raw = discount.type === "percent"
+    ? Math.floor((amount * discount.value) / 100)
+    : discount.value * quantity;
+  return Math.min(Math.max(raw, 0), amount);
+}
+
+/**
+ * 販促ルールが有効期間内か
+ */
+function isActive(promotion: Promotion, now: Date): boolean {
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return false;
+  if (promotion.ends_at && new Date(promotion.ends_at) < now) return false;
+  return true;
+}
+
+/**
+ * 商品が対象の、有効期間内の販促ルール（価格照会の表示用）
+ */
+export function findActivePromotions(
+  prdCode: string,
+  promotions: Promotion[],
+  now: Date = new Date()
+): Promotion[] {
+  return promotions.filter(promotion => isActive(promotion, now) && promotion.prd_codes.includes(prdCode));
+}
+
+/**
+ * 販促ルールの内容の表示名
+ */
+export function formatPromotion(promotion: Promotion): string {
+  switch (promotion.type) {
+    case "bundle":
+      return `${promotion.quantity ?? 0}点で${(promotion.price ?? 0).toLocaleString()}円`;
+    case "percent":
+      return `${promotion.value ?? 0}%引`;
+    default:
+      return `1点につき${(promotion.value ?? 0).toLocaleString()}円引`;
+  }
+}
+
+/**
+ * 販促ルールを適用し、明細ごとの値引額を返す
+ * @returns 明細インデックス → 値引額
+ */
+function applyPromotion(
+  promotion: Promotion,
+  lines: PricedLine[]
+): Map<number, number> {
+  const discounts = new Map<number, number>();
+  const targets = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => !line.item.discount && promotion.prd_codes.includes(line.item.prd_code));
+
+  if (targets.length === 0) return discounts;
+
+  if (promotion.type === "bundle") {
+    const size = promotion.quantity ?? 0;
+    const price = promotion.price ?? 0;
+    if (size <= 0) return discounts;
+
+    // 対象商品を1点ずつに展開し、高い商品から組にする
+    const units = targets
+      .flatMap(({ line, index }) =>
+        Array.from({ length: line.item.quantity }, () => ({ index, price: line.item.prd_price }))
+      )
+      .sort((a, b) => b.price - a.price);
+
+    const bundleCount = Math.floor(units.length / size);
+    const bundled = units.slice(0, bundleCount * size);
+    const regularTotal = bundled.reduce((sum, unit) => sum + unit.price, 0);
+    const totalDiscount = regularTotal - bundleCount * price;
+    if (bundleCount === 0 || totalDiscount <= 0) return discounts;
+
+    // 組になった商品の金額比率で値引額を各明細に按分
+    const shares = new Map<number, number>();
+    bundled.forEach(unit => shares.set(unit.index, (shares.get(unit.index) ?? 0) + unit.price));
+    allocate(totalDiscount, Array.from(shares.entries())).forEach((amount, index) => {
+      discounts.set(index, amount);
+    });
+    return discounts;
+  }
+
+  const value = promotion.value ?? 0;
+  targets.forEach(({ line, index }) => {
+    const amount = manualDiscountAmount(
+      { type: promotion.type === "percent" ? "percent" : "amount", value },
+      line.net_amount,
+      line.item.quantity
+    );
+    if (amount > 0) discounts.set(index, amount);
+  });
+  return discounts;
+}
+
+/**
+ * 金額を比率で按分（端数は比率の大きい順に1円ずつ配分）
+ * @param total 按分する金額
+ * @param weights [キー, 比率の元となる金額] の配列
+ */
+export function allocate<K>(total: number, weights: [K, number][]): Map<K, number> {
+  const result = new Map<K, number>();
+  const weightSum = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  if (weightSum <= 0) return result;
+
+  let remaining = total;
+  weights.forEach(([key, weight]) => {
+    const share = Math.floor((total * weight) / weightSum);
+    result.set(key, share);
+    remaining -= share;
+  });
+
+  const byWeight = weights.filter(([, weight]) => weight > 0).sort((a, b) => b[1] - a[1]);
+  for (let i = 0; remaining > 0 && byWeight.length > 0; i = (i + 1) % byWeight.length) {
+    const [key] = byWeight[i];
+    result.set(key, (result.get(key) ?? 0) + 1);
+    remaining--;
+  }
+
+  return result;
+}
+
+/**
+ * 購入リストに値引・販促を適用
+ * @param items 購入リスト
+ * @param promotions 販促ルール
+ * @param receiptDiscount 会計値引
+ * @param now 販促の有効期間判定に使う日時
+ */
+export function priceCart(
+  items: PurchaseItem[],
+  promotions: Promotion[],
+  receiptDiscount: ManualDiscount | null,
+  now: Date = new Date()
+): PricedCart {
+  const lines: PricedLine[] = items.map(item => {
+    const gross = item.prd_price * item.quantity;
+    const discounts: AppliedDiscount[] = [];
+
+    if (item.discount) {
+      const amount = manualDiscountAmount(item.discount, gross, item.quantity);
+      if (amount > 0) {
+        discounts.push({ kind: "line", label: formatDiscount(item.discount), amount });
+      }
+    }
+
+    const net = gross - discounts.reduce((sum, d) => sum + d.amount, 0);
+    return {
+      item,
+      gross_amount: gross,
+      discounts,
+      net_amount: net,
+      receipt_discount_share: 0,
+    };
+  });
+
+  // 販促ルールを順に適用（先に適用した販促で減額された後の金額が次の対象）
+  promotions
+    .filter(promotion => isActive(promotion, now))
+    .forEach(promotion => {
+      applyPromotion(promotion, lines).forEach((amount, index) => {
+        const line = lines[index];
+        const applied = Math.min(amount, line.net_amount);
+        if (applied <= 0) return;
+        line.discounts.push({
+          kind: "promotion",
+          label: promotion.name,
+          amount: applied,
+          promo_id: promotion.promo_id,
+        });
+        line.net_amount -= applied;
+      });
+    });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.net_amount, 0);
+
+  let appliedReceiptDiscount: AppliedDiscount | undefined;
+  if (receiptDiscount) {
+    const amount = manualDiscountAmount(receiptDiscount, subtotal);
+    if (amount > 0) {
+      appliedReceiptDiscount = {
+        kind: "receipt",
+        label: `会計${formatDiscount(receiptDiscount)}`,
+        amount,
+      };
+      allocate(amount, lines.map((line, index) => [index, line.net_amount] as [number, number]))
+        .forEach((share, index) => {
+          lines[index].receipt_discount_share = share;
+        });
+    }
+  }
+
+  return {
+    lines,
+    subtotal,
+    receipt_discount: appliedReceiptDiscount,
+    total: subtotal - (appliedReceiptDiscount?.amount ?? 0),
+  };
+}
+
+/**
+ * 税計算用の明細（会計値引の按分後）
+ */
+export function toTaxableLines(cart: PricedCart): TaxableLine[] {
+  return cart.lines.map(line => ({
+    amount: line.net_amount - line.receipt_discount_share,
+    tax_category: line.item.tax_category,
+  }));
+}
+
+/**
+ * 購入APIに送信する明細
+ */
+export function toRequestItems(cart: PricedCart): PurchaseRequestItem[] {
+  return cart.lines.map(line => ({
+    ...line.item,
+    applied_discounts: line.discounts,
+    line_amount: line.net_amount,
+  }));
+}
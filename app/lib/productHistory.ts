@@ -0,0 +1,68 @@
+/**
+ * 商品の利用履歴
+ * 最近・よく使う商品をワンタップで追加するため、端末に利用回数を保存する
+ */
+import type { Product } from "@/app/types";
+
+const STORAGE_KEY = "pos-product-history";
+// 保存する商品数の上限（古いものから削除）
+const MAX_ENTRIES = 200;
+
+interface HistoryEntry {
+  product: Product;
+  count: number;
+  last_used: number;
+}
+
+function loadHistory(): HistoryEntry[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as HistoryEntry[]) : [];
+  } catch (error) {
+    console.error('[商品履歴読込エラー]', error);
+    return [];
+  }
+}
+
+/**
+ * 商品の利用を記録
+ */
+export function recordProductUse(product: Product): void {
+  const history = loadHistory();
+  const existing = history.find(entry => entry.product.prd_code === product.prd_code);
+
+  if (existing) {
+    existing.product = product;
+    existing.count++;
+    existing.last_used = Date.now();
+  } else {
+    history.push({ product, count: 1, last_used: Date.now() });
+  }
+
+  const trimmed = history
+    .sort((a, b) => b.last_used - a.last_used)
+    .slice(0, MAX_ENTRIES);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+}
+
+/**
+ * 最近使った商品
+ */
+export function getRecentProducts(limit: number): Product[] {
+  return loadHistory()
+    .sort((a, b) => b.last_used - a.last_used)
+    .slice(0, limit)
+    .map(entry => entry.product);
+}
+
+/**
+ * よく使う商品
+ */
+export function getFrequentProducts(limit: number): Product[] {
+  return loadHistory()
+    .sort((a, b) => b.count - a.count || b.last_used - a.last_used)
+    .slice(0, limit)
+    .map(entry => entry.product);
+}
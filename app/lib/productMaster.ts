@@ -0,0 +1,318 @@
+/**
+ * 商品マスタ管理
+ * 商品の入力チェックと、CSV一括取込の解析・登録済み商品との差分作成
+ */
+import { isValidJan } from "@/app/lib/barcode";
+import { AGE_RESTRICTION_LABELS } from "@/app/lib/restrictions";
+import { TAX_CATEGORY_LABELS } from "@/app/lib/tax";
+import type {
+  AgeRestriction,
+  Product,
+  ProductImportRow,
+  ProductInput,
+  TaxCategory,
+} from "@/app/types";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DEPARTMENT_LENGTH = 20;
+const MAX_PRICE = 9999999;
+const MAX_PURCHASE_LIMIT = 999;
+
+/**
+ * 項目の表示名
+ */
+export const PRODUCT_FIELD_LABELS: Record<keyof ProductInput, string> = {
+  prd_code: "商品コード",
+  prd_name: "商品名",
+  prd_price: "価格",
+  tax_category: "税区分",
+  department: "部門",
+  is_active: "販売状態",
+  age_restriction: "年齢確認",
+  purchase_limit: "購入上限",
+};
+
+/**
+ * 商品の入力チェック
+ * @returns 項目ごとのエラーメッセージ（問題なければ空オブジェクト）
+ */
+export function validateProductInput(
+  input: ProductInput
+): Partial<Record<keyof ProductInput, string>> {
+  const errors: Partial<Record<keyof ProductInput, string>> = {};
+
+  if (!isValidJan(input.prd_code)) {
+    errors.prd_code = "商品コードはJAN/UPC（8・12・13桁、チェックデジット付き）で入力してください";
+  }
+  if (!input.prd_name.trim()) {
+    errors.prd_name = "商品名を入力してください";
+  } else if (input.prd_name.length > MAX_NAME_LENGTH) {
+    errors.prd_name = `商品名は${MAX_NAME_LENGTH}文字以内で入力してください`;
+  }
+  if (!Number.isInteger(input.prd_price) || input.prd_price < 0 || input.prd_price > MAX_PRICE) {
+    errors.prd_price = "価格は0以上の整数（円）で入力してください";
+  }
+  if (input.tax_category && !Object.hasOwn(TAX_CATEGORY_LABELS, input.tax_category)) {
+    errors.tax_category = "税区分は standard または reduced で指定してください";
+  }
+  if (input.department && input.department.length > MAX_DEPARTMENT_LENGTH) {
+    errors.department = `部門は${MAX_DEPARTMENT_LENGTH}文字以内で入力してください`;
+  }
+  if (input.age_restriction && !Object.hasOwn(AGE_RESTRICTION_LABELS, input.age_restriction)) {
+    errors.age_restriction = "年齢確認は alcohol または tobacco で指定してください";
+  }
+  if (
+    input.purchase_limit !== undefined
+    && (!Number.isInteger(input.purchase_limit) || input.purchase_limit < 1 || input.purchase_limit > MAX_PURCHASE_LIMIT)
+  ) {
+    errors.purchase_limit = `購入上限は1〜${MAX_PURCHASE_LIMIT}点で入力してください`;
+  }
+
+  return errors;
+}
+
+// CSVの見出し（英語の項目名と日本語の表示名のどちらでも受け付ける）
+const HEADER_ALIASES: Record<string, keyof ProductInput> = {
+  prd_code: "prd_code",
+  商品コード: "prd_code",
+  jan: "prd_code",
+  prd_name: "prd_name",
+  商品名: "prd_name",
+  prd_price: "prd_price",
+  価格: "prd_price",
+  売価: "prd_price",
+  tax_category: "tax_category",
+  税区分: "tax_category",
+  department: "department",
+  部門: "department",
+  is_active: "is_active",
+  販売状態: "is_active",
+  age_restriction: "age_restriction",
+  年齢確認: "age_restriction",
+  purchase_limit: "purchase_limit",
+  購入上限: "purchase_limit",
+};
+
+const REQUIRED_COLUMNS: (keyof ProductInput)[] = ["prd_code", "prd_name", "prd_price"];
+
+/**
+ * CSVを行・列に分割（引用符で囲まれたカンマ・改行・"" に対応）
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * 税区分の入力値を解釈（standard/reduced・10/8・標準/軽減）
+ */
+function parseTaxCategory(value: string): TaxCategory | null {
+  const normalized = value.trim().toLowerCase().replace(/%$/, "");
+  if (["", "standard", "10", "標準"].includes(normalized)) return "standard";
+  if (["reduced", "8", "軽減"].includes(normalized)) return "reduced";
+  return null;
+}
+
+/**
+ * 販売状態の入力値を解釈（空欄は販売中）
+ */
+function parseActive(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["", "1", "true", "販売中"].includes(normalized)) return true;
+  if (["0", "false", "停止", "販売停止"].includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * 年齢確認の入力値を解釈（空欄は確認不要）
+ * @returns 区分（確認不要はundefined、解釈できない場合はnull）
+ */
+function parseAgeRestriction(value: string): AgeRestriction | undefined | null {
+  const normalized = value.trim().toLowerCase();
+  if (["", "none", "なし"].includes(normalized)) return undefined;
+  if (["alcohol", "酒類", "酒"].includes(normalized)) return "alcohol";
+  if (["tobacco", "たばこ", "タバコ"].includes(normalized)) return "tobacco";
+  return null;
+}
+
+/**
+ * 比較・表示用の値
+ */
+function displayValue(field: keyof ProductInput, product: ProductInput): string {
+  switch (field) {
+    case "tax_category":
+      return TAX_CATEGORY_LABELS[product.tax_category ?? "standard"];
+    case "is_active":
+      return product.is_active === false ? "販売停止" : "販売中";
+    case "prd_price":
+      return `${product.prd_price.toLocaleString()}円`;
+    case "age_restriction":
+      return product.age_restriction ? AGE_RESTRICTION_LABELS[product.age_restriction] : "";
+    case "purchase_limit":
+      return product.purchase_limit !== undefined ? `${product.purchase_limit}点` : "";
+    default:
+      return String(product[field] ?? "");
+  }
+}
+
+/**
+ * CSV取込のプレビューを作成
+ * 行ごとに入力チェックを行い、登録済みの商品（商品コードで照合）との差分を求める
+ * @param text CSVファイルの内容（1行目は見出し）
+ * @param existing 登録済みの商品
+ * @returns 行ごとの判定（見出しに必須項目がない場合はエラーメッセージ）
+ */
+export function buildImportPreview(
+  text: string,
+  existing: Product[]
+): { rows: ProductImportRow[] } | { error: string } {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { error: "CSVが空です" };
+  }
+
+  const columns = header.map(name => HEADER_ALIASES[name.trim().toLowerCase()]);
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return { error: `見出しに${missing.map(column => PRODUCT_FIELD_LABELS[column]).join("・")}がありません` };
+  }
+
+  const byCode = new Map(existing.map(product => [product.prd_code, product]));
+  const seen = new Map<string, number>();
+  const rows: ProductImportRow[] = [];
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    // 空行は無視
+    if (record.every(value => value.trim() === "")) return;
+
+    const value = (column: keyof ProductInput): string => {
+      const at = columns.indexOf(column);
+      return at >= 0 ? (record[at] ?? "").trim() : "";
+    };
+
+    const errors: string[] = [];
+    const priceText = value("prd_price").replace(/[,円]/g, "");
+    const taxCategory = parseTaxCategory(value("tax_category"));
+    const isActive = parseActive(value("is_active"));
+    const ageRestriction = parseAgeRestriction(value("age_restriction"));
+    const limitText = value("purchase_limit");
+    if (taxCategory === null) errors.push(`税区分「${value("tax_category")}」を解釈できません`);
+    if (isActive === null) errors.push(`販売状態「${value("is_active")}」を解釈できません`);
+    if (ageRestriction === null) errors.push(`年齢確認「${value("age_restriction")}」を解釈できません`);
+
+    const input: ProductInput = {
+      prd_code: value("prd_code"),
+      prd_name: value("prd_name"),
+      prd_price: /^\d+$/.test(priceText) ? Number(priceText) : NaN,
+      tax_category: taxCategory ?? undefined,
+      department: value("department") || undefined,
+      is_active: isActive ?? undefined,
+      age_restriction: ageRestriction ?? undefined,
+      purchase_limit: limitText === "" ? undefined : /^\d+$/.test(limitText) ? Number(limitText) : NaN,
+    };
+    errors.push(...Object.values(validateProductInput(input)));
+
+    const firstLine = seen.get(input.prd_code);
+    if (firstLine !== undefined) {
+      errors.push(`商品コードが${firstLine}行目と重複しています`);
+    } else if (input.prd_code) {
+      seen.set(input.prd_code, line);
+    }
+
+    if (errors.length > 0) {
+      rows.push({ line, status: "error", changes: [], errors });
+      return;
+    }
+
+    const current = byCode.get(input.prd_code);
+    if (!current) {
+      rows.push({ line, status: "new", input, changes: [], errors: [] });
+      return;
+    }
+
+    const fields: (keyof ProductInput)[] = [
+      "prd_name", "prd_price", "tax_category", "department", "is_active", "age_restriction", "purchase_limit",
+    ];
+    const changes = fields
+      .map(field => ({ field, before: displayValue(field, current), after: displayValue(field, input) }))
+      .filter(change => change.before !== change.after);
+    rows.push({
+      line,
+      status: changes.length > 0 ? "changed" : "unchanged",
+      input,
+      current,
+      changes,
+      errors: [],
+    });
+  });
+
+  return { rows };
+}
+
+/**
+ * CSV取込の対象（新規・変更の行）
+ */
+export function importTargets(rows: ProductImportRow[]): ProductInput[] {
+  return rows.flatMap(row =>
+    (row.status === "new" || row.status === "changed") && row.input ? [row.input] : []
+  );
+}
+
+/**
+ * 商品マスタのCSV（取込用の見出しで出力、取込と同じ形式）
+ */
+export function productsToCsv(products: Product[]): string {
+  const quote = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const lines = [
+    "prd_code,prd_name,prd_price,tax_category,department,is_active,age_restriction,purchase_limit",
+    ...products.map(product => [
+      product.prd_code,
+      quote(product.prd_name),
+      String(product.prd_price),
+      product.tax_category ?? "standard",
+      quote(product.department ?? ""),
+      product.is_active === false ? "0" : "1",
+      product.age_restriction ?? "",
+      product.purchase_limit !== undefined ? String(product.purchase_limit) : "",
+    ].join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
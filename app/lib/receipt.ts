@@ -0,0 +1,222 @@
+/**
+ * レシート
+ * 会計結果からレシートを組み立て、印刷・ダウンロード用のHTMLを生成する
+ */
+import QRCode from "qrcode";
+import { maskMemberId } from "@/app/lib/loyalty";
+import { TAX_CATEGORY_LABELS } from "@/app/lib/tax";
+import { TENDER_LABELS } from "@/app/lib/tender";
+import type { CompletedSale, Receipt, TerminalConfig } from "@/app/types";
+
+const LAST_RECEIPT_KEY = "pos-last-receipt";
+
+/**
+ * 会計結果からレシートを作成
+ */
+export function buildReceipt(sale: CompletedSale, config: TerminalConfig): Receipt {
+  return {
+    transaction_id: sale.transaction_id,
+    transaction_no: sale.transaction_no,
+    issued_at: sale.completed_at,
+    store: {
+      store_cd: config.store_cd,
+      pos_no: config.pos_no,
+      name: config.store_name,
+      address: config.store_address,
+      phone: config.store_phone,
+      invoice_reg_no: config.invoice_reg_no,
+    },
+    cashier: sale.operator,
+    lines: sale.cart.lines.map(line => ({
+      prd_code: line.item.prd_code,
+      prd_name: line.item.prd_name,
+      quantity: line.item.quantity,
+      unit_price: line.item.prd_price,
+      amount: line.net_amount,
+      reduced: line.item.tax_category === "reduced",
+      discounts: line.discounts,
+      weight_g: line.item.embedded?.weight_g,
+    })),
+    receipt_discount: sale.cart.receipt_discount,
+    tax_buckets: sale.tax.buckets,
+    total_amount: sale.tax.total_amount,
+    total_tax: sale.tax.total_tax,
+    tenders: sale.tenders,
+    change_amount: sale.change_amount,
+    queued: sale.queued,
+    member: sale.member,
+  };
+}
+
+/**
+ * 直前のレシートを保存（再印刷用）
+ */
+export function saveLastReceipt(receipt: Receipt): void {
+  window.localStorage.setItem(LAST_RECEIPT_KEY, JSON.stringify(receipt));
+}
+
+/**
+ * 直前のレシートを取得
+ */
+export function loadLastReceipt(): Receipt | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = window.localStorage.getItem(LAST_RECEIPT_KEY);
+    return raw ? (JSON.parse(raw) as Receipt) : null;
+  } catch (error) {
+    console.error('[レシート読込エラー]', error);
+    return null;
+  }
+}
+
+/**
+ * 電子レシートのURL
+ */
+export function digitalReceiptUrl(receipt: Receipt): string {
+  return `${window.location.origin}/receipt/${encodeURIComponent(receipt.transaction_id)}`;
+}
+
+/**
+ * 電子レシートURLのQRコード（data URL）
+ * オフライン保留中の取引はサーバーに未登録のためnull
+ */
+export async function createReceiptQrCode(receipt: Receipt): Promise<string | null> {
+  // 返品・取消レシートは電子レシートを発行しない
+  if (receipt.queued || (receipt.kind && receipt.kind !== "sale")) return null;
+
+  try {
+    return await QRCode.toDataURL(digitalReceiptUrl(receipt), { margin: 1, width: 160 });
+  } catch (error) {
+    console.error('[QRコード生成エラー]', error);
+    return null;
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const yen = (amount: number): string => `¥${amount.toLocaleString()}`;
+
+const row = (label: string, value: string, className = ""): string =>
+  `<div class="row ${className}"><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>`;
+
+/**
+ * レシートHTMLを生成
+ * 印刷（感熱紙幅に合わせた @page 指定）とダウンロードで同じHTMLを使う
+ * @param receipt レシート
+ * @param options.width 用紙幅（mm）
+ * @param options.qrDataUrl 電子レシートのQRコード
+ * @param options.reprint 再印刷の表示
+ */
+export function renderReceiptHtml(
+  receipt: Receipt,
+  options: { width?: 58 | 80; qrDataUrl?: string | null; reprint?: boolean } = {}
+): string {
+  const width = options.width ?? 80;
+  const { store } = receipt;
+  const isRefund = receipt.kind === "refund" || receipt.kind === "void";
+  const title = receipt.kind === "refund" ? "返品レシート" : receipt.kind === "void" ? "取消レシート" : "領収書";
+  const issuedAt = new Date(receipt.issued_at).toLocaleString("ja-JP");
+
+  const header = [
+    store.name && `<h1>${escapeHtml(store.name)}</h1>`,
+    store.address && `<p>${escapeHtml(store.address)}</p>`,
+    store.phone && `<p>TEL ${escapeHtml(store.phone)}</p>`,
+    store.invoice_reg_no && `<p>登録番号 ${escapeHtml(store.invoice_reg_no)}</p>`,
+  ].filter(Boolean).join("");
+
+  const lines = receipt.lines.map(line => {
+    const name = `${line.reduced ? "※" : ""}${line.prd_name}`;
+    const detail = [
+      line.weight_g !== undefined && `<div class="sub">${line.weight_g.toLocaleString()}g</div>`,
+      line.quantity > 1 && `<div class="sub">${yen(line.unit_price)} × ${line.quantity}</div>`,
+    ].filter(Boolean).join("");
+    const discounts = line.discounts
+      .map(discount => row(`  ${discount.label}`, `-${yen(discount.amount)}`, "sub"))
+      .join("");
+    return row(name, yen(line.amount + line.discounts.reduce((sum, d) => sum + d.amount, 0))) + detail + discounts;
+  }).join("");
+
+  const receiptDiscount = receipt.receipt_discount
+    ? row(receipt.receipt_discount.label, `-${yen(receipt.receipt_discount.amount)}`)
+    : "";
+
+  const taxRows = receipt.tax_buckets.map(bucket =>
+    row(`(${TAX_CATEGORY_LABELS[bucket.category]}対象 ${yen(bucket.total_inc_tax)})`, `内税 ${yen(bucket.tax)}`, "sub")
+  ).join("");
+
+  const tenders = receipt.tenders
+    .map(tender => row(isRefund ? `ご返金（${TENDER_LABELS[tender.type]}）` : TENDER_LABELS[tender.type], yen(tender.amount)))
+    .join("");
+
+  // 会員番号は下4桁のみ印字する
+  const member = receipt.member
+    ? [
+      "<hr>",
+      row("会員番号", maskMemberId(receipt.member.member_id)),
+      receipt.member.points_redeemed > 0 ? row("ご利用ポイント", `${receipt.member.points_redeemed.toLocaleString()}pt`) : "",
+      row("今回付与ポイント", `${receipt.member.points_earned.toLocaleString()}pt`),
+      row("ポイント残高", `${receipt.member.point_balance.toLocaleString()}pt`),
+    ].join("")
+    : "";
+
+  const qr = options.qrDataUrl
+    ? `<div class="qr"><img src="${options.qrDataUrl}" alt="電子レシート"><p>電子レシートはこちら</p></div>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>レシート ${escapeHtml(receipt.transaction_no != null ? String(receipt.transaction_no) : receipt.transaction_id)}</title>
+<style>
+  @page { size: ${width}mm auto; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: "Courier New", "MS Gothic", monospace; color: #000; background: #fff; }
+  .receipt { width: ${width}mm; padding: 3mm; font-size: ${width === 58 ? 10 : 12}px; line-height: 1.4; }
+  h1 { font-size: 1.4em; text-align: center; margin: 0 0 2px; }
+  h2 { font-size: 1.2em; text-align: center; margin: 4px 0; }
+  p { margin: 0; text-align: center; }
+  .row { display: flex; justify-content: space-between; gap: 4px; }
+  .row span:first-child { overflow-wrap: anywhere; }
+  .row span:last-child { white-space: nowrap; }
+  .sub { font-size: 0.9em; padding-left: 1em; }
+  .total { font-size: 1.4em; font-weight: bold; }
+  hr { border: none; border-top: 1px dashed #000; margin: 4px 0; }
+  .qr { text-align: center; margin-top: 6px; }
+  .qr img { width: 30mm; height: 30mm; }
+  @media screen { body { background: #f3f4f6; } .receipt { margin: 0 auto; background: #fff; } }
+</style>
+</head>
+<body>
+<div class="receipt">
+${header}
+<h2>${options.reprint ? `【再発行】${title}` : title}</h2>
+<p>${escapeHtml(issuedAt)}</p>
+<p>店舗 ${escapeHtml(store.store_cd)} / POS ${escapeHtml(store.pos_no)}${receipt.transaction_no != null ? ` / No.${receipt.transaction_no}` : ""}</p>
+${receipt.original_transaction_no != null ? `<p>元取引 No.${receipt.original_transaction_no}</p>` : ""}
+${receipt.cashier ? `<p>担当: ${escapeHtml(receipt.cashier.emp_name)}</p>` : ""}
+<hr>
+${lines}
+${receiptDiscount}
+<hr>
+${row(isRefund ? "返金合計" : "合計", yen(receipt.total_amount), "total")}
+${taxRows}
+${row("内消費税等", yen(receipt.total_tax))}
+<hr>
+${tenders}
+${isRefund ? "" : row("お釣り", yen(receipt.change_amount))}
+${member}
+<hr>
+<p class="sub">※は軽減税率（8%）対象商品</p>
+${receipt.queued ? "<p>（オフライン処理・取引番号は後日確定）</p>" : ""}
+${qr}
+</div>
+</body>
+</html>`;
+}
@@ -0,0 +1,86 @@
+/**
+ * 販売制限
+ * 年齢確認が必要な商品（酒類・たばこ）と、お一人様あたりの購入点数の上限の判定
+ */
+import type { AgeRestriction, Product, PurchaseItem } from "@/app/types";
+
+/**
+ * 酒類・たばこを販売できる年齢
+ */
+export const LEGAL_AGE = 20;
+
+/**
+ * 年齢確認が必要な商品の区分の表示名
+ */
+export const AGE_RESTRICTION_LABELS: Record<AgeRestriction, string> = {
+  alcohol: "酒類",
+  tobacco: "たばこ",
+};
+
+/**
+ * 年齢確認が必要な商品か
+ */
+export function requiresAgeVerification(product: Pick<Product, "age_restriction">): boolean {
+  return product.age_restriction !== undefined;
+}
+
+/**
+ * 購入リストに年齢確認が必要な商品が含まれるか
+ */
+export function cartRequiresAgeVerification(items: PurchaseItem[]): boolean {
+  return items.some(requiresAgeVerification);
+}
+
+/**
+ * 購入リスト内の同じ商品の点数（インストアバーコードの明細も合算）
+ */
+export function purchasedQuantity(items: PurchaseItem[], prdCode: string): number {
+  return items
+    .filter(item => item.prd_code === prdCode)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * 購入点数の上限チェック
+ * @param items 現在の購入リスト
+ * @param product 追加する商品
+ * @param adding 追加する点数
+ * @returns 上限を超える場合は理由（超えない場合はnull）
+ */
+export function checkPurchaseLimit(
+  items: PurchaseItem[],
+  product: Product,
+  adding = 1
+): string | null {
+  if (product.purchase_limit === undefined) return null;
+
+  const current = purchasedQuantity(items, product.prd_code);
+  if (current + adding <= product.purchase_limit) return null;
+  return `「${product.prd_name}」はお一人様${product.purchase_limit}点までです（購入リストに${current}点）`;
+}
+
+/**
+ * 身分証の生年月日を解釈（YYYYMMDD・YYYY-MM-DD・YYYY/MM/DD）
+ * @returns 生年月日（解釈できない・存在しない日付の場合はnull）
+ */
+export function parseBirthDate(text: string): Date | null {
+  const match = text.trim().match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * 満年齢（誕生日の当日に加算）
+ */
+export function ageOn(birthDate: Date, now: Date = new Date()): number {
+  const age = now.getFullYear() - birthDate.getFullYear();
+  const hadBirthday = now.getMonth() > birthDate.getMonth()
+    || (now.getMonth() === birthDate.getMonth() && now.getDate() >= birthDate.getDate());
+  return hadBirthday ? age : age - 1;
+}
@@ -0,0 +1,160 @@
+/**
+ * 返品・取消
+ * 過去取引の照会キーの解析、返品額の計算、返品レシートの作成を行う
+ */
+import { lineKey } from "@/app/lib/pricing";
+import { calculateTax, getTaxSettings } from "@/app/lib/tax";
+import type {
+  Operator,
+  Receipt,
+  RefundLine,
+  RefundResponse,
+  TenderType,
+  TerminalConfig,
+  TransactionRecord,
+} from "@/app/types";
+
+type TransactionItem = TransactionRecord["items"][number];
+
+/**
+ * 取引番号の入力またはレシートQRコードの内容から照会キーを取得
+ * @returns 照会キー（解釈できない場合はnull）
+ */
+export function parseTransactionQuery(
+  input: string
+): { transaction_no: number } | { transaction_id: string } | null {
+  const value = input.trim();
+
+  // 電子レシートURL（/receipt/{取引ID}）
+  const urlMatch = value.match(/\/receipt\/([^/?#]+)/);
+  if (urlMatch) {
+    return { transaction_id: decodeURIComponent(urlMatch[1]) };
+  }
+  if (/^\d+$/.test(value)) {
+    return { transaction_no: Number(value) };
+  }
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+    return { transaction_id: value };
+  }
+  return null;
+}
+
+/**
+ * 返品可能な数量（返品済みを除く）
+ */
+export function returnableQuantity(item: TransactionItem): number {
+  return Math.max(item.quantity - (item.returned_quantity ?? 0), 0);
+}
+
+/**
+ * 返品明細が元取引のどの明細か（インストアバーコードの明細は同じ商品でも別の明細）
+ */
+function isSameLine(item: TransactionItem, line: RefundLine): boolean {
+  return item.prd_id === line.prd_id && item.embedded?.barcode === line.embedded_barcode;
+}
+
+/**
+ * 返品明細を作成
+ * 返金額は明細金額（値引後）の数量按分から、会計値引を同じ比率で差し引いた額
+ * @param transaction 元取引
+ * @param selections 明細のキー（lineKey）→ 返品数量
+ */
+export function buildRefundLines(
+  transaction: TransactionRecord,
+  selections: Record<string, number>
+): RefundLine[] {
+  const itemsTotal = transaction.items.reduce((sum, item) => sum + item.line_amount, 0);
+  const receiptDiscount = transaction.receipt_discount?.amount ?? 0;
+  const ratio = itemsTotal > 0 ? (itemsTotal - receiptDiscount) / itemsTotal : 1;
+
+  return transaction.items
+    .map(item => {
+      const quantity = Math.min(selections[lineKey(item)] ?? 0, returnableQuantity(item));
+      return {
+        prd_id: item.prd_id,
+        prd_code: item.prd_code,
+        embedded_barcode: item.embedded?.barcode,
+        quantity,
+        amount: Math.floor(((item.line_amount * quantity) / item.quantity) * ratio),
+      };
+    })
+    .filter(line => line.quantity > 0);
+}
+
+/**
+ * 取引の全明細（返品済みを除く）を選択
+ */
+export function selectAllReturnable(transaction: TransactionRecord): Record<string, number> {
+  return Object.fromEntries(
+    transaction.items.map(item => [lineKey(item), returnableQuantity(item)])
+  );
+}
+
+/**
+ * 返品・取消の対象（取引と明細）の識別
+ * 対象が同じ間は同じ返品ID（冪等キー）で送信し、結果が分からないまま再送・再承認しても二重に返金しない
+ */
+export function refundTargetKey(kind: "refund" | "void", transactionId: string, lines: RefundLine[]): string {
+  return JSON.stringify([kind, transactionId, lines]);
+}
+
+/**
+ * 返品・取消レシートを作成
+ */
+export function buildRefundReceipt(params: {
+  kind: "refund" | "void";
+  refundId: string;
+  transaction: TransactionRecord;
+  lines: RefundLine[];
+  response: RefundResponse;
+  tender: TenderType;
+  config: TerminalConfig;
+  operator: Operator;
+}): Receipt {
+  const { kind, refundId, transaction, lines, response, tender, config, operator } = params;
+
+  const receiptLines = lines.map(line => {
+    const item = transaction.items.find(i => isSameLine(i, line));
+    return {
+      prd_code: line.prd_code,
+      prd_name: item?.prd_name ?? line.prd_code,
+      quantity: line.quantity,
+      unit_price: item?.prd_price ?? 0,
+      amount: line.amount,
+      reduced: item?.tax_category === "reduced",
+      discounts: [],
+    };
+  });
+
+  const tax = calculateTax(
+    receiptLines.map(line => ({
+      amount: line.amount,
+      tax_category: line.reduced ? "reduced" : "standard",
+    })),
+    getTaxSettings(config)
+  );
+
+  return {
+    kind,
+    original_transaction_no: transaction.transaction_no,
+    transaction_id: refundId,
+    transaction_no: response.refund_no,
+    issued_at: new Date().toISOString(),
+    store: {
+      store_cd: config.store_cd,
+      pos_no: config.pos_no,
+      name: config.store_name,
+      address: config.store_address,
+      phone: config.store_phone,
+      invoice_reg_no: config.invoice_reg_no,
+    },
+    cashier: operator,
+    lines: receiptLines,
+    tax_buckets: tax.buckets,
+    total_amount: response.refund_amount,
+    total_tax: response.refund_amount - response.refund_amount_ex_tax,
+    tenders: [{ type: tender, amount: response.refund_amount }],
+    change_amount: 0,
+    queued: false,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * 売上レポート（X/Zレポート）
+ * 電子ジャーナルの取引を時間帯・税率・支払方法・担当者ごとに集計し、現金在高を照合する
+ * 返品・取消は返金額を差し引いて集計する
+ */
+import { TAX_CATEGORY_LABELS, TAX_RATES } from "@/app/lib/tax";
+import { TENDER_LABELS } from "@/app/lib/tender";
+import type {
+  JournalEntry,
+  SalesReport,
+  SalesReportRow,
+  SalesReportType,
+  TaxBucket,
+  TaxCategory,
+  TenderType,
+} from "@/app/types";
+
+/**
+ * レポートの表示名
+ */
+export const REPORT_TYPE_LABELS: Record<SalesReportType, string> = {
+  X: "Xレポート（中間点検）",
+  Z: "Zレポート（精算）",
+};
+
+const isRefund = (entry: JournalEntry): boolean =>
+  entry.receipt.kind === "refund" || entry.receipt.kind === "void";
+
+/**
+ * 集計行に件数・金額を加算
+ */
+function addToRow(rows: Map<string, SalesReportRow>, key: string, label: string, amount: number): void {
+  const row = rows.get(key) ?? { key, label, count: 0, amount: 0 };
+  row.count += 1;
+  row.amount += amount;
+  rows.set(key, row);
+}
+
+/**
+ * 売上レポートを作成
+ * @param entries 集計対象の取引（Xレポートは未精算の取引）
+ * @param options レポートの種類・端末・現金在高の照合に使う金額
+ */
+export function buildSalesReport(
+  entries: JournalEntry[],
+  options: {
+    type: SalesReportType;
+    z_no?: number;
+    store_cd: string;
+    pos_no: string;
+    opening_float: number;
+    counted: number | null;
+    now?: Date;
+  }
+): SalesReport {
+  const byHour = new Map<string, SalesReportRow>();
+  const byTender = new Map<string, SalesReportRow>();
+  const byOperator = new Map<string, SalesReportRow>();
+  const byTax = new Map<TaxCategory, TaxBucket>();
+
+  let saleCount = 0;
+  let refundCount = 0;
+  let itemCount = 0;
+  let grossSales = 0;
+  let refundTotal = 0;
+  let discountTotal = 0;
+  let queuedCount = 0;
+  let cashSales = 0;
+  let cashRefunds = 0;
+
+  entries.forEach(entry => {
+    const { receipt } = entry;
+    const refund = isRefund(entry);
+    const sign = refund ? -1 : 1;
+    const amount = sign * receipt.total_amount;
+
+    if (refund) {
+      refundCount++;
+      refundTotal += receipt.total_amount;
+    } else {
+      saleCount++;
+      grossSales += receipt.total_amount;
+      discountTotal += receipt.lines.reduce(
+        (sum, line) => sum + line.discounts.reduce((s, d) => s + d.amount, 0),
+        receipt.receipt_discount?.amount ?? 0
+      );
+    }
+    if (receipt.queued) queuedCount++;
+    itemCount += sign * receipt.lines.reduce((sum, line) => sum + line.quantity, 0);
+
+    const hour = String(new Date(receipt.issued_at).getHours()).padStart(2, "0");
+    addToRow(byHour, hour, `${hour}:00〜`, amount);
+
+    const empCd = entry.emp_cd ?? receipt.cashier?.emp_cd ?? "";
+    addToRow(byOperator, empCd, receipt.cashier?.emp_name ?? (empCd || "不明"), amount);
+
+    // お釣りは現金から差し引く（お釣りは現金預りからのみ出すため）
+    const tenderTypes = new Set(receipt.tenders.map(tender => tender.type));
+    tenderTypes.forEach(type => {
+      const paid = receipt.tenders
+        .filter(tender => tender.type === type)
+        .reduce((sum, tender) => sum + tender.amount, 0);
+      const net = type === "cash" ? paid - receipt.change_amount : paid;
+      addToRow(byTender, type, TENDER_LABELS[type], sign * net);
+      if (type === "cash") {
+        if (refund) cashRefunds += net;
+        else cashSales += net;
+      }
+    });
+
+    receipt.tax_buckets.forEach(bucket => {
+      const total = byTax.get(bucket.category) ?? {
+        category: bucket.category,
+        rate: TAX_RATES[bucket.category],
+        total_inc_tax: 0,
+        total_ex_tax: 0,
+        tax: 0,
+      };
+      total.total_inc_tax += sign * bucket.total_inc_tax;
+      total.total_ex_tax += sign * bucket.total_ex_tax;
+      total.tax += sign * bucket.tax;
+      byTax.set(bucket.category, total);
+    });
+  });
+
+  const tenderOrder = Object.keys(TENDER_LABELS) as TenderType[];
+  const taxOrder = Object.keys(TAX_RATES) as TaxCategory[];
+  const expected = options.opening_float + cashSales - cashRefunds;
+  const byKey = (a: SalesReportRow, b: SalesReportRow) => a.key.localeCompare(b.key);
+
+  return {
+    type: options.type,
+    z_no: options.z_no,
+    generated_at: (options.now ?? new Date()).toISOString(),
+    store_cd: options.store_cd,
+    pos_no: options.pos_no,
+    period_from: entries[0]?.receipt.issued_at ?? null,
+    period_to: entries[entries.length - 1]?.receipt.issued_at ?? null,
+    sale_count: saleCount,
+    refund_count: refundCount,
+    item_count: itemCount,
+    gross_sales: grossSales,
+    refund_total: refundTotal,
+    net_sales: grossSales - refundTotal,
+    discount_total: discountTotal,
+    queued_count: queuedCount,
+    by_hour: Array.from(byHour.values()).sort(byKey),
+    by_tax: taxOrder.flatMap(category => byTax.get(category) ?? []),
+    by_tender: tenderOrder.flatMap(type => byTender.get(type) ?? []),
+    by_operator: Array.from(byOperator.values()).sort(byKey),
+    cash: {
+      opening_float: options.opening_float,
+      cash_sales: cashSales,
+      cash_refunds: cashRefunds,
+      expected,
+      counted: options.counted,
+      difference: options.counted === null ? null : options.counted - expected,
+    },
+  };
+}
+
+const formatDateTime = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleString("ja-JP") : "";
+
+/**
+ * CSVの1行（カンマ・引用符・改行を含む値は引用符で囲む）
+ */
+const csvRow = (values: (string | number | null)[]): string =>
+  values
+    .map(value => {
+      const text = value === null ? "" : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+
+/**
+ * 売上レポートをCSVに変換（集計区分ごとに見出し行を挟む）
+ */
+export function reportToCsv(report: SalesReport): string {
+  const rows: (string | number | null)[][] = [
+    ["レポート", REPORT_TYPE_LABELS[report.type]],
+    ...(report.z_no !== undefined ? [["精算番号", report.z_no]] : []),
+    ["店舗", report.store_cd],
+    ["POS", report.pos_no],
+    ["作成日時", formatDateTime(report.generated_at)],
+    ["集計期間", formatDateTime(report.period_from), formatDateTime(report.period_to)],
+    [],
+    ["項目", "件数", "金額"],
+    ["総売上", report.sale_count, report.gross_sales],
+    ["返品・取消", report.refund_count, -report.refund_total],
+    ["純売上", null, report.net_sales],
+    ["値引・販促", null, -report.discount_total],
+    ["販売点数", report.item_count, null],
+    ["オフライン保留", report.queued_count, null],
+    [],
+    ["時間帯", "件数", "金額"],
+    ...report.by_hour.map(row => [row.label, row.count, row.amount]),
+    [],
+    ["税率", "対象額（税込）", "税抜額", "消費税"],
+    ...report.by_tax.map(bucket => [
+      TAX_CATEGORY_LABELS[bucket.category],
+      bucket.total_inc_tax,
+      bucket.total_ex_tax,
+      bucket.tax,
+    ]),
+    [],
+    ["支払方法", "件数", "金額"],
+    ...report.by_tender.map(row => [row.label, row.count, row.amount]),
+    [],
+    ["担当者コード", "担当者", "件数", "金額"],
+    ...report.by_operator.map(row => [row.key, row.label, row.count, row.amount]),
+    [],
+    ["現金在高", "金額"],
+    ["釣銭準備金", report.cash.opening_float],
+    ["現金売上", report.cash.cash_sales],
+    ["現金返金", -report.cash.cash_refunds],
+    ["想定在高", report.cash.expected],
+    ["実査在高", report.cash.counted],
+    ["過不足", report.cash.difference],
+  ];
+
+  return rows.map(csvRow).join("\r\n") + "\r\n";
+}
+
+/**
+ * CSVファイルをダウンロード（Excelで文字化けしないようBOM付きUTF-8）
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * レポートのファイル名（例: Z0003_30_90_20260401.csv）
+ */
+export function reportFilename(report: SalesReport): string {
+  const date = new Date(report.generated_at);
+  const ymd = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, "0")}${String(date.getDate()).padStart(2, "0")}`;
+  const prefix = report.type === "Z" ? `Z${String(report.z_no ?? 0).padStart(4, "0")}` : "X";
+  return `${prefix}_${report.store_cd}_${report.pos_no}_${ymd}.csv`;
+}
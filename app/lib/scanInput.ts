@@ -0,0 +1,79 @@
+/**
+ * キーボードウェッジ型（USB/Bluetooth HID）スキャナーの入力判定
+ * スキャナーは人の入力より極端に短い間隔で文字を送り、最後に終端キーを送る
+ */
+
+export interface ScanDetectorOptions {
+  maxInterKeyMs: number; // スキャナー入力とみなす最大キー間隔
+  minLength: number; // コードの最小桁数
+  terminators: string[]; // 終端キー
+  dedupeMs: number; // 同一コードの重複読取を無視する時間
+}
+
+export const DEFAULT_SCAN_DETECTOR_OPTIONS: ScanDetectorOptions = {
+  maxInterKeyMs: 50,
+  minLength: 6,
+  terminators: ["Enter", "Tab"],
+  dedupeMs: 1000,
+};
+
+/**
+ * スキャン判定器を作成
+ * handleKey にキー入力を順に渡すと、スキャナー入力が完了した時点でコードを返す
+ */
+export function createScanDetector(options: ScanDetectorOptions = DEFAULT_SCAN_DETECTOR_OPTIONS) {
+  let buffer = "";
+  let lastKeyAt = 0;
+  let lastCode: string | null = null;
+  let lastCodeAt = 0;
+
+  const reset = () => {
+    buffer = "";
+  };
+
+  /**
+   * @param key KeyboardEvent.key
+   * @param timestamp 入力時刻（ミリ秒）
+   * @returns 確定したコード、または確定していなければnull
+   */
+  const handleKey = (key: string, timestamp: number): string | null => {
+    const interval = timestamp - lastKeyAt;
+    lastKeyAt = timestamp;
+
+    if (options.terminators.includes(key)) {
+      const code = buffer;
+      reset();
+      // 終端キー自体も速く届いていること（人が入力後にEnterを押した場合を除外）
+      if (code.length < options.minLength || interval > options.maxInterKeyMs) {
+        return null;
+      }
+      if (code === lastCode && timestamp - lastCodeAt < options.dedupeMs) {
+        return null;
+      }
+      lastCode = code;
+      lastCodeAt = timestamp;
+      return code;
+    }
+
+    if (key.length !== 1) {
+      // Shift等の修飾キーは無視
+      return null;
+    }
+
+    // 間隔が空いたら人の入力とみなし、新しい入力として数え直す
+    if (interval > options.maxInterKeyMs) {
+      buffer = key;
+    } else {
+      buffer += key;
+    }
+    return null;
+  };
+
+  /**
+   * 入力途中（スキャナーの連続入力中）か
+   */
+  const isScanning = (timestamp: number): boolean =>
+    buffer.length > 1 && timestamp - lastKeyAt <= options.maxInterKeyMs;
+
+  return { handleKey, isScanning, reset };
+}
@@ -0,0 +1,76 @@
+/**
+ * シフト管理
+ * 担当者のシフト（開始〜終了）と期間中の売上集計を端末に保存する
+ */
+import type { Operator, Shift } from "@/app/types";
+import { createUuid } from "@/app/lib/uuid";
+
+const STORAGE_KEY = "pos-current-shift";
+
+/**
+ * 進行中のシフトを読み込む（リロード後もシフトを継続するため）
+ */
+export function loadShift(): Shift | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Shift) : null;
+  } catch (error) {
+    console.error('[シフト読込エラー]', error);
+    return null;
+  }
+}
+
+function saveShift(shift: Shift | null): void {
+  if (shift) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(shift));
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/**
+ * シフト開始
+ * @param operator 担当者
+ * @param openingFloat 釣銭準備金
+ */
+export function openShift(operator: Operator, openingFloat: number): Shift {
+  const shift: Shift = {
+    shift_id: createUuid(),
+    operator,
+    opened_at: new Date().toISOString(),
+    opening_float: openingFloat,
+    transaction_count: 0,
+    item_count: 0,
+    total_amount: 0,
+  };
+  saveShift(shift);
+  console.log(`[シフト開始] ${operator.emp_cd}`);
+  return shift;
+}
+
+/**
+ * シフトに売上を計上
+ */
+export function recordShiftSale(shift: Shift, amount: number, itemCount: number): Shift {
+  const updated: Shift = {
+    ...shift,
+    transaction_count: shift.transaction_count + 1,
+    item_count: shift.item_count + itemCount,
+    total_amount: shift.total_amount + amount,
+  };
+  saveShift(updated);
+  return updated;
+}
+
+/**
+ * シフト終了
+ * @returns 終了時刻を記録した最終集計
+ */
+export function closeShift(shift: Shift): Shift {
+  const closed: Shift = { ...shift, closed_at: new Date().toISOString() };
+  saveShift(null);
+  console.log(`[シフト終了] ${shift.operator.emp_cd} ${shift.transaction_count}件`);
+  return closed;
+}
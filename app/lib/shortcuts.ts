@@ -0,0 +1,100 @@
+/**
+ * レジ画面のキーボード操作
+ * テンキーでの数量・商品コード入力、明細の選択・取消、会計をキーボードだけで行う
+ */
+
+/**
+ * キー操作で実行するコマンド
+ */
+export type ShortcutCommand =
+  | { type: "digit"; digit: string }
+  | { type: "multiply" } // 入力中の数字を次に登録する商品の数量にする（「3 ×」→ スキャン）
+  | { type: "enter" } // 入力中の数字を商品コードとして登録
+  | { type: "backspace" }
+  | { type: "clear" }
+  | { type: "select"; delta: 1 | -1 }
+  | { type: "increase" }
+  | { type: "decrease" }
+  | { type: "void" }
+  | { type: "checkout" }
+  | { type: "price_check" }
+  | { type: "hold" }
+  | { type: "member" };
+
+/**
+ * 「数量 ×」で指定できる数量の上限
+ */
+export const MAX_QUANTITY_INPUT = 99;
+
+/**
+ * テンキー入力の最大桁数（JANコード13桁）
+ */
+export const MAX_KEYPAD_DIGITS = 13;
+
+/**
+ * ショートカットの一覧（画面表示用）
+ */
+export const SHORTCUT_HELP: { keys: string; label: string }[] = [
+  { keys: "数字 → Enter", label: "商品コードで登録" },
+  { keys: "数字 → ×（*）", label: "次に登録する商品の数量" },
+  { keys: "↑ / ↓", label: "明細を選択" },
+  { keys: "+ / −", label: "選択した明細の数量を増減" },
+  { keys: "Delete", label: "選択した明細を取消" },
+  { keys: "Esc", label: "入力をクリア" },
+  { keys: "F2", label: "価格照会" },
+  { keys: "F3", label: "会員カード" },
+  { keys: "F4", label: "お会計" },
+  { keys: "F8", label: "保留" },
+];
+
+const KEY_COMMANDS: Record<string, ShortcutCommand> = {
+  "*": { type: "multiply" },
+  x: { type: "multiply" },
+  X: { type: "multiply" },
+  Enter: { type: "enter" },
+  Backspace: { type: "backspace" },
+  Escape: { type: "clear" },
+  ArrowUp: { type: "select", delta: -1 },
+  ArrowDown: { type: "select", delta: 1 },
+  "+": { type: "increase" },
+  "-": { type: "decrease" },
+  Delete: { type: "void" },
+  F2: { type: "price_check" },
+  F3: { type: "member" },
+  F4: { type: "checkout" },
+  F8: { type: "hold" },
+};
+
+/**
+ * キー入力に対応するコマンド（Ctrl・Alt・Command との組み合わせはブラウザの操作として扱う）
+ */
+export function resolveShortcut(
+  event: Pick<KeyboardEvent, "key" | "ctrlKey" | "altKey" | "metaKey">
+): ShortcutCommand | null {
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+  if (/^\d$/.test(event.key)) return { type: "digit", digit: event.key };
+  return KEY_COMMANDS[event.key] ?? null;
+}
+
+/**
+ * 「数量 ×」の数量を解釈
+ * @returns 数量（1〜上限の整数でなければnull）
+ */
+export function parseQuantityInput(input: string): number | null {
+  if (!/^\d+$/.test(input)) return null;
+  const quantity = Number(input);
+  return quantity >= 1 && quantity <= MAX_QUANTITY_INPUT ? quantity : null;
+}
+
+/**
+ * 明細の選択を移動（端で止まる。未選択なら下へは先頭、上へは末尾を選ぶ）
+ * @param keys 明細のキー（表示順）
+ * @param current 選択中の明細のキー
+ */
+export function moveSelection(keys: string[], current: string | null, delta: 1 | -1): string | null {
+  if (keys.length === 0) return null;
+
+  const index = current === null ? -1 : keys.indexOf(current);
+  if (index < 0) return delta > 0 ? keys[0] : keys[keys.length - 1];
+  return keys[Math.min(Math.max(index + delta, 0), keys.length - 1)];
+}
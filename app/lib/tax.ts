@@ -0,0 +1,138 @@
+/**
+ * 消費税計算
+ * 標準税率（10%）・軽減税率（8%）の税率ごとに集計し、端数処理を設定で切り替える
+ * 商品価格はすべて税込で扱う（内税）
+ */
+import type {
+  TaxCategory,
+  TaxSettings,
+  TaxBucket,
+  TaxSummary,
+  TerminalConfig,
+} from "@/app/types";
+
+/**
+ * 税区分ごとの税率
+ */
+export const TAX_RATES: Record<TaxCategory, number> = {
+  standard: 0.1,
+  reduced: 0.08,
+};
+
+/**
+ * 税区分の表示名
+ */
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  standard: "10%",
+  reduced: "8%（軽減）",
+};
+
+/**
+ * 端数処理の既定値（インボイス制度: 税率ごとに1レシート1回の切り捨て）
+ */
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  rounding: "floor",
+  unit: "receipt",
+};
+
+/**
+ * 端末設定から端数処理設定を取得（未設定項目は既定値）
+ */
+export function getTaxSettings(config: TerminalConfig | null): TaxSettings {
+  return {
+    rounding: config?.tax_rounding ?? DEFAULT_TAX_SETTINGS.rounding,
+    unit: config?.tax_rounding_unit ?? DEFAULT_TAX_SETTINGS.unit,
+  };
+}
+
+/**
+ * 端数処理
+ */
+export function roundAmount(value: number, mode: TaxSettings["rounding"]): number {
+  // 浮動小数点誤差で 99.99999 のような値が切り捨てられないよう補正
+  const corrected = Math.round(value * 1e6) / 1e6;
+  switch (mode) {
+    case "ceil":
+      return Math.ceil(corrected);
+    case "round":
+      return Math.round(corrected);
+    default:
+      return Math.floor(corrected);
+  }
+}
+
+/**
+ * 税込金額に含まれる消費税額（端数処理前）
+ */
+const includedTax = (amountIncTax: number, rate: number): number =>
+  (amountIncTax * rate) / (1 + rate);
+
+/**
+ * 課税対象の明細（税込の明細金額と税区分）
+ */
+export interface TaxableLine {
+  amount: number;
+  tax_category?: TaxCategory;
+}
+
+/**
+ * 税率ごとの集計
+ * @param lines 明細（値引き後の税込金額）
+ * @param settings 端数処理設定
+ */
+export function calculateTax(lines: TaxableLine[], settings: TaxSettings): TaxSummary {
+  const categories = Object.keys(TAX_RATES) as TaxCategory[];
+
+  const buckets: TaxBucket[] = categories
+    .map(category => {
+      const rate = TAX_RATES[category];
+      const bucketLines = lines.filter(line => (line.tax_category ?? "standard") === category);
+      const totalIncTax = bucketLines.reduce((sum, line) => sum + line.amount, 0);
+
+      const tax = settings.unit === "line"
+        ? bucketLines.reduce(
+            (sum, line) => sum + roundAmount(includedTax(line.amount, rate), settings.rounding),
+            0
+          )
+        : roundAmount(includedTax(totalIncTax, rate), settings.rounding);
+
+      return {
+        category,
+        rate,
+        total_inc_tax: totalIncTax,
+        total_ex_tax: totalIncTax - tax,
+        tax,
+      };
+    })
+    .filter(bucket => bucket.total_inc_tax !== 0);
+
+  const total_amount = buckets.reduce((sum, b) => sum + b.total_inc_tax, 0);
+  const total_tax = buckets.reduce((sum, b) => sum + b.tax, 0);
+
+  return {
+    buckets,
+    total_amount,
+    total_amount_ex_tax: total_amount - total_tax,
+    total_tax,
+  };
+}
+
+/**
+ * サーバー計算結果との照合
+ * @returns 不一致の場合は差額の説明、一致の場合はnull
+ */
+export function findTotalsMismatch(
+  summary: TaxSummary,
+  response: { total_amount: number; total_amount_ex_tax: number }
+): string | null {
+  const diffs: string[] = [];
+
+  if (summary.total_amount !== response.total_amount) {
+    diffs.push(`税込: 端末 ${summary.total_amount}円 / サーバー ${response.total_amount}円`);
+  }
+  if (summary.total_amount_ex_tax !== response.total_amount_ex_tax) {
+    diffs.push(`税抜: 端末 ${summary.total_amount_ex_tax}円 / サーバー ${response.total_amount_ex_tax}円`);
+  }
+
+  return diffs.length > 0 ? diffs.join(", ") : null;
+}
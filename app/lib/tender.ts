@@ -0,0 +1,99 @@
+/**
+ * 支払（預り）計算
+ * 複数の支払方法の合算と、現金預りからのお釣りを求める
+ */
+import type { Tender, TenderType } from "@/app/types";
+
+/**
+ * 支払方法の表示名
+ */
+export const TENDER_LABELS: Record<TenderType, string> = {
+  cash: "現金",
+  qr: "QR決済",
+  card: "クレジット",
+  points: "ポイント",
+};
+
+/**
+ * 支払状況
+ */
+export interface TenderStatus {
+  paid: number; // 預り合計
+  remaining: number; // 不足額
+  change: number; // お釣り
+}
+
+/**
+ * 支払状況を計算
+ * お釣りは現金預りからのみ出す（キャッシュレス決済は不足額までしか受け付けない）
+ */
+export function getTenderStatus(total: number, tenders: Tender[]): TenderStatus {
+  const paid = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  const cashPaid = tenders
+    .filter(tender => tender.type === "cash")
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  const over = Math.max(paid - total, 0);
+
+  return {
+    paid,
+    remaining: Math.max(total - paid, 0),
+    change: Math.min(over, cashPaid),
+  };
+}
+
+/**
+ * ポイント利用の合計（1ポイント = 1円）
+ */
+export function redeemedPoints(tenders: Tender[]): number {
+  return tenders
+    .filter(tender => tender.type === "points")
+    .reduce((sum, tender) => sum + tender.amount, 0);
+}
+
+/**
+ * 支払を追加できるか検証
+ * @param pointBalance 会員のポイント残高（ポイント利用時）
+ * @returns エラーメッセージ（問題なければnull）
+ */
+export function validateTender(
+  total: number,
+  tenders: Tender[],
+  tender: Tender,
+  pointBalance = 0
+): string | null {
+  if (!Number.isInteger(tender.amount) || tender.amount <= 0) {
+    return "金額を入力してください";
+  }
+
+  const { remaining } = getTenderStatus(total, tenders);
+  if (remaining === 0) {
+    return "すでに支払が完了しています";
+  }
+  if (tender.type !== "cash" && tender.amount > remaining) {
+    return `${TENDER_LABELS[tender.type]}は不足額（${remaining.toLocaleString()}円）以内で入力してください`;
+  }
+  if (tender.type === "points") {
+    const available = pointBalance - redeemedPoints(tenders);
+    if (tender.amount > available) {
+      return `ポイントは残高（${available.toLocaleString()}ポイント）以内で入力してください`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 現金のクイック金額候補（ちょうど・切り上げ・紙幣）
+ */
+export function quickCashAmounts(remaining: number): number[] {
+  if (remaining <= 0) return [];
+
+  const candidates = [
+    remaining,
+    Math.ceil(remaining / 100) * 100,
+    Math.ceil(remaining / 1000) * 1000,
+    ...[1000, 5000, 10000].filter(bill => bill >= remaining),
+  ];
+
+  return Array.from(new Set(candidates)).sort((a, b) => a - b).slice(0, 5);
+}
@@ -0,0 +1,88 @@
+/**
+ * 端末設定
+ * 店舗コード・POS番号・API URLを端末（localStorage）に保存する
+ */
+import { validateBarcodeRules } from "@/app/lib/barcode";
+import { validateHotkeys } from "@/app/lib/hotkeys";
+import type { TerminalConfig } from "@/app/types";
+
+const STORAGE_KEY = "pos-terminal-config";
+
+/**
+ * 保存済みの端末設定を読み込む
+ * @returns 端末設定（未設定・SSR時はnull）
+ */
+export function loadTerminalConfig(): TerminalConfig | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TerminalConfig) : null;
+  } catch (error) {
+    console.error('[端末設定読込エラー]', error);
+    return null;
+  }
+}
+
+/**
+ * 端末設定を保存
+ */
+export function saveTerminalConfig(config: TerminalConfig): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  console.log(`[端末設定] 店舗: ${config.store_cd} / POS: ${config.pos_no}`);
+}
+
+/**
+ * API URLの正規化（プロトコル補完・末尾スラッシュ除去）
+ */
+export function normalizeApiUrl(raw: string): string {
+  const trimmed = raw.trim();
+  const withProto = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  return withProto.replace(/\/+$/, "");
+}
+
+/**
+ * 端末設定の入力チェック
+ * @returns 項目ごとのエラーメッセージ（問題なければ空オブジェクト）
+ */
+export function validateTerminalConfig(
+  config: TerminalConfig
+): Partial<Record<keyof TerminalConfig, string>> {
+  const errors: Partial<Record<keyof TerminalConfig, string>> = {};
+
+  if (!/^\d{1,10}$/.test(config.store_cd)) {
+    errors.store_cd = "店舗コードは数字で入力してください";
+  }
+  if (!/^\d{1,3}$/.test(config.pos_no)) {
+    errors.pos_no = "POS番号は3桁以内の数字で入力してください";
+  }
+  if (!config.api_url.trim()) {
+    errors.api_url = "API URLを入力してください";
+  } else {
+    try {
+      new URL(normalizeApiUrl(config.api_url));
+    } catch {
+      errors.api_url = "API URLの形式が正しくありません";
+    }
+  }
+  if (config.invoice_reg_no && !/^T\d{13}$/.test(config.invoice_reg_no)) {
+    errors.invoice_reg_no = "登録番号はTと13桁の数字で入力してください";
+  }
+  if (!/^\d{4,8}$/.test(config.settings_pin)) {
+    errors.settings_pin = "設定PINは4〜8桁の数字で入力してください";
+  }
+  if (config.barcode_rules) {
+    const rulesError = validateBarcodeRules(config.barcode_rules);
+    if (rulesError) {
+      errors.barcode_rules = rulesError;
+    }
+  }
+  if (config.hotkeys) {
+    const hotkeysError = validateHotkeys(config.hotkeys);
+    if (hotkeysError) {
+      errors.hotkeys = hotkeysError;
+    }
+  }
+
+  return errors;
+}
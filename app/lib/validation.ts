@@ -0,0 +1,138 @@
+/**
+ * 実行時の型検証
+ * APIレスポンスを app/types の型と照合するためのスキーマ
+ * object() のプロパティ定義は型から導出するため、型とスキーマの食い違いはコンパイル時に検出される
+ */
+import { ValidationError } from "@/app/lib/errors";
+
+/**
+ * スキーマ（値を検証し、型付きの値を返す）
+ */
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => T;
+}
+
+const describe = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new ValidationError(
+    `レスポンスの形式が正しくありません（${path || "(root)"}: ${expected}が必要ですが${describe(value)}でした）`,
+    path
+  );
+};
+
+/**
+ * オブジェクトの各プロパティのスキーマ
+ */
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * 文字列
+ */
+export function string(): Schema<string> {
+  return {
+    parse: (value, path = "") => (typeof value === "string" ? value : fail(path, "文字列", value)),
+  };
+}
+
+/**
+ * 数値（NaN・Infinityは不可）
+ */
+export function number(): Schema<number> {
+  return {
+    parse: (value, path = "") =>
+      typeof value === "number" && Number.isFinite(value) ? value : fail(path, "数値", value),
+  };
+}
+
+/**
+ * 整数（金額・数量）
+ */
+export function integer(): Schema<number> {
+  return {
+    parse: (value, path = "") =>
+      typeof value === "number" && Number.isInteger(value) ? value : fail(path, "整数", value),
+  };
+}
+
+/**
+ * 真偽値
+ */
+export function boolean(): Schema<boolean> {
+  return {
+    parse: (value, path = "") => (typeof value === "boolean" ? value : fail(path, "真偽値", value)),
+  };
+}
+
+/**
+ * 列挙値（文字列リテラルのいずれか）
+ */
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return {
+    parse: (value, path = "") =>
+      values.includes(value as T) ? (value as T) : fail(path, values.join("|"), value),
+  };
+}
+
+/**
+ * 未指定可（undefined・null は undefined として扱う）
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse: (value, path = "") => (value === undefined || value === null ? undefined : schema.parse(value, path)),
+  };
+}
+
+/**
+ * null可
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse: (value, path = "") => (value === null || value === undefined ? null : schema.parse(value, path)),
+  };
+}
+
+/**
+ * 配列
+ */
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return {
+    parse: (value, path = "") =>
+      Array.isArray(value)
+        ? value.map((item, index) => schema.parse(item, `${path}[${index}]`))
+        : fail(path, "配列", value),
+  };
+}
+
+/**
+ * オブジェクト
+ * 定義外のプロパティはそのまま残す（サーバー側の項目追加で失敗しないため）
+ */
+export function object<T extends object>(shape: Shape<T>): Schema<T> {
+  return {
+    parse: (value, path = "") => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(path, "オブジェクト", value);
+      }
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...record };
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const parsed = shape[key].parse(record[key], path ? `${path}.${key}` : key);
+        if (parsed === undefined) {
+          delete result[key];
+        } else {
+          result[key] = parsed;
+        }
+      }
+      return result as T;
+    },
+  };
+}
+
+/**
+ * 検証しない（本文を使わないレスポンス用）
+ */
+export function unknown(): Schema<unknown> {
+  return { parse: value => value };
+}
@@ -1,156 +1,1020 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
 import BarcodeScanner from '@/app/components/BarcodeScanner';
 import Notification from '@/app/components/Notification';
-import { searchProduct, purchaseItems } from '@/app/lib/api';
-import type { Product, PurchaseItem, PurchaseRequest } from '@/app/types';
+import LoginScreen from '@/app/components/LoginScreen';
+import ShiftSummary from '@/app/components/ShiftSummary';
+import DiscountDialog from '@/app/components/DiscountDialog';
+import CartItem from '@/app/components/CartItem';
+import TenderScreen from '@/app/components/TenderScreen';
+import CompletionScreen from '@/app/components/CompletionScreen';
+import ReceiptView from '@/app/components/ReceiptView';
+import ManualEntryPanel from '@/app/components/ManualEntryPanel';
+import HeldCartsDialog from '@/app/components/HeldCartsDialog';
+import FailedSalesDialog from '@/app/components/FailedSalesDialog';
+import ConfirmDialog from '@/app/components/ConfirmDialog';
+import AgeVerificationDialog from '@/app/components/AgeVerificationDialog';
+import MemberDialog from '@/app/components/MemberDialog';
+import ConnectionIndicator from '@/app/components/ConnectionIndicator';
+import PriceOverrideDialog from '@/app/components/PriceOverrideDialog';
+import PriceCheckDialog from '@/app/components/PriceCheckDialog';
+import SupervisorApproval from '@/app/components/SupervisorApproval';
+import HotkeyGrid from '@/app/components/HotkeyGrid';
+import NumericKeypad from '@/app/components/NumericKeypad';
+import { useSession } from '@/app/components/SessionProvider';
+import {
+  searchProduct,
+  purchaseItems,
+  fetchPromotions,
+  uploadReceipt,
+  shareHeldCart,
+  claimHeldCart,
+  createTransactionId,
+  isRetryable,
+} from '@/app/lib/api';
+import { NetworkError, TimeoutError } from '@/app/lib/errors';
+import { useOutbox } from '@/app/hooks/useOutbox';
+import { usePendingAuditLogs } from '@/app/hooks/usePendingAuditLogs';
+import { useTerminalConfig } from '@/app/hooks/useTerminalConfig';
+import { useHidScanner } from '@/app/hooks/useHidScanner';
+import { useCustomerDisplay } from '@/app/hooks/useCustomerDisplay';
+import { useConnectionMonitor } from '@/app/hooks/useConnectionMonitor';
+import { useKeyboardShortcuts } from '@/app/hooks/useKeyboardShortcuts';
+import { calculateTax, getTaxSettings, findTotalsMismatch, TAX_CATEGORY_LABELS } from '@/app/lib/tax';
+import { priceCart, toTaxableLines, lineKey } from '@/app/lib/pricing';
+import {
+  addToCart,
+  increaseQuantity,
+  decreaseQuantity,
+  removeFromCart,
+  setLineDiscount,
+  overridePrice,
+  countItems,
+  buildPurchaseRequest,
+  purchaseFingerprint,
+} from '@/app/lib/cart';
+import { parseBarcode, getBarcodeRules, resolveEmbeddedValue } from '@/app/lib/barcode';
+import { buildReceipt, saveLastReceipt, loadLastReceipt } from '@/app/lib/receipt';
+import { recordProductUse } from '@/app/lib/productHistory';
+import { recordJournal } from '@/app/lib/journal';
+import { maskMemberId, toReceiptMember } from '@/app/lib/loyalty';
+import { createAuditEntry, snapshotItem } from '@/app/lib/audit';
+import { discountRequiresApproval, hasRole, lineVoidRequiresApproval } from '@/app/lib/permissions';
+import { checkPurchaseLimit, requiresAgeVerification } from '@/app/lib/restrictions';
+import {
+  saveActiveCart,
+  loadActiveCart,
+  loadHeldCarts,
+  addHeldCart,
+  removeHeldCart,
+  markHeldCartShared,
+} from '@/app/lib/cartStore';
+import {
+  moveSelection,
+  parseQuantityInput,
+  MAX_KEYPAD_DIGITS,
+  MAX_QUANTITY_INPUT,
+  SHORTCUT_HELP,
+} from '@/app/lib/shortcuts';
+import type { ShortcutCommand } from '@/app/lib/shortcuts';
+import { createUuid } from '@/app/lib/uuid';
+import { buildDisplayState } from '@/app/lib/customerDisplay';
+import type {
+  AgeVerification,
+  AgeVerificationMethod,
+  AuditEntry,
+  CompletedSale,
+  EmbeddedBarcodeValue,
+  HeldCart,
+  HotkeyItem,
+  ManualDiscount,
+  Member,
+  Operator,
+  OutboxEntry,
+  PendingPurchase,
+  PricedCart,
+  Product,
+  Promotion,
+  PurchaseItem,
+  PurchaseResponse,
+  Receipt,
+  Shift,
+  TaxSummary,
+  Tender,
+} from '@/app/types';
 
-// 税率定数
-const TAX_RATE = 0.1; // 10%
+const EMPTY_CART: PricedCart = {
+  lines: [],
+  subtotal: 0,
+  total: 0,
+};
 
-// 税抜価格を計算する関数
-const calculateExTaxPrice = (priceIncTax: number): number => {
-  return Math.floor(priceIncTax / (1 + TAX_RATE));
+const EMPTY_TAX_SUMMARY: TaxSummary = {
+  buckets: [],
+  total_amount: 0,
+  total_amount_ex_tax: 0,
+  total_tax: 0,
 };
 
+// 商品追加の通知（2点以上まとめて追加した場合は点数も表示）
+function addedMessage(product: Product, quantity: number): string {
+  return quantity > 1
+    ? `「${product.prd_name}」を${quantity}点追加しました`
+    : `「${product.prd_name}」を追加しました`;
+}
+
 export default function PosPage() {
   const [purchaseList, setPurchaseList] = useState<PurchaseItem[]>([]);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
+  // 連続スキャン（読取後もカメラを開いたまま続けて追加する）
+  const [isContinuousScan, setIsContinuousScan] = useState(false);
+  const [lastScanned, setLastScanned] = useState<Product | null>(null);
+  const [isManualEntryOpen, setIsManualEntryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
-  const [totalAmount, setTotalAmount] = useState(0);
-  const [totalAmountExTax, setTotalAmountExTax] = useState(0);
+  const [pricedCart, setPricedCart] = useState<PricedCart>(EMPTY_CART);
+  const [taxSummary, setTaxSummary] = useState<TaxSummary>(EMPTY_TAX_SUMMARY);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [receiptDiscount, setReceiptDiscount] = useState<ManualDiscount | null>(null);
+  // 値引ダイアログの対象（'receipt' は会計値引、それ以外は明細のキー）
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [isTenderOpen, setIsTenderOpen] = useState(false);
+  // 送信結果が分からない購入の取引ID（同じ内容で再送する場合のみ同じIDを使う）
+  const [pendingPurchase, setPendingPurchase] = useState<PendingPurchase | null>(null);
+  const [completedSale, setCompletedSale] = useState<CompletedSale | null>(null);
+  const [lastReceipt, setLastReceipt] = useState<Receipt | null>(null);
+  const [receiptPreview, setReceiptPreview] = useState<{ receipt: Receipt; reprint: boolean } | null>(null);
+  const {
+    pendingCount,
+    failedCount,
+    failedEntries,
+    isFlushing,
+    enqueue,
+    flush,
+    retryFailed,
+    discardFailed,
+  } = useOutbox();
+  const [isFailedSalesOpen, setIsFailedSalesOpen] = useState(false);
+  // オフライン保留になる会計の確認
+  const [isOfflineCheckoutConfirmOpen, setIsOfflineCheckoutConfirmOpen] = useState(false);
+  const {
+    pendingCount: pendingAuditCount,
+    isSending: isSendingAudit,
+    submit: submitAuditLogs,
+    retry: retryAuditLogs,
+  } = usePendingAuditLogs();
+  const { config: terminalConfig, isLoaded: isConfigLoaded } = useTerminalConfig();
+  const { status: connection, check: checkConnection } = useConnectionMonitor(Boolean(terminalConfig));
+  const { operator, isLocked, isLoaded: isSessionLoaded, lock, recordSale, endShift } = useSession();
+  const [shiftSummary, setShiftSummary] = useState<Shift | null>(null);
+  // 保存済みの購入リストを復元するまでは保存しない（空のリストで上書きしないため）
+  const [isCartRestored, setIsCartRestored] = useState(false);
+  const [isHoldsOpen, setIsHoldsOpen] = useState(false);
+  const [heldCount, setHeldCount] = useState(0);
+  // お支払い中の支払（お客様用画面に反映）
+  const [pendingTenders, setPendingTenders] = useState<Tender[]>([]);
+  // 会計ごとの年齢確認（確認済みなら同じお客様の酒類・たばこは再確認しない）
+  const [ageVerification, setAgeVerification] = useState<AgeVerification | null>(null);
+  // 年齢確認待ちの商品（add: 確認後に購入リストへ追加するか）
+  const [ageCheck, setAgeCheck] = useState<{
+    product: Product;
+    embedded?: EmbeddedBarcodeValue;
+    quantity: number;
+    add: boolean;
+  } | null>(null);
+  // 会計に登録した会員（ポイントカード）
+  const [member, setMember] = useState<Member | null>(null);
+  const [isMemberOpen, setIsMemberOpen] = useState(false);
+  // 売価変更ダイアログの対象（明細のキー）
+  const [priceOverrideTarget, setPriceOverrideTarget] = useState<string | null>(null);
+  // 責任者の承認待ちの操作（承認後に run を実行）
+  const [approvalRequest, setApprovalRequest] = useState<{
+    title: string;
+    description: string;
+    run: (approver: Operator | null) => void;
+  } | null>(null);
+  // 会計中の取消・売価変更・値引の監査ログ（取引と一緒に送信）
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [isPriceCheckOpen, setIsPriceCheckOpen] = useState(false);
+  // テンキーの入力中の数字と「数量 ×」で指定した次の商品の数量
+  const [keypadInput, setKeypadInput] = useState('');
+  const [pendingQuantity, setPendingQuantity] = useState<number | null>(null);
+  // キーボード操作で選択中の明細（明細のキー）
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
 
-  // 合計金額の計算
+  // 再印刷用に直前のレシートを復元
   useEffect(() => {
-    const newTotal = purchaseList.reduce(
-      (sum, item) => sum + item.prd_price * item.quantity, 
-      0
-    );
-    const newTotalExTax = purchaseList.reduce(
-      (sum, item) => sum + calculateExTaxPrice(item.prd_price) * item.quantity,
-      0
-    );
-    setTotalAmount(newTotal);
-    setTotalAmountExTax(newTotalExTax);
-  }, [purchaseList]);
+    setLastReceipt(loadLastReceipt());
+  }, []);
+
+  // リロード・タブの再起動前の購入リストを復元
+  useEffect(() => {
+    const saved = loadActiveCart();
+    if (saved) {
+      setPurchaseList(saved.items);
+      setReceiptDiscount(saved.receipt_discount);
+      setAgeVerification(saved.age_verification ?? null);
+      setMember(saved.member ?? null);
+      setAuditLog(saved.audit_log ?? []);
+      setPendingPurchase(saved.pending_purchase ?? null);
+    }
+    setHeldCount(loadHeldCarts().length);
+    setIsCartRestored(true);
+  }, []);
+
+  // 購入リストの変更を端末に保存
+  useEffect(() => {
+    if (!isCartRestored) return;
+    saveActiveCart(purchaseList, receiptDiscount, ageVerification, member, auditLog, pendingPurchase);
+  }, [isCartRestored, purchaseList, receiptDiscount, ageVerification, member, auditLog, pendingPurchase]);
+
+  // 購入リストが空になったら（購入完了・取引中止・保留）送信結果が分からない購入の取引IDは使わない
+  useEffect(() => {
+    if (isCartRestored && purchaseList.length === 0) setPendingPurchase(null);
+  }, [isCartRestored, purchaseList]);
+
+  // 購入せずに購入リストが空になった取引（取引中止・全明細の取消）の監査ログは単独で送信
+  useEffect(() => {
+    if (!isCartRestored || purchaseList.length > 0 || auditLog.length === 0 || !terminalConfig) return;
+
+    submitAuditLogs({
+      transaction_id: createTransactionId(),
+      store_cd: terminalConfig.store_cd,
+      pos_no: terminalConfig.pos_no,
+      entries: auditLog,
+    });
+    setAuditLog([]);
+  }, [isCartRestored, purchaseList, auditLog, terminalConfig, submitAuditLogs]);
+
+  // お客様用画面の表示内容（会計完了 → お支払い中 → 商品登録中 → 待機中の順に優先）
+  const displayState = useMemo(() => {
+    const storeName = terminalConfig?.store_name;
+    if (completedSale) {
+      return buildDisplayState('complete', completedSale.cart, completedSale.tax, completedSale.tenders, storeName);
+    }
+    if (!operator || isLocked || purchaseList.length === 0) {
+      return buildDisplayState('idle', EMPTY_CART, EMPTY_TAX_SUMMARY, [], storeName);
+    }
+    return isTenderOpen
+      ? buildDisplayState('tender', pricedCart, taxSummary, pendingTenders, storeName)
+      : buildDisplayState('cart', pricedCart, taxSummary, [], storeName);
+  }, [completedSale, operator, isLocked, purchaseList, isTenderOpen, pricedCart, taxSummary, pendingTenders, terminalConfig]);
+  useCustomerDisplay(displayState, terminalConfig);
+
+  // 販促ルールの取得（取得できない場合は販促なしで販売を継続）
+  useEffect(() => {
+    fetchPromotions()
+      .then(setPromotions)
+      .catch(() => setPromotions([]));
+  }, []);
+
+  // 合計金額の計算（値引・販促の適用後に税率ごとに集計）
+  useEffect(() => {
+    const cart = priceCart(purchaseList, promotions, receiptDiscount);
+    setPricedCart(cart);
+    setTaxSummary(calculateTax(toTaxableLines(cart), getTaxSettings(terminalConfig)));
+  }, [purchaseList, promotions, receiptDiscount, terminalConfig]);
 
   const showNotification = useCallback((message: string, type: 'success' | 'error') => {
     setNotification({ message, type });
   }, []);
 
+  // 承認が必要な操作は責任者の承認後に実行する（承認が不要なら承認者なしで即時実行）
+  const withApproval = useCallback((
+    required: boolean,
+    title: string,
+    description: string,
+    run: (approver: Operator | null) => void
+  ) => {
+    if (!required) {
+      run(null);
+      return;
+    }
+    setApprovalRequest({ title, description, run });
+  }, []);
+
+  const handleApproved = useCallback((approver: Operator) => {
+    const request = approvalRequest;
+    setApprovalRequest(null);
+    request?.run(approver);
+  }, [approvalRequest]);
+
+  // 監査ログに記録
+  const recordAudit = useCallback((params: Omit<Parameters<typeof createAuditEntry>[0], 'operator'>) => {
+    if (!operator) return;
+    const entry = createAuditEntry({ ...params, operator });
+    setAuditLog(prevLog => [...prevLog, entry]);
+  }, [operator]);
+
+  // 購入リストに商品を追加（同じ商品は数量を加算）
+  // インストアバーコードの商品は埋込値から求めた価格で追加する
+  // 販売停止中の商品・購入点数の上限を超える場合は追加せず、年齢確認が済んでいない酒類・たばこは確認後に追加する
+  // テンキーで「数量 ×」を指定していればその数量で追加する
+  // @returns 購入リストに追加したか
+  const addProduct = useCallback((product: Product, embedded?: EmbeddedBarcodeValue): boolean => {
+    const quantity = pendingQuantity ?? 1;
+    setPendingQuantity(null);
+
+    if (product.is_active === false) {
+      showNotification(`「${product.prd_name}」は販売停止中です。店員にお声掛けください`, 'error');
+      return false;
+    }
+
+    const limitError = checkPurchaseLimit(purchaseList, product, quantity);
+    if (limitError) {
+      showNotification(limitError, 'error');
+      return false;
+    }
+    if (requiresAgeVerification(product) && !ageVerification) {
+      setIsScannerOpen(false);
+      setAgeCheck({ product, embedded, quantity, add: true });
+      return false;
+    }
+
+    showNotification(addedMessage(product, quantity), 'success');
+    // インストアバーコードの商品はマスタ価格（0円・100gあたり）のため、最近・よく使う商品に載せない
+    if (!embedded) {
+      recordProductUse(product);
+      setHistoryVersion(v => v + 1);
+    }
+
+    setPurchaseList(prevList => addToCart(prevList, product, embedded, quantity));
+    setSelectedKey(lineKey({ ...product, embedded, quantity }));
+    return true;
+  }, [purchaseList, pendingQuantity, ageVerification, showNotification]);
+
+  // 年齢確認の完了（確認した担当者を記録し、待っていた商品を追加）
+  const handleAgeVerified = useCallback((method: AgeVerificationMethod) => {
+    if (!ageCheck || !operator) return;
+
+    const verification: AgeVerification = {
+      method,
+      verified_by: operator.emp_cd,
+      verified_at: new Date().toISOString(),
+    };
+    console.log(`[年齢確認] ${operator.emp_cd}: ${ageCheck.product.prd_code}（${method}）`);
+    setAgeVerification(verification);
+    setAgeCheck(null);
+
+    if (ageCheck.add) {
+      const { product, embedded, quantity } = ageCheck;
+      showNotification(addedMessage(product, quantity), 'success');
+      if (!embedded) {
+        recordProductUse(product);
+        setHistoryVersion(v => v + 1);
+      }
+      setPurchaseList(prevList => addToCart(prevList, product, embedded, quantity));
+      setSelectedKey(lineKey({ ...product, embedded, quantity }));
+    }
+  }, [ageCheck, operator, showNotification]);
+
+  const handleAgeCheckCancel = useCallback(() => {
+    if (ageCheck?.add) {
+      showNotification(`年齢確認ができないため「${ageCheck.product.prd_name}」は販売できません`, 'error');
+    }
+    setAgeCheck(null);
+  }, [ageCheck, showNotification]);
+
   // バーコードスキャン処理（スキャンと同時にリストに追加）
-  const handleScan = useCallback(async (result: string) => {
-    setIsScannerOpen(false);
+  // @returns 商品を追加できたか（連続スキャン時の成功・失敗音に使う）
+  const handleScan = useCallback(async (result: string): Promise<boolean> => {
+    if (!isContinuousScan) {
+      setIsScannerOpen(false);
+    }
     
     if (!result || result.trim() === '') {
       showNotification('バーコードを読み取れませんでした', 'error');
-      return;
+      return false;
+    }
+
+    // チェックデジット・インストアバーコードの解析（不正なコードは検索しない）
+    const parsed = parseBarcode(result, getBarcodeRules(terminalConfig));
+    if (!parsed.valid) {
+      showNotification(parsed.message, 'error');
+      return false;
     }
     
     try {
-      const data = await searchProduct(result);
+      const data = await searchProduct(parsed.lookup_code);
       
       if (data && data.product) {
-        const product = data.product;
-        showNotification(`「${product.prd_name}」を追加しました`, 'success');
-        
-        // スキャンと同時に購入リストに追加
-        setPurchaseList(prevList => {
-          const existingItem = prevList.find(item => item.prd_id === product.prd_id);
-
-          if (existingItem) {
-            return prevList.map(item =>
-              item.prd_id === product.prd_id
-                ? { ...item, quantity: item.quantity + 1 }
-                : item
-            );
-          } else {
-            return [...prevList, { ...product, quantity: 1 }];
-          }
-        });
+        const added = addProduct(
+          data.product,
+          parsed.embedded && resolveEmbeddedValue(data.product, parsed.embedded)
+        );
+        if (added) setLastScanned(data.product);
+        return added;
       } else {
         showNotification('商品が見つかりませんでした。店員にお声掛けください', 'error');
+        return false;
       }
     } catch (error: any) {
       console.error('[商品検索エラー]', error);
+      showNotification(
+        error instanceof NetworkError || error instanceof TimeoutError
+          ? 'サーバーに接続できないため、この商品を検索できませんでした（端末に保存済みの商品のみ検索できます）'
+          : '商品の検索に失敗しました。店員にお声掛けください',
+        'error'
+      );
+      return false;
+    }
+  }, [isContinuousScan, terminalConfig, showNotification, addProduct]);
+
+  // 商品コードで商品マスタを検索して追加（バーコードを読まずに登録するボタン）
+  // 端末に保存した商品情報では価格の変更や販売停止が反映されないため、押すたびに検索する
+  const addByProductCode = useCallback(async (prdCode: string, notFoundMessage: string) => {
+    try {
+      const data = await searchProduct(prdCode);
+
+      if (data && data.product) {
+        addProduct(data.product);
+      } else {
+        showNotification(notFoundMessage, 'error');
+      }
+    } catch (error: any) {
+      console.error('[商品コード検索エラー]', error);
       showNotification('商品の検索に失敗しました。店員にお声掛けください', 'error');
     }
+  }, [showNotification, addProduct]);
+
+  // ホットキー（バーコードのない商品を商品コードで登録）
+  const handleHotkey = useCallback((hotkey: HotkeyItem) => {
+    addByProductCode(hotkey.prd_code, `「${hotkey.label}」の商品が見つかりませんでした。端末設定のホットキーを確認してください`);
+  }, [addByProductCode]);
+
+  // 最近・よく使う商品（端末の履歴）
+  const handleQuickSelect = useCallback((product: Product) => {
+    addByProductCode(product.prd_code, `「${product.prd_name}」は商品マスタに登録されていません`);
+  }, [addByProductCode]);
+
+  // スキャナーの入力はキー入力として届くため、途中までテンキーの入力欄に入った数字を捨てる
+  const handleHidScan = useCallback((code: string) => {
+    setKeypadInput('');
+    return handleScan(code);
+  }, [handleScan]);
+
+  const openScanner = useCallback((continuous: boolean) => {
+    setIsContinuousScan(continuous);
+    setLastScanned(null);
+    setIsScannerOpen(true);
+  }, []);
+
+  // USB/Bluetoothスキャナーからの入力（カメラを開かずに同じ処理へ）
+  const scanInput = terminalConfig?.scan_input ?? 'both';
+  const isModalOpen = isScannerOpen || isTenderOpen || isHoldsOpen || isFailedSalesOpen || isOfflineCheckoutConfirmOpen
+    || discountTarget !== null
+    || completedSale !== null || receiptPreview !== null || shiftSummary !== null || ageCheck !== null || isMemberOpen
+    || priceOverrideTarget !== null || approvalRequest !== null || isPriceCheckOpen;
+  useHidScanner(
+    handleHidScan,
+    scanInput !== 'camera' && Boolean(operator) && !isLocked && !isModalOpen
+  );
+
+  // 数量を増やす（購入点数の上限を超える場合は理由を表示して増やさない）
+  const handleIncreaseQuantity = useCallback((key: string) => {
+    const item = purchaseList.find(line => lineKey(line) === key);
+    const limitError = item && checkPurchaseLimit(purchaseList, item);
+    if (limitError) {
+      showNotification(limitError, 'error');
+      return;
+    }
+    setPurchaseList(prevList => increaseQuantity(prevList, key));
+  }, [purchaseList, showNotification]);
+
+  // 数量を減らす（数量が1の場合は削除）
+  // 直近に登録した明細以外は責任者の承認が必要
+  const handleDecreaseQuantity = useCallback((key: string) => {
+    const item = purchaseList.find(line => lineKey(line) === key);
+    if (!item) return;
+
+    withApproval(
+      lineVoidRequiresApproval(purchaseList, key),
+      '明細取消の承認',
+      `「${item.prd_name}」の数量を減らすには責任者の承認が必要です`,
+      approver => {
+        setPurchaseList(prevList => decreaseQuantity(prevList, key));
+        recordAudit({
+          action: 'line_void',
+          approver,
+          item,
+          before: snapshotItem(item),
+          after: snapshotItem(item.quantity > 1 ? { ...item, quantity: item.quantity - 1 } : undefined),
+        });
+      }
+    );
+  }, [purchaseList, withApproval, recordAudit]);
+
+  // 値引の適用・解除（上限を超える値引は責任者の承認が必要）
+  const handleApplyDiscount = useCallback((discount: ManualDiscount | null) => {
+    const target = discountTarget;
+    setDiscountTarget(null);
+    if (target === null) return;
+
+    const item = target === 'receipt' ? undefined : purchaseList.find(line => lineKey(line) === target);
+    const current = target === 'receipt' ? receiptDiscount : item?.discount ?? null;
+    const requiresApproval = target === 'receipt'
+      ? discountRequiresApproval(discount, pricedCart.subtotal)
+      : discountRequiresApproval(discount, item ? item.prd_price * item.quantity : 0, item?.quantity);
+    withApproval(
+      requiresApproval,
+      '値引の承認',
+      '上限を超える値引には責任者の承認が必要です',
+      approver => {
+        if (target === 'receipt') {
+          setReceiptDiscount(discount);
+        } else {
+          setPurchaseList(prevList => setLineDiscount(prevList, target, discount));
+        }
+        recordAudit({
+          action: 'discount',
+          approver,
+          item,
+          before: { discount: current },
+          after: { discount },
+        });
+      }
+    );
+  }, [discountTarget, purchaseList, receiptDiscount, pricedCart, withApproval, recordAudit]);
+
+  // 売価変更（常に責任者の承認が必要）
+  const handleOverridePrice = useCallback((price: number, reason: string) => {
+    const target = priceOverrideTarget;
+    setPriceOverrideTarget(null);
+    const item = purchaseList.find(line => lineKey(line) === target);
+    if (target === null || !item) return;
+
+    withApproval(
+      true,
+      '売価変更の承認',
+      `「${item.prd_name}」を${price.toLocaleString()}円に変更します`,
+      approver => {
+        setPurchaseList(prevList => overridePrice(prevList, target, price));
+        recordAudit({
+          action: 'price_override',
+          approver,
+          item,
+          reason,
+          before: { unit_price: item.prd_price },
+          after: { unit_price: price },
+        });
+      }
+    );
+  }, [priceOverrideTarget, purchaseList, withApproval, recordAudit]);
+
+  // 取引中止（購入リストをすべて取り消す。常に責任者の承認が必要）
+  const handleCancelSale = useCallback(() => {
+    if (purchaseList.length === 0) return;
+
+    withApproval(
+      true,
+      '取引中止の承認',
+      `${countItems(purchaseList)}点・${taxSummary.total_amount.toLocaleString()}円の取引を中止します`,
+      approver => {
+        recordAudit({
+          action: 'sale_cancel',
+          approver,
+          before: { item_count: countItems(purchaseList), total_amount: taxSummary.total_amount },
+          after: { item_count: 0, total_amount: 0 },
+        });
+        setPurchaseList([]);
+        setReceiptDiscount(null);
+        setAgeVerification(null);
+        setMember(null);
+        showNotification('取引を中止しました', 'success');
+      }
+    );
+  }, [purchaseList, taxSummary, withApproval, recordAudit, showNotification]);
+
+  // 会員の登録（ポイント残高を表示し、支払画面でポイントを利用できるようにする）
+  const handleAttachMember = useCallback((attached: Member) => {
+    setMember(attached);
+    setIsMemberOpen(false);
+    showNotification(
+      `会員 ${attached.member_name ?? attached.member_id} 様（${attached.point_balance.toLocaleString()}ポイント）`,
+      'success'
+    );
   }, [showNotification]);
 
-  // 数量を増やす
-  const handleIncreaseQuantity = useCallback((prd_id: number) => {
-    setPurchaseList(prevList =>
-      prevList.map(item =>
-        item.prd_id === prd_id
-          ? { ...item, quantity: item.quantity + 1 }
-          : item
-      )
+  // リストから商品を削除（直近に登録した明細以外は責任者の承認が必要）
+  const handleRemoveItem = useCallback((key: string) => {
+    const item = purchaseList.find(line => lineKey(line) === key);
+    if (!item) return;
+
+    withApproval(
+      lineVoidRequiresApproval(purchaseList, key),
+      '明細取消の承認',
+      `「${item.prd_name}」の取消には責任者の承認が必要です`,
+      approver => {
+        setPurchaseList(prevList => removeFromCart(prevList, key));
+        recordAudit({
+          action: 'line_void',
+          approver,
+          item,
+          before: snapshotItem(item),
+          after: snapshotItem(undefined),
+        });
+      }
     );
-  }, []);
+  }, [purchaseList, withApproval, recordAudit]);
 
-  // 数量を減らす
-  const handleDecreaseQuantity = useCallback((prd_id: number) => {
-    setPurchaseList(prevList => {
-      const item = prevList.find(i => i.prd_id === prd_id);
-      if (!item) return prevList;
+  // 会計中の購入リストを保留（他の端末でも再開できるようサーバーにも登録）
+  const handleHold = useCallback((label: string) => {
+    if (purchaseList.length === 0 || !terminalConfig) return;
 
-      if (item.quantity === 1) {
-        // 数量が1の場合は削除
-        return prevList.filter(i => i.prd_id !== prd_id);
-      } else {
-        // 数量を減らす
-        return prevList.map(i =>
-          i.prd_id === prd_id
-            ? { ...i, quantity: i.quantity - 1 }
-            : i
-        );
+    const hold: HeldCart = {
+      hold_id: createUuid(),
+      label: label || `保留 ${new Date().toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`,
+      items: purchaseList,
+      receipt_discount: receiptDiscount,
+      age_verification: ageVerification,
+      member,
+      audit_log: auditLog,
+      held_at: new Date().toISOString(),
+      item_count: countItems(purchaseList),
+      total_amount: taxSummary.total_amount,
+      store_cd: terminalConfig.store_cd,
+      pos_no: terminalConfig.pos_no,
+      emp_cd: operator?.emp_cd,
+    };
+    addHeldCart(hold);
+    setHeldCount(loadHeldCarts().length);
+    setPurchaseList([]);
+    setReceiptDiscount(null);
+    setAgeVerification(null);
+    setMember(null);
+    setAuditLog([]);
+    setIsHoldsOpen(false);
+    showNotification(`「${hold.label}」を保留しました`, 'success');
+
+    // オフライン時はこの端末でのみ再開できる
+    shareHeldCart(hold)
+      .then(() => markHeldCartShared(hold.hold_id))
+      .catch(() => undefined);
+  }, [purchaseList, receiptDiscount, ageVerification, member, auditLog, taxSummary, terminalConfig, operator, showNotification]);
+
+  // 保留中の購入リストを再開
+  const handleResume = useCallback(async (hold: HeldCart, isLocal: boolean) => {
+    if (purchaseList.length > 0) {
+      showNotification('会計中の商品があります。保留するか会計を済ませてから再開してください', 'error');
+      return;
+    }
+
+    // サーバーから引き取ってから再開する（同じ保留を複数の端末で再開しないため）
+    // この端末の保留は、共有できていなければサーバーになく、オフライン時は引き取らずに再開する
+    try {
+      const claimed = await claimHeldCart(hold.hold_id);
+      if (!claimed && (!isLocal || hold.shared)) {
+        if (isLocal) {
+          removeHeldCart(hold.hold_id);
+          setHeldCount(loadHeldCarts().length);
+          setIsHoldsOpen(false);
+        }
+        showNotification('この保留はすでに他の端末で再開されています', 'error');
+        return;
       }
-    });
-  }, []);
+    } catch (error) {
+      if (!isLocal || !(error instanceof NetworkError)) {
+        showNotification('保留を引き取れませんでした。通信状態を確認してください', 'error');
+        return;
+      }
+    }
 
-  // リストから商品を削除
-  const handleRemoveItem = useCallback((prd_id: number) => {
-    setPurchaseList(prevList => prevList.filter(item => item.prd_id !== prd_id));
-  }, []);
+    if (isLocal) {
+      removeHeldCart(hold.hold_id);
+      setHeldCount(loadHeldCarts().length);
+    }
+
+    setPurchaseList(hold.items);
+    setReceiptDiscount(hold.receipt_discount);
+    setAgeVerification(hold.age_verification ?? null);
+    setMember(hold.member ?? null);
+    setAuditLog(hold.audit_log ?? []);
+    setIsHoldsOpen(false);
+    showNotification(`「${hold.label}」を再開しました`, 'success');
+  }, [purchaseList, showNotification]);
+
+  // 保留を破棄（取引中止と同じく責任者の承認が必要。保留までの監査ログと一緒に送信する）
+  const handleDiscardHold = useCallback((hold: HeldCart) => {
+    if (!operator || !terminalConfig) return;
+    setIsHoldsOpen(false);
+
+    withApproval(
+      true,
+      '保留破棄の承認',
+      `「${hold.label}」（${hold.item_count}点・${hold.total_amount.toLocaleString()}円）を破棄します`,
+      approver => {
+        const entry = createAuditEntry({
+          action: 'sale_cancel',
+          operator,
+          approver,
+          before: { item_count: hold.item_count, total_amount: hold.total_amount },
+          after: { item_count: 0, total_amount: 0 },
+        });
+        submitAuditLogs({
+          transaction_id: createTransactionId(),
+          store_cd: terminalConfig.store_cd,
+          pos_no: terminalConfig.pos_no,
+          entries: [...(hold.audit_log ?? []), entry],
+        });
+        removeHeldCart(hold.hold_id);
+        setHeldCount(loadHeldCarts().length);
+        claimHeldCart(hold.hold_id).catch(() => null);
+        showNotification(`「${hold.label}」を破棄しました`, 'success');
+      }
+    );
+  }, [operator, terminalConfig, withApproval, submitAuditLogs, showNotification]);
+
+  // 送信できなかった取引の再送
+  const handleRetryFailedSale = useCallback(async (entry: OutboxEntry) => {
+    await retryFailed(entry);
+    showNotification('送信できなかった取引を再送しました', 'success');
+  }, [retryFailed, showNotification]);
+
+  // 送信できなかった取引の破棄（売上から外れるため責任者の承認が必要）
+  const handleDiscardFailedSale = useCallback((entry: OutboxEntry) => {
+    if (!operator) return;
+    setIsFailedSalesOpen(false);
+
+    const itemCount = entry.payload.items.reduce((sum, item) => sum + item.quantity, 0);
+    const totalAmount = entry.payload.tenders.reduce((sum, tender) => sum + tender.amount, 0)
+      - entry.payload.change_amount;
+    withApproval(
+      true,
+      '送信できなかった取引の破棄',
+      `${itemCount}点・${totalAmount.toLocaleString()}円の取引を破棄します`,
+      async approver => {
+        const auditEntry = createAuditEntry({
+          action: 'sale_cancel',
+          operator,
+          approver,
+          before: { item_count: itemCount, total_amount: totalAmount },
+          after: { item_count: 0, total_amount: 0 },
+        });
+        submitAuditLogs({
+          transaction_id: entry.payload.transaction_id,
+          store_cd: entry.payload.store_cd,
+          pos_no: entry.payload.pos_no,
+          entries: [...(entry.payload.audit_log ?? []), auditEntry],
+        });
+        await discardFailed(entry);
+        showNotification('送信できなかった取引を破棄しました', 'success');
+      }
+    );
+  }, [operator, withApproval, submitAuditLogs, discardFailed, showNotification]);
 
-  // 購入処理
-  const handlePurchase = useCallback(async () => {
+  // 支払画面を開く
+  const openTender = useCallback(() => {
+    // 年齢確認の記録がない酒類・たばこ（他の端末の保留など）は会計前に確認する
+    const unverified = purchaseList.find(requiresAgeVerification);
+    if (unverified && !ageVerification) {
+      setAgeCheck({ product: unverified, quantity: unverified.quantity, add: false });
+      return;
+    }
+
+    setPendingTenders([]);
+    setIsTenderOpen(true);
+  }, [purchaseList, ageVerification]);
+
+  // 会計開始（支払画面を開く）
+  const handleCheckout = useCallback(() => {
     if (purchaseList.length === 0) {
       showNotification('購入リストに商品がありません', 'error');
       return;
     }
 
+    if (!terminalConfig) {
+      showNotification('端末設定が未完了です。設定画面で店舗コードとPOS番号を登録してください', 'error');
+      return;
+    }
+
+    if (!operator) {
+      showNotification('担当者がサインインしていません', 'error');
+      return;
+    }
+
+    // サーバーに接続できないことが分かっている場合は、オフライン保留になることを確認してから進む
+    if (connection.state === 'offline') {
+      setIsOfflineCheckoutConfirmOpen(true);
+      return;
+    }
+
+    openTender();
+  }, [purchaseList, terminalConfig, operator, connection, openTender, showNotification]);
+
+  const handleOfflineCheckoutConfirmed = useCallback(() => {
+    setIsOfflineCheckoutConfirmOpen(false);
+    openTender();
+  }, [openTender]);
+
+  // 購入処理（支払確定後）
+  const handlePurchase = useCallback(async (tenders: Tender[], change: number) => {
+    if (!terminalConfig || !operator) return;
+
     setIsPurchasing(true);
 
-    try {
-      const purchaseData: PurchaseRequest = {
-        emp_cd: "",
-        store_cd: "30",
-        pos_no: "90",
-        items: purchaseList
+    const itemCount = countItems(purchaseList);
+    const request = buildPurchaseRequest({
+      transactionId: createTransactionId(),
+      cart: pricedCart,
+      tenders,
+      change,
+      config: terminalConfig,
+      operator,
+      ageVerification,
+      member,
+      auditLog,
+    });
+
+    // 前回の送信の結果が分からない購入を同じ内容で再送する場合は、二重計上しないよう同じ取引IDを使う
+    // 明細・値引・支払が変わっていれば別の取引として新しい取引IDにする
+    const fingerprint = purchaseFingerprint(request);
+    const purchaseData = pendingPurchase?.fingerprint === fingerprint
+      ? { ...request, transaction_id: pendingPurchase.transaction_id }
+      : request;
+    setPendingPurchase({ transaction_id: purchaseData.transaction_id, fingerprint });
+
+    // 会計完了後の共通処理（完了画面の表示とリストのクリア）
+    // オフラインで保留した取引はサーバーの応答なし（response = null）
+    const completeSale = (totalAmount: number, response: PurchaseResponse | null) => {
+      const queued = response === null;
+      recordSale(totalAmount, itemCount);
+      const sale: CompletedSale = {
+        transaction_id: purchaseData.transaction_id,
+        transaction_no: response?.transaction_no,
+        completed_at: new Date().toISOString(),
+        cart: pricedCart,
+        tax: taxSummary,
+        tenders,
+        change_amount: change,
+        operator,
+        queued,
+        member: member && purchaseData.member ? toReceiptMember(member, purchaseData.member) : undefined,
       };
+      setCompletedSale(sale);
+
+      // レシート作成（電子レシートの登録失敗は会計に影響させない）
+      const receipt = buildReceipt(sale, terminalConfig);
+      saveLastReceipt(receipt);
+      setLastReceipt(receipt);
+      recordJournal(receipt, response, operator);
+      if (!queued) {
+        uploadReceipt(receipt).catch(() => undefined);
+      }
+
+      setIsTenderOpen(false);
+      setPurchaseList([]);
+      setReceiptDiscount(null);
+      setAgeVerification(null);
+      setMember(null);
+      setAuditLog([]);
+      setPendingPurchase(null);
+    };
 
+    try {
       const data = await purchaseItems(purchaseData);
 
       if (data.success) {
-        // ポップアップで合計金額を表示
-        alert(
-          `購入完了！\n\n合計金額（税込）: ${data.total_amount.toLocaleString()}円\n税抜: ${data.total_amount_ex_tax.toLocaleString()}円`
-        );
-        setPurchaseList([]);
-        showNotification('購入が完了しました', 'success');
+        // 端末側の税計算とサーバー計算結果の照合
+        const mismatch = findTotalsMismatch(taxSummary, data);
+        if (mismatch) {
+          console.warn(`[合計不一致] 取引ID: ${purchaseData.transaction_id} ${mismatch}`);
+          showNotification('購入は完了しましたが、端末とサーバーの合計金額が一致しません。管理者に連絡してください', 'error');
+        }
+        completeSale(data.total_amount, data);
       } else {
+        setPendingPurchase(null);
         showNotification('購入処理に失敗しました。店員にお声掛けください', 'error');
       }
     } catch (error: any) {
+      if (error instanceof NetworkError) {
+        // オフライン時は保留して接続回復後に再送
+        try {
+          await enqueue(purchaseData);
+          completeSale(taxSummary.total_amount, null);
+        } catch (queueError) {
+          console.error('[取引保留エラー]', queueError);
+          showNotification('取引を保留できませんでした。店員にお声掛けください', 'error');
+        }
+        return;
+      }
+      // サーバーが取引を拒否した場合（4xx）は、次の送信を新しい取引として扱う
+      if (!isRetryable(error)) setPendingPurchase(null);
       console.error('[購入エラー]', error);
       showNotification('購入処理中にエラーが発生しました。店員にお声掛けください', 'error');
     } finally {
       setIsPurchasing(false);
     }
-  }, [purchaseList, showNotification]);
+  }, [
+    purchaseList, pricedCart, taxSummary, terminalConfig, operator, pendingPurchase, ageVerification, member, auditLog,
+    showNotification, enqueue, recordSale,
+  ]);
+
+  // シフト終了（精算）
+  const handleEndShift = useCallback(() => {
+    if (purchaseList.length > 0) {
+      showNotification('購入リストに商品が残っています。購入または削除してから終了してください', 'error');
+      return;
+    }
+    if (!confirm('シフトを終了しますか？')) return;
+    setShiftSummary(endShift());
+  }, [purchaseList, endShift, showNotification]);
+
+  // 選択中の明細が取消された場合は最後の明細を選び直す
+  useEffect(() => {
+    if (selectedKey !== null && purchaseList.some(item => lineKey(item) === selectedKey)) return;
+    setSelectedKey(purchaseList.length > 0 ? lineKey(purchaseList[purchaseList.length - 1]) : null);
+  }, [purchaseList, selectedKey]);
+
+  // テンキー
+  const handleKeypadDigit = useCallback((digit: string) => {
+    setKeypadInput(prev => (prev + digit).slice(0, MAX_KEYPAD_DIGITS));
+  }, []);
+
+  // 入力中の数字を次に登録する商品の数量にする
+  const handleKeypadMultiply = useCallback(() => {
+    const quantity = parseQuantityInput(keypadInput);
+    if (quantity === null) {
+      showNotification(`数量は1〜${MAX_QUANTITY_INPUT}で入力してください`, 'error');
+      return;
+    }
+    setPendingQuantity(quantity);
+    setKeypadInput('');
+  }, [keypadInput, showNotification]);
+
+  // 入力中の数字を商品コードとして登録
+  // @returns 入力がなかった場合は false
+  const handleKeypadEnter = useCallback((): boolean => {
+    if (!keypadInput) return false;
+    setKeypadInput('');
+    handleScan(keypadInput);
+    return true;
+  }, [keypadInput, handleScan]);
+
+  const handleKeypadClear = useCallback(() => {
+    setKeypadInput('');
+    setPendingQuantity(null);
+  }, []);
+
+  // キーボード操作
+  // @returns false の場合はキー本来の動作（フォーカス中のボタンのEnterなど）を妨げない
+  const handleShortcut = useCallback((command: ShortcutCommand): boolean | void => {
+    switch (command.type) {
+      case 'digit':
+        handleKeypadDigit(command.digit);
+        return;
+      case 'multiply':
+        handleKeypadMultiply();
+        return;
+      case 'enter':
+        return handleKeypadEnter();
+      case 'backspace':
+        setKeypadInput(prev => prev.slice(0, -1));
+        return;
+      case 'clear':
+        handleKeypadClear();
+        return;
+      case 'select':
+        setSelectedKey(moveSelection(purchaseList.map(lineKey), selectedKey, command.delta));
+        return;
+      case 'increase':
+        if (selectedKey !== null) handleIncreaseQuantity(selectedKey);
+        return;
+      case 'decrease':
+        if (selectedKey !== null) handleDecreaseQuantity(selectedKey);
+        return;
+      case 'void':
+        if (selectedKey !== null) handleRemoveItem(selectedKey);
+        return;
+      case 'checkout':
+        if (purchaseList.length > 0 && !isPurchasing) handleCheckout();
+        return;
+      case 'price_check':
+        if (terminalConfig) setIsPriceCheckOpen(true);
+        return;
+      case 'hold':
+        if (terminalConfig) setIsHoldsOpen(true);
+        return;
+      case 'member':
+        if (!member) setIsMemberOpen(true);
+        return;
+    }
+  }, [
+    purchaseList, selectedKey, isPurchasing, terminalConfig, member,
+    handleKeypadDigit, handleKeypadMultiply, handleKeypadEnter, handleKeypadClear,
+    handleIncreaseQuantity, handleDecreaseQuantity, handleRemoveItem, handleCheckout,
+  ]);
+
+  useKeyboardShortcuts(handleShortcut, Boolean(operator) && !isLocked && !isModalOpen);
+
+  const priceOverrideItem = priceOverrideTarget !== null
+    ? purchaseList.find(item => lineKey(item) === priceOverrideTarget)
+    : undefined;
+
+  const handleShiftOpened = useCallback((shift: Shift) => setShiftSummary(shift), []);
+  const handleLoginError = useCallback((message: string) => showNotification(message, 'error'), [showNotification]);
 
   return (
     <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
@@ -162,112 +1026,464 @@ export default function PosPage() {
         />
       )}
 
+      {shiftSummary && (
+        <ShiftSummary shift={shiftSummary} onClose={() => setShiftSummary(null)} />
+      )}
+
+      {ageCheck && (
+        <AgeVerificationDialog
+          product={ageCheck.product}
+          onConfirm={handleAgeVerified}
+          onCancel={handleAgeCheckCancel}
+        />
+      )}
+
+      {isPriceCheckOpen && terminalConfig && (
+        <PriceCheckDialog
+          config={terminalConfig}
+          promotions={promotions}
+          onClose={() => setIsPriceCheckOpen(false)}
+        />
+      )}
+
+      {isMemberOpen && (
+        <MemberDialog onAttach={handleAttachMember} onClose={() => setIsMemberOpen(false)} />
+      )}
+
+      {discountTarget !== null && (
+        <DiscountDialog
+          title={discountTarget === 'receipt' ? '会計値引' : '明細値引'}
+          current={
+            discountTarget === 'receipt'
+              ? receiptDiscount
+              : purchaseList.find(item => lineKey(item) === discountTarget)?.discount
+          }
+          onApply={handleApplyDiscount}
+          onClose={() => setDiscountTarget(null)}
+        />
+      )}
+
+      {priceOverrideItem && (
+        <PriceOverrideDialog
+          item={priceOverrideItem}
+          onApply={handleOverridePrice}
+          onClose={() => setPriceOverrideTarget(null)}
+        />
+      )}
+
+      {approvalRequest && (
+        <SupervisorApproval
+          title={approvalRequest.title}
+          description={approvalRequest.description}
+          onApproved={handleApproved}
+          onCancel={() => setApprovalRequest(null)}
+        />
+      )}
+
+      {isTenderOpen && (
+        <TenderScreen
+          total={taxSummary.total_amount}
+          pointBalance={member?.point_balance}
+          isSubmitting={isPurchasing}
+          onConfirm={handlePurchase}
+          onCancel={() => setIsTenderOpen(false)}
+          onTendersChange={setPendingTenders}
+        />
+      )}
+
+      {completedSale && (
+        <CompletionScreen
+          sale={completedSale}
+          onShowReceipt={lastReceipt ? () => setReceiptPreview({ receipt: lastReceipt, reprint: false }) : undefined}
+          onClose={() => setCompletedSale(null)}
+        />
+      )}
+
+      {receiptPreview && (
+        <ReceiptView
+          receipt={receiptPreview.receipt}
+          width={terminalConfig?.receipt_width}
+          reprint={receiptPreview.reprint}
+          onClose={() => setReceiptPreview(null)}
+        />
+      )}
+
+      {isHoldsOpen && terminalConfig && (
+        <HeldCartsDialog
+          storeCd={terminalConfig.store_cd}
+          posNo={terminalConfig.pos_no}
+          cartItemCount={purchaseList.length}
+          onHold={handleHold}
+          onResume={handleResume}
+          onDiscard={handleDiscardHold}
+          onClose={() => setIsHoldsOpen(false)}
+        />
+      )}
+
+      {isOfflineCheckoutConfirmOpen && (
+        <ConfirmDialog
+          title="📡 オフライン保留の確認"
+          message={`${connection.reason}。このまま会計すると取引はオフライン保留になり、接続回復後に送信されます。会計を続けますか？`}
+          confirmLabel="会計を続ける"
+          onConfirm={handleOfflineCheckoutConfirmed}
+          onCancel={() => setIsOfflineCheckoutConfirmOpen(false)}
+        />
+      )}
+
+      {isFailedSalesOpen && (
+        <FailedSalesDialog
+          entries={failedEntries}
+          isFlushing={isFlushing}
+          onRetry={handleRetryFailedSale}
+          onDiscard={handleDiscardFailedSale}
+          onClose={() => setIsFailedSalesOpen(false)}
+        />
+      )}
+
       {isScannerOpen && (
         <BarcodeScanner
           onScan={handleScan}
           onClose={() => setIsScannerOpen(false)}
+          continuous={isContinuousScan}
+          retailOnly
+          overlay={isContinuousScan && (
+            <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+              <div className="flex justify-between font-bold text-gray-800">
+                <span>{pricedCart.lines.reduce((sum, line) => sum + line.item.quantity, 0)}点</span>
+                <span className="text-blue-600">{taxSummary.total_amount.toLocaleString()}円</span>
+              </div>
+              {lastScanned && (
+                <p className="mt-1 truncate">直前: {lastScanned.prd_name}（{lastScanned.prd_price.toLocaleString()}円）</p>
+              )}
+            </div>
+          )}
         />
       )}
 
-      <header className="text-center mb-8">
+      <header className="text-center mb-8 relative">
+        <Link
+          href="/settings"
+          className="absolute right-0 top-0 text-2xl text-gray-500 hover:text-gray-800"
+          title="端末設定"
+        >
+          ⚙
+        </Link>
         <h1 className="text-4xl font-extrabold text-gray-800">モバイルPOSアプリ</h1>
-        <p className="text-sm text-gray-600 mt-2">Level 2 - バーコードスキャン対応</p>
+        <p className="text-sm text-gray-600 mt-2">
+          Level 2 - バーコードスキャン対応
+          {terminalConfig && ` ｜ 店舗 ${terminalConfig.store_cd} / POS ${terminalConfig.pos_no}`}
+        </p>
+        {terminalConfig && (
+          <div className="mt-2">
+            <ConnectionIndicator status={connection} onCheck={checkConnection} />
+          </div>
+        )}
+        {operator && !isLocked && (
+          <div className="max-w-2xl lg:max-w-6xl mx-auto mt-4 flex items-center justify-between text-sm text-gray-700">
+            <span>担当: <span className="font-bold">{operator.emp_name}</span>（{operator.emp_cd}）</span>
+            <div className="flex flex-wrap justify-end gap-2">
+              <button
+                onClick={() => setIsPriceCheckOpen(true)}
+                disabled={!terminalConfig}
+                className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100 disabled:opacity-50"
+              >
+                🏷 価格照会
+              </button>
+              <Link
+                href="/returns"
+                className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100"
+              >
+                ↩ 返品
+              </Link>
+              <Link
+                href="/reports"
+                className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100"
+              >
+                📊 売上レポート
+              </Link>
+              {hasRole(operator, 'manager') && (
+                <Link
+                  href="/admin/products"
+                  className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100"
+                >
+                  🛠 商品管理
+                </Link>
+              )}
+              <button
+                onClick={() => lastReceipt && setReceiptPreview({ receipt: lastReceipt, reprint: true })}
+                disabled={!lastReceipt}
+                className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100 disabled:opacity-50"
+              >
+                🧾 再印刷
+              </button>
+              {terminalConfig?.customer_display !== 'remote' && (
+                <button
+                  onClick={() => window.open('/display', 'pos-customer-display', 'popup,width=1024,height=768')}
+                  className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100"
+                >
+                  🖥 お客様画面
+                </button>
+              )}
+              <button
+                onClick={lock}
+                className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100"
+              >
+                🔒 ロック
+              </button>
+              <button
+                onClick={handleEndShift}
+                className="px-3 py-1 rounded-lg border border-gray-300 bg-white font-bold hover:bg-gray-100"
+              >
+                📋 シフト終了
+              </button>
+            </div>
+          </div>
+        )}
+        {isConfigLoaded && !terminalConfig && (
+          <div className="max-w-2xl mx-auto mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded-lg text-sm font-bold">
+            端末設定が未完了です。<Link href="/settings" className="underline">設定画面</Link>で登録してください
+          </div>
+        )}
+        {terminalConfig && connection.state === 'offline' && (
+          <div className="max-w-2xl mx-auto mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded-lg text-sm" role="status">
+            <p className="font-bold">{connection.reason}</p>
+            <p>商品は端末に保存済みのもののみ検索できます。会計はオフライン保留になり、接続回復後に自動送信します</p>
+          </div>
+        )}
+        {pendingCount > 0 && (
+          <div className="max-w-2xl mx-auto mt-4 flex items-center justify-between bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-2 rounded-lg">
+            <span className="text-sm font-bold">
+              未送信の取引: {pendingCount}件
+            </span>
+            <button
+              onClick={flush}
+              disabled={isFlushing}
+              className="text-sm font-bold underline disabled:opacity-50"
+            >
+              {isFlushing ? '送信中...' : '今すぐ再送'}
+            </button>
+          </div>
+        )}
+        {pendingAuditCount > 0 && (
+          <div className="max-w-2xl mx-auto mt-4 flex items-center justify-between bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-2 rounded-lg">
+            <span className="text-sm font-bold">
+              未送信の監査ログ: {pendingAuditCount}件
+            </span>
+            <button
+              onClick={retryAuditLogs}
+              disabled={isSendingAudit}
+              className="text-sm font-bold underline disabled:opacity-50"
+            >
+              {isSendingAudit ? '送信中...' : '今すぐ再送'}
+            </button>
+          </div>
+        )}
+        {failedCount > 0 && (
+          <div className="max-w-2xl mx-auto mt-4 flex items-center justify-between gap-2 bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded-lg text-sm">
+            <div>
+              <p className="font-bold">送信できなかった取引: {failedCount}件</p>
+              <p>サーバーが取引を受け付けませんでした。内容を確認して再送または破棄してください</p>
+            </div>
+            <button
+              onClick={() => setIsFailedSalesOpen(true)}
+              className="shrink-0 font-bold underline"
+            >
+              確認する
+            </button>
+          </div>
+        )}
       </header>
 
-      <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg">
-        <div className="mb-6">
-          <button
-            onClick={() => setIsScannerOpen(true)}
-            className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors text-lg shadow-md active:scale-95"
-          >
-            📷 スキャン（カメラ）
-          </button>
-        </div>
-
-        <div className="mb-6">
-          <h2 className="text-2xl font-bold text-gray-800 border-b-2 border-gray-200 pb-2 mb-4">
-            購入リスト
-          </h2>
-          <div className="space-y-3">
-            {purchaseList.length > 0 ? (
-              purchaseList.map((item) => (
-                <div key={item.prd_id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-                  <div className="flex justify-between items-start mb-3">
-                    <div className="flex-1">
-                      <p className="font-bold text-lg">{item.prd_name}</p>
-                      <p className="text-sm text-gray-600">
-                        コード: {item.prd_code}
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        単価: {item.prd_price.toLocaleString()}円
-                      </p>
+      {!isSessionLoaded ? null : !operator || isLocked ? (
+        <LoginScreen onShiftOpened={handleShiftOpened} onError={handleLoginError} />
+      ) : (
+        <main className="max-w-2xl lg:max-w-6xl mx-auto lg:grid lg:grid-cols-[minmax(0,1fr)_24rem] lg:gap-6 lg:items-start">
+          <section className="bg-white p-6 rounded-2xl shadow-lg">
+            <div className="mb-6">
+              {scanInput !== 'hid' && (
+                <div className="grid grid-cols-3 gap-2">
+                  <button
+                    onClick={() => openScanner(false)}
+                    className="col-span-2 bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors text-lg shadow-md active:scale-95"
+                  >
+                    📷 スキャン（カメラ）
+                  </button>
+                  <button
+                    onClick={() => openScanner(true)}
+                    className="bg-white text-blue-600 font-bold py-3 px-2 rounded-lg border-2 border-blue-600 hover:bg-blue-50 transition-colors shadow-md active:scale-95"
+                  >
+                    🔁 連続スキャン
+                  </button>
+                </div>
+              )}
+              {scanInput !== 'camera' && (
+                <p className="text-center text-sm text-gray-500 mt-2">
+                  🔫 スキャナーで商品を読み取れます
+                </p>
+              )}
+              <button
+                onClick={() => setIsManualEntryOpen(open => !open)}
+                className="w-full mt-2 bg-white text-blue-600 font-bold py-2 px-4 rounded-lg border-2 border-blue-300 hover:bg-blue-50 transition-colors"
+              >
+                {isManualEntryOpen ? '▲ 手入力を閉じる' : '⌨ 手入力・商品名検索'}
+              </button>
+              {isManualEntryOpen && (
+                <div className="mt-2">
+                  <ManualEntryPanel
+                    onCode={handleScan}
+                    onSelect={addProduct}
+                    onQuickSelect={handleQuickSelect}
+                    historyVersion={historyVersion}
+                    barcodeRules={getBarcodeRules(terminalConfig)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="mb-6">
+              <h2 className="text-2xl font-bold text-gray-800 border-b-2 border-gray-200 pb-2 mb-4">
+                購入リスト
+              </h2>
+              <div className="space-y-3">
+                {pricedCart.lines.length > 0 ? (
+                  pricedCart.lines.map((line) => (
+                    <CartItem
+                      key={lineKey(line.item)}
+                      line={line}
+                      onIncrease={handleIncreaseQuantity}
+                      onDecrease={handleDecreaseQuantity}
+                      onRemove={handleRemoveItem}
+                      onDiscount={setDiscountTarget}
+                      onOverridePrice={setPriceOverrideTarget}
+                      selected={lineKey(line.item) === selectedKey}
+                      onSelect={setSelectedKey}
+                    />
+                  ))
+                ) : (
+                  <p className="text-gray-500 text-center py-8">商品がありません</p>
+                )}
+              </div>
+            </div>
+
+            <div className="border-t-2 border-gray-200 pt-4">
+              <div className="space-y-2 mb-4">
+                {pricedCart.receipt_discount && (
+                  <>
+                    <div className="flex justify-between items-center text-lg text-gray-700">
+                      <span>小計</span>
+                      <span>{pricedCart.subtotal.toLocaleString()}円</span>
+                    </div>
+                    <div className="flex justify-between items-center text-lg font-bold text-red-600">
+                      <span>{pricedCart.receipt_discount.label}</span>
+                      <span>−{pricedCart.receipt_discount.amount.toLocaleString()}円</span>
                     </div>
+                  </>
+                )}
+                <div className="flex justify-between items-center text-2xl font-bold text-gray-800 pb-2 border-b border-gray-300">
+                  <span>合計金額（税込）</span>
+                  <span className="text-blue-600">{taxSummary.total_amount.toLocaleString()}円</span>
+                </div>
+                <div className="flex justify-between items-center text-lg text-gray-700">
+                  <span>小計（税抜）</span>
+                  <span>{taxSummary.total_amount_ex_tax.toLocaleString()}円</span>
+                </div>
+                {taxSummary.buckets.map(bucket => (
+                  <div key={bucket.category} className="flex justify-between items-center text-gray-700">
+                    <span>
+                      {TAX_CATEGORY_LABELS[bucket.category]}対象 {bucket.total_inc_tax.toLocaleString()}円
+                    </span>
+                    <span>内消費税 {bucket.tax.toLocaleString()}円</span>
+                  </div>
+                ))}
+                <div className="flex justify-between items-center text-lg text-gray-700">
+                  <span>消費税合計</span>
+                  <span>{taxSummary.total_tax.toLocaleString()}円</span>
+                </div>
+              </div>
+              {member ? (
+                <div className="flex justify-between items-center mb-3 px-4 py-2 rounded-lg bg-green-50 border-2 border-green-300 text-green-800">
+                  <span className="font-bold truncate">🎫 {member.member_name ?? maskMemberId(member.member_id)} 様</span>
+                  <span className="flex items-center gap-3 shrink-0">
+                    <span>{member.point_balance.toLocaleString()}ポイント</span>
                     <button
-                      onClick={() => handleRemoveItem(item.prd_id)}
-                      className="text-red-500 hover:text-red-700 font-bold text-xl px-2"
-                      title="削除"
+                      onClick={() => setMember(null)}
+                      className="text-red-500 hover:text-red-700 font-bold"
+                      aria-label="会員を外す"
                     >
                       ✕
                     </button>
-                  </div>
-                  
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <button
-                        onClick={() => handleDecreaseQuantity(item.prd_id)}
-                        className="w-10 h-10 bg-red-500 text-white font-bold rounded-lg hover:bg-red-600 active:scale-95 flex items-center justify-center text-xl"
-                      >
-                        −
-                      </button>
-                      <span className="text-xl font-bold w-12 text-center">
-                        {item.quantity}
-                      </span>
-                      <button
-                        onClick={() => handleIncreaseQuantity(item.prd_id)}
-                        className="w-10 h-10 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 active:scale-95 flex items-center justify-center text-xl"
-                      >
-                        ＋
-                      </button>
-                    </div>
-                    
-                    <div className="text-right">
-                      <p className="text-lg font-bold text-blue-600">
-                        小計: {(item.prd_price * item.quantity).toLocaleString()}円
-                      </p>
-                    </div>
-                  </div>
+                  </span>
                 </div>
-              ))
-            ) : (
-              <p className="text-gray-500 text-center py-8">商品がありません</p>
-            )}
-          </div>
-        </div>
-
-        <div className="border-t-2 border-gray-200 pt-4">
-          <div className="space-y-2 mb-4">
-            <div className="flex justify-between items-center text-2xl font-bold text-gray-800 pb-2 border-b border-gray-300">
-              <span>合計金額（税込）</span>
-              <span className="text-blue-600">{totalAmount.toLocaleString()}円</span>
+              ) : (
+                <button
+                  onClick={() => setIsMemberOpen(true)}
+                  className="w-full mb-3 bg-white text-green-700 font-bold py-2 px-4 rounded-lg border-2 border-green-300 hover:bg-green-50"
+                >
+                  🎫 会員カード
+                </button>
+              )}
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                <button
+                  onClick={() => setDiscountTarget('receipt')}
+                  disabled={purchaseList.length === 0}
+                  className="bg-white text-orange-600 font-bold py-2 px-4 rounded-lg border-2 border-orange-300 hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {receiptDiscount ? '会計値引を変更' : '％ 会計値引'}
+                </button>
+                <button
+                  onClick={() => setIsHoldsOpen(true)}
+                  disabled={!terminalConfig}
+                  className="bg-white text-gray-700 font-bold py-2 px-4 rounded-lg border-2 border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ⏸ 保留{heldCount > 0 && `（${heldCount}）`}
+                </button>
+                <button
+                  onClick={handleCancelSale}
+                  disabled={purchaseList.length === 0}
+                  className="bg-white text-red-600 font-bold py-2 px-4 rounded-lg border-2 border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  🚫 取引中止
+                </button>
+              </div>
+              <button
+                onClick={handleCheckout}
+                className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-xl shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95"
+                disabled={purchaseList.length === 0 || isPurchasing}
+              >
+                💳 お会計
+              </button>
             </div>
-            <div className="flex justify-between items-center text-lg text-gray-700">
-              <span>小計（税抜）</span>
-              <span>{totalAmountExTax.toLocaleString()}円</span>
+          </section>
+
+          <aside className="mt-6 lg:mt-0 lg:sticky lg:top-4 space-y-4">
+            <div className="bg-white p-4 rounded-2xl shadow-lg">
+              <h2 className="text-lg font-bold text-gray-800 mb-3">ホットキー</h2>
+              <HotkeyGrid hotkeys={terminalConfig?.hotkeys ?? []} onSelect={handleHotkey} />
             </div>
-            <div className="flex justify-between items-center text-lg text-gray-700">
-              <span>消費税（10%）</span>
-              <span>{(totalAmount - totalAmountExTax).toLocaleString()}円</span>
+            <div className="bg-white p-4 rounded-2xl shadow-lg">
+              <NumericKeypad
+                value={keypadInput}
+                pendingQuantity={pendingQuantity}
+                onDigit={handleKeypadDigit}
+                onMultiply={handleKeypadMultiply}
+                onEnter={handleKeypadEnter}
+                onClear={handleKeypadClear}
+              />
+              <details className="mt-3 text-sm text-gray-700">
+                <summary className="cursor-pointer font-bold">⌨ キーボード操作</summary>
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                  {SHORTCUT_HELP.map(({ keys, label }) => (
+                    <Fragment key={keys}>
+                      <dt className="font-mono font-bold text-gray-800">{keys}</dt>
+                      <dd>{label}</dd>
+                    </Fragment>
+                  ))}
+                </dl>
+              </details>
             </div>
-          </div>
-          <button
-            onClick={handlePurchase}
-            className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-xl shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95"
-            disabled={purchaseList.length === 0 || isPurchasing}
-          >
-            {isPurchasing ? '処理中...' : '💳 購入'}
-          </button>
-        </div>
-      </main>
+          </aside>
+        </main>
+      )}
     </div>
   );
 }
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchReceipt } from '@/app/lib/api';
+import { renderReceiptHtml } from '@/app/lib/receipt';
+
+/**
+ * 電子レシート（レシートのQRコードから開くお客様向けページ）
+ */
+export default function DigitalReceiptPage({ params }: { params: { transactionId: string } }) {
+  const [html, setHtml] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReceipt(decodeURIComponent(params.transactionId))
+      .then(receipt => setHtml(renderReceiptHtml(receipt)))
+      .catch(() => setError('レシートが見つかりませんでした'));
+  }, [params.transactionId]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      {error ? (
+        <div className="max-w-md mx-auto bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+          <p className="font-bold">エラー</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      ) : html ? (
+        <iframe srcDoc={html} title="電子レシート" className="w-full max-w-md mx-auto block h-[90vh] bg-white rounded-lg shadow" />
+      ) : (
+        <p className="text-center text-gray-500 py-8">読み込み中...</p>
+      )}
+    </div>
+  );
+}
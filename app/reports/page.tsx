@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import Notification from '@/app/components/Notification';
+import SalesReportView from '@/app/components/SalesReportView';
+import SupervisorApproval from '@/app/components/SupervisorApproval';
+import { useSession } from '@/app/components/SessionProvider';
+import { useTerminalConfig } from '@/app/hooks/useTerminalConfig';
+import { closeDay, getOpenJournalEntries } from '@/app/lib/journal';
+import { getZReports } from '@/app/lib/offlineStore';
+import { hasRole } from '@/app/lib/permissions';
+import { buildSalesReport, downloadCsv, reportFilename, reportToCsv } from '@/app/lib/salesReport';
+import type { JournalEntry, SalesReport } from '@/app/types';
+
+/**
+ * 売上レポート
+ * 未精算の取引のXレポート（中間点検）と、精算（Zレポート）・過去の精算の出力
+ */
+export default function ReportsPage() {
+  const { operator, shift, isLocked } = useSession();
+  const { config: terminalConfig } = useTerminalConfig();
+
+  const [entries, setEntries] = useState<JournalEntry[] | null>(null);
+  const [zReports, setZReports] = useState<SalesReport[]>([]);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [counted, setCounted] = useState('');
+  const [isApprovalOpen, setIsApprovalOpen] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [shownReport, setShownReport] = useState<SalesReport | null>(null);
+  const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [open, reports] = await Promise.all([getOpenJournalEntries(), getZReports()]);
+      setEntries(open);
+      setZReports(reports);
+    } catch (error) {
+      console.error('[ジャーナル読込エラー]', error);
+      setEntries([]);
+      setNotification({ message: 'ジャーナルを読み込めませんでした', type: 'error' });
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // 釣銭準備金は進行中のシフトの金額を初期値にする
+  useEffect(() => {
+    if (shift) setOpeningFloat(String(shift.opening_float));
+  }, [shift]);
+
+  const cashInput = useMemo(() => ({
+    opening_float: Number(openingFloat) || 0,
+    counted: counted.trim() === '' ? null : Number(counted),
+  }), [openingFloat, counted]);
+
+  const xReport = useMemo(() => {
+    if (!entries || !terminalConfig) return null;
+    return buildSalesReport(entries, {
+      type: 'X',
+      store_cd: terminalConfig.store_cd,
+      pos_no: terminalConfig.pos_no,
+      ...cashInput,
+    });
+  }, [entries, terminalConfig, cashInput]);
+
+  const exportReport = (report: SalesReport) => {
+    downloadCsv(reportFilename(report), reportToCsv(report));
+  };
+
+  // 精算（店長の承認後）
+  const handleClose = useCallback(async () => {
+    setIsApprovalOpen(false);
+    if (!terminalConfig) return;
+
+    setIsClosing(true);
+    try {
+      const report = await closeDay(terminalConfig, cashInput);
+      setShownReport(report);
+      setCounted('');
+      await load();
+      setNotification({ message: `精算しました（No.${report.z_no}）`, type: 'success' });
+    } catch (error) {
+      console.error('[精算エラー]', error);
+      setNotification({ message: '精算に失敗しました。もう一度お試しください', type: 'error' });
+    } finally {
+      setIsClosing(false);
+    }
+  }, [terminalConfig, cashInput, load]);
+
+  const requestClose = () => {
+    if (!window.confirm('精算すると、ここまでの取引は以降のXレポートに含まれなくなります。精算しますか？')) return;
+    if (hasRole(operator, 'manager')) {
+      handleClose();
+    } else {
+      setIsApprovalOpen(true);
+    }
+  };
+
+  if (!operator || isLocked || !terminalConfig) {
+    return (
+      <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+        <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg text-center">
+          <p className="text-gray-700 mb-4">売上レポートを表示するには、レジ画面で端末設定とサインインを完了してください</p>
+          <Link href="/" className="text-blue-600 font-bold hover:underline">← レジに戻る</Link>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+
+      {isApprovalOpen && (
+        <SupervisorApproval
+          title="精算の承認"
+          description="Zレポートを作成し、ここまでの集計を締めます"
+          requiredRole="manager"
+          onApproved={handleClose}
+          onCancel={() => setIsApprovalOpen(false)}
+        />
+      )}
+
+      {shownReport && (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-2xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+            <SalesReportView report={shownReport} />
+            <button
+              onClick={() => exportReport(shownReport)}
+              className="w-full mt-4 bg-white text-indigo-600 font-bold py-3 px-4 rounded-lg border-2 border-indigo-300 hover:bg-indigo-50"
+            >
+              ⬇ CSV出力
+            </button>
+            <button
+              onClick={() => setShownReport(null)}
+              className="w-full mt-2 px-4 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors transform active:scale-95"
+            >
+              閉じる
+            </button>
+          </div>
+        </div>
+      )}
+
+      <header className="text-center mb-8 relative">
+        <Link href="/" className="absolute left-0 top-0 text-blue-600 font-bold hover:underline">← レジ</Link>
+        <h1 className="text-4xl font-extrabold text-gray-800">売上レポート</h1>
+        <p className="text-sm text-gray-600 mt-2">担当: {operator.emp_name}（{operator.emp_cd}）</p>
+      </header>
+
+      <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg">
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          <div>
+            <label className="block font-bold text-gray-800 mb-1" htmlFor="opening_float">釣銭準備金（円）</label>
+            <input
+              id="opening_float"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+            />
+          </div>
+          <div>
+            <label className="block font-bold text-gray-800 mb-1" htmlFor="counted">実査在高（円）</label>
+            <input
+              id="counted"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              placeholder="ドロアの現金"
+              value={counted}
+              onChange={(e) => setCounted(e.target.value)}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+            />
+          </div>
+        </div>
+
+        {xReport ? (
+          <SalesReportView report={xReport} />
+        ) : (
+          <p className="text-gray-500 text-center py-8">読み込み中...</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 mt-6">
+          <button
+            onClick={() => xReport && exportReport(xReport)}
+            disabled={!xReport}
+            className="bg-white text-indigo-600 font-bold py-3 px-4 rounded-lg border-2 border-indigo-300 hover:bg-indigo-50 disabled:opacity-50"
+          >
+            ⬇ CSV出力
+          </button>
+          <button
+            onClick={requestClose}
+            disabled={!xReport || isClosing}
+            className="bg-red-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-700 disabled:bg-gray-400"
+          >
+            {isClosing ? '精算中...' : '🔒 精算（Zレポート）'}
+          </button>
+        </div>
+
+        <h2 className="text-xl font-bold text-gray-800 border-b-2 border-gray-200 pb-2 mt-8 mb-2">過去の精算</h2>
+        {zReports.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {zReports.map(report => (
+              <li key={report.z_no} className="flex items-center justify-between py-2">
+                <div className="text-sm">
+                  <p className="font-bold text-gray-800">No.{report.z_no} ／ 純売上 {report.net_sales.toLocaleString()}円</p>
+                  <p className="text-gray-600">{new Date(report.generated_at).toLocaleString('ja-JP')}</p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShownReport(report)}
+                    className="px-3 py-2 rounded-lg border border-gray-300 text-sm font-bold text-gray-700 hover:bg-gray-100"
+                  >
+                    表示
+                  </button>
+                  <button
+                    onClick={() => exportReport(report)}
+                    className="px-3 py-2 rounded-lg border border-indigo-300 text-sm font-bold text-indigo-600 hover:bg-indigo-50"
+                  >
+                    CSV
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 py-3">精算の履歴はありません</p>
+        )}
+      </main>
+    </div>
+  );
+}
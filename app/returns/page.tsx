@@ -0,0 +1,356 @@
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import BarcodeScanner from '@/app/components/BarcodeScanner';
+import Notification from '@/app/components/Notification';
+import SupervisorApproval from '@/app/components/SupervisorApproval';
+import ReceiptView from '@/app/components/ReceiptView';
+import { useSession } from '@/app/components/SessionProvider';
+import { useTerminalConfig } from '@/app/hooks/useTerminalConfig';
+import { fetchTransaction, refundItems, voidTransaction } from '@/app/lib/api';
+import { lineKey } from '@/app/lib/pricing';
+import {
+  parseTransactionQuery,
+  returnableQuantity,
+  buildRefundLines,
+  selectAllReturnable,
+  buildRefundReceipt,
+  refundTargetKey,
+} from '@/app/lib/returns';
+import { recordJournal } from '@/app/lib/journal';
+import { TENDER_LABELS } from '@/app/lib/tender';
+import { createUuid } from '@/app/lib/uuid';
+import type { Operator, Receipt, RefundRequest, TenderType, TransactionRecord } from '@/app/types';
+
+const REASONS = ['お客様都合', '商品不良', '打ち間違い', 'その他'];
+const TENDER_TYPES: TenderType[] = ['cash', 'qr', 'card'];
+
+export default function ReturnsPage() {
+  const { operator, isLocked } = useSession();
+  const { config: terminalConfig } = useTerminalConfig();
+
+  const [query, setQuery] = useState('');
+  const [transaction, setTransaction] = useState<TransactionRecord | null>(null);
+  // 明細のキー（lineKey）→ 返品数量
+  const [selections, setSelections] = useState<Record<string, number>>({});
+  const [refundTender, setRefundTender] = useState<TenderType>('cash');
+  const [reason, setReason] = useState(REASONS[0]);
+  const [approvalFor, setApprovalFor] = useState<'refund' | 'void' | null>(null);
+  // 送信して返金が完了していない返品の返品IDと対象（同じ対象の再送には同じ返品IDを使う）
+  const [pendingRefund, setPendingRefund] = useState<{ refund_id: string; target: string } | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [refundReceipt, setRefundReceipt] = useState<Receipt | null>(null);
+  const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const showNotification = useCallback((message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+  }, []);
+
+  const refundLines = useMemo(
+    () => (transaction ? buildRefundLines(transaction, selections) : []),
+    [transaction, selections]
+  );
+  const refundTotal = refundLines.reduce((sum, line) => sum + line.amount, 0);
+
+  // 取引の照会
+  const lookup = useCallback(async (input: string) => {
+    const parsed = parseTransactionQuery(input);
+    if (!parsed) {
+      showNotification('取引番号またはレシートのQRコードを確認してください', 'error');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const found = await fetchTransaction(parsed);
+      if (!found) {
+        showNotification('取引が見つかりませんでした', 'error');
+        return;
+      }
+      if (found.status === 'voided' || found.status === 'refunded') {
+        showNotification('この取引はすでに取消・返品済みです', 'error');
+        return;
+      }
+      setTransaction(found);
+      setSelections({});
+      setRefundTender(found.tenders[0]?.type ?? 'cash');
+    } catch (error: any) {
+      console.error('[取引照会エラー]', error);
+      showNotification('取引の照会に失敗しました', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showNotification]);
+
+  const handleScan = useCallback((result: string) => {
+    setIsScannerOpen(false);
+    setQuery(result);
+    lookup(result);
+  }, [lookup]);
+
+  const handleCloseScanner = useCallback(() => setIsScannerOpen(false), []);
+
+  const changeQuantity = (key: string, delta: number, max: number) => {
+    setSelections(prev => ({
+      ...prev,
+      [key]: Math.min(Math.max((prev[key] ?? 0) + delta, 0), max),
+    }));
+  };
+
+  // 責任者承認後に返品・取消を送信
+  const handleApproved = useCallback(async (approver: Operator) => {
+    const kind = approvalFor;
+    setApprovalFor(null);
+    if (!kind || !transaction || !operator || !terminalConfig) return;
+
+    const lines = kind === 'void'
+      ? buildRefundLines(transaction, selectAllReturnable(transaction))
+      : refundLines;
+    const target = refundTargetKey(kind, transaction.transaction_id, lines);
+    const refundId = pendingRefund?.target === target ? pendingRefund.refund_id : createUuid();
+    setPendingRefund({ refund_id: refundId, target });
+
+    const payload: RefundRequest = {
+      refund_id: refundId,
+      original_transaction_id: transaction.transaction_id,
+      store_cd: terminalConfig.store_cd,
+      pos_no: terminalConfig.pos_no,
+      emp_cd: operator.emp_cd,
+      approver_emp_cd: approver.emp_cd,
+      lines,
+      refund_tender: refundTender,
+      reason,
+    };
+
+    setIsLoading(true);
+    try {
+      const response = kind === 'void'
+        ? await voidTransaction(payload)
+        : await refundItems(payload);
+
+      if (!response.success) {
+        showNotification('返品処理に失敗しました', 'error');
+        return;
+      }
+
+      const receipt = buildRefundReceipt({
+        kind,
+        refundId: payload.refund_id,
+        transaction,
+        lines,
+        response,
+        tender: refundTender,
+        config: terminalConfig,
+        operator,
+      });
+      setPendingRefund(null);
+      setRefundReceipt(receipt);
+      recordJournal(receipt, response, operator);
+      showNotification(
+        `${kind === 'void' ? '取引を取り消しました' : '返品を受け付けました'}（返金 ${response.refund_amount.toLocaleString()}円）`,
+        'success'
+      );
+      setTransaction(null);
+      setSelections({});
+      setQuery('');
+    } catch (error: any) {
+      console.error('[返品処理エラー]', error);
+      showNotification(error.message || '返品処理中にエラーが発生しました', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    approvalFor, transaction, operator, terminalConfig, refundLines, refundTender, reason, pendingRefund,
+    showNotification,
+  ]);
+
+  const handleCancelApproval = useCallback(() => setApprovalFor(null), []);
+
+  if (!operator || isLocked || !terminalConfig) {
+    return (
+      <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+        <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg text-center">
+          <p className="text-gray-700 mb-4">返品を行うには、レジ画面で端末設定とサインインを完了してください</p>
+          <Link href="/" className="text-blue-600 font-bold hover:underline">← レジに戻る</Link>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+
+      {isScannerOpen && (
+        <BarcodeScanner onScan={handleScan} onClose={handleCloseScanner} />
+      )}
+
+      {approvalFor && (
+        <SupervisorApproval
+          title={approvalFor === 'void' ? '取引取消の承認' : '返品の承認'}
+          onApproved={handleApproved}
+          onCancel={handleCancelApproval}
+        />
+      )}
+
+      {refundReceipt && (
+        <ReceiptView
+          receipt={refundReceipt}
+          width={terminalConfig.receipt_width}
+          onClose={() => setRefundReceipt(null)}
+        />
+      )}
+
+      <header className="text-center mb-8">
+        <h1 className="text-4xl font-extrabold text-gray-800">返品・取消</h1>
+        <p className="text-sm text-gray-600 mt-2">担当: {operator.emp_name}（{operator.emp_cd}）</p>
+      </header>
+
+      <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg">
+        <form
+          className="flex gap-2 mb-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookup(query);
+          }}
+        >
+          <input
+            aria-label="取引番号"
+            placeholder="取引番号"
+            inputMode="numeric"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="flex-1 border-2 border-gray-300 rounded-lg px-4 py-3 text-lg"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !query.trim()}
+            className="px-4 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            照会
+          </button>
+        </form>
+        <button
+          onClick={() => setIsScannerOpen(true)}
+          className="w-full mb-6 bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors text-lg shadow-md active:scale-95"
+        >
+          📷 レシートのQRコードをスキャン
+        </button>
+
+        {transaction && (
+          <>
+            <div className="mb-4 text-sm text-gray-700">
+              <p className="font-bold text-lg text-gray-800">取引 No.{transaction.transaction_no}</p>
+              <p>{new Date(transaction.created_at).toLocaleString('ja-JP')} ／ 合計 {transaction.total_amount.toLocaleString()}円</p>
+              <p>
+                支払: {transaction.tenders.map(t => `${TENDER_LABELS[t.type]} ${t.amount.toLocaleString()}円`).join('、')}
+              </p>
+            </div>
+
+            <div className="space-y-3 mb-6">
+              {transaction.items.map(item => {
+                const key = lineKey(item);
+                const max = returnableQuantity(item);
+                const selected = selections[key] ?? 0;
+                return (
+                  <div key={key} className="p-4 bg-gray-50 rounded-lg border border-gray-200 flex items-center justify-between">
+                    <div>
+                      <p className="font-bold">{item.prd_name}</p>
+                      <p className="text-sm text-gray-600">
+                        {item.line_amount.toLocaleString()}円 ／ 購入 {item.quantity}点
+                        {item.returned_quantity ? `（返品済 ${item.returned_quantity}点）` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => changeQuantity(key, -1, max)}
+                        disabled={selected === 0}
+                        className="w-10 h-10 bg-gray-300 font-bold rounded-lg disabled:opacity-50"
+                      >
+                        −
+                      </button>
+                      <span className="text-xl font-bold w-16 text-center">{selected}/{max}</span>
+                      <button
+                        onClick={() => changeQuantity(key, 1, max)}
+                        disabled={selected >= max}
+                        className="w-10 h-10 bg-orange-500 text-white font-bold rounded-lg disabled:opacity-50"
+                      >
+                        ＋
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block font-bold text-gray-800 mb-1" htmlFor="refund_tender">返金方法</label>
+                <select
+                  id="refund_tender"
+                  value={refundTender}
+                  onChange={(e) => setRefundTender(e.target.value as TenderType)}
+                  className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 bg-white"
+                >
+                  {TENDER_TYPES.map(type => (
+                    <option key={type} value={type}>{TENDER_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block font-bold text-gray-800 mb-1" htmlFor="reason">理由</label>
+                <select
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 bg-white"
+                >
+                  {REASONS.map(r => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center text-2xl font-bold text-gray-800 border-t-2 border-gray-200 pt-4 mb-4">
+              <span>返金額（概算）</span>
+              <span className="text-red-600">{refundTotal.toLocaleString()}円</span>
+            </div>
+
+            <button
+              onClick={() => setApprovalFor('refund')}
+              disabled={refundLines.length === 0 || isLoading}
+              className="w-full bg-orange-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-orange-700 text-xl shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95"
+            >
+              ↩ 選択した商品を返品
+            </button>
+            {transaction.status === 'completed' && (
+              <button
+                onClick={() => setApprovalFor('void')}
+                disabled={isLoading}
+                className="w-full mt-2 bg-red-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-700 text-lg shadow-md disabled:bg-gray-400 active:scale-95"
+              >
+                ✕ 取引全体を取消
+              </button>
+            )}
+          </>
+        )}
+
+        <Link
+          href="/"
+          className="block text-center mt-6 text-blue-600 font-bold hover:underline"
+        >
+          ← レジに戻る
+        </Link>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import Notification from '@/app/components/Notification';
+import { healthCheck } from '@/app/lib/api';
+import {
+  loadTerminalConfig,
+  saveTerminalConfig,
+  normalizeApiUrl,
+  validateTerminalConfig,
+} from '@/app/lib/terminalConfig';
+import { DEFAULT_TAX_SETTINGS } from '@/app/lib/tax';
+import { DEFAULT_BARCODE_RULES } from '@/app/lib/barcode';
+import { formatHotkeys, parseHotkeys, MAX_HOTKEYS } from '@/app/lib/hotkeys';
+import type {
+  CustomerDisplayMode,
+  InStoreBarcodeRule,
+  ScanInputSource,
+  TerminalConfig,
+  TaxSettings,
+} from '@/app/types';
+
+const EMPTY_CONFIG: TerminalConfig = {
+  store_cd: '',
+  pos_no: '',
+  api_url: process.env.NEXT_PUBLIC_API_URL ?? '',
+  settings_pin: '',
+  tax_rounding: DEFAULT_TAX_SETTINGS.rounding,
+  tax_rounding_unit: DEFAULT_TAX_SETTINGS.unit,
+  receipt_width: 80,
+  scan_input: 'both',
+  customer_display: 'local',
+};
+
+type TextFieldKey =
+  | 'store_cd'
+  | 'pos_no'
+  | 'api_url'
+  | 'settings_pin'
+  | 'store_name'
+  | 'store_address'
+  | 'store_phone'
+  | 'invoice_reg_no';
+
+const FIELDS: { key: TextFieldKey; label: string; placeholder: string; inputMode: 'numeric' | 'url' | 'text' | 'tel' }[] = [
+  { key: 'store_cd', label: '店舗コード', placeholder: '例: 30', inputMode: 'numeric' },
+  { key: 'pos_no', label: 'POS番号', placeholder: '例: 90', inputMode: 'numeric' },
+  { key: 'api_url', label: 'API URL', placeholder: 'https://api.example.com', inputMode: 'url' },
+  { key: 'settings_pin', label: '設定PIN', placeholder: '4〜8桁の数字', inputMode: 'numeric' },
+  { key: 'store_name', label: '店舗名（レシート表示）', placeholder: '例: ○○マート 本店', inputMode: 'text' },
+  { key: 'store_address', label: '店舗住所', placeholder: '例: 東京都千代田区…', inputMode: 'text' },
+  { key: 'store_phone', label: '電話番号', placeholder: '例: 03-0000-0000', inputMode: 'tel' },
+  { key: 'invoice_reg_no', label: '登録番号（インボイス）', placeholder: 'T1234567890123', inputMode: 'text' },
+];
+
+const ROUNDING_OPTIONS: { value: TaxSettings['rounding']; label: string }[] = [
+  { value: 'floor', label: '切り捨て' },
+  { value: 'round', label: '四捨五入' },
+  { value: 'ceil', label: '切り上げ' },
+];
+
+const SCAN_INPUT_OPTIONS: { value: ScanInputSource; label: string }[] = [
+  { value: 'both', label: 'カメラ＋スキャナー' },
+  { value: 'camera', label: 'カメラのみ' },
+  { value: 'hid', label: 'スキャナーのみ（USB/Bluetooth）' },
+];
+
+const CUSTOMER_DISPLAY_OPTIONS: { value: CustomerDisplayMode; label: string }[] = [
+  { value: 'local', label: '同じ端末の別ウィンドウ' },
+  { value: 'remote', label: '別の端末（タブレット等）' },
+];
+
+const ROUNDING_UNIT_OPTIONS: { value: TaxSettings['unit']; label: string }[] = [
+  { value: 'receipt', label: 'レシート単位（税率ごとに1回）' },
+  { value: 'line', label: '明細ごと' },
+];
+
+export default function SettingsPage() {
+  const [savedConfig, setSavedConfig] = useState<TerminalConfig | null>(null);
+  const [form, setForm] = useState<TerminalConfig>(EMPTY_CONFIG);
+  const [errors, setErrors] = useState<Partial<Record<keyof TerminalConfig, string>>>({});
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [pinInput, setPinInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // インストアバーコード規則（JSON、空欄は標準ルール）
+  const [barcodeRulesText, setBarcodeRulesText] = useState('');
+  // ホットキー（1行に「商品コード,表示名」）
+  const [hotkeysText, setHotkeysText] = useState('');
+  const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  // 既存設定の読込（未設定の端末は初期設定としてロックなしで開く）
+  useEffect(() => {
+    const config = loadTerminalConfig();
+    setSavedConfig(config);
+    if (config) {
+      setForm({ ...EMPTY_CONFIG, ...config });
+      setBarcodeRulesText(config.barcode_rules ? JSON.stringify(config.barcode_rules, null, 2) : '');
+      setHotkeysText(config.hotkeys ? formatHotkeys(config.hotkeys) : '');
+    } else {
+      setIsUnlocked(true);
+    }
+  }, []);
+
+  const showNotification = useCallback((message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+  }, []);
+
+  const handleUnlock = () => {
+    if (savedConfig && pinInput === savedConfig.settings_pin) {
+      setIsUnlocked(true);
+      setPinInput('');
+    } else {
+      showNotification('PINが正しくありません', 'error');
+      setPinInput('');
+    }
+  };
+
+  // 入力チェック → 接続確認 → 保存
+  const handleSave = async () => {
+    let barcodeRules: InStoreBarcodeRule[] | undefined;
+    try {
+      barcodeRules = barcodeRulesText.trim() ? JSON.parse(barcodeRulesText) : undefined;
+    } catch {
+      setErrors({ barcode_rules: 'JSONの形式が正しくありません' });
+      return;
+    }
+
+    const hotkeys = hotkeysText.trim() ? parseHotkeys(hotkeysText) : undefined;
+
+    const validationErrors = validateTerminalConfig({ ...form, barcode_rules: barcodeRules, hotkeys });
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    setIsSaving(true);
+    const config: TerminalConfig = {
+      ...form,
+      api_url: normalizeApiUrl(form.api_url),
+      barcode_rules: barcodeRules,
+      hotkeys,
+    };
+
+    try {
+      const health = await healthCheck(config.api_url);
+      saveTerminalConfig(config);
+      setSavedConfig(config);
+      setForm(config);
+      showNotification(`保存しました（${health.service} v${health.version}）`, 'success');
+    } catch (error: any) {
+      console.error('[接続確認エラー]', error);
+      setErrors({ api_url: 'APIに接続できません。URLを確認してください' });
+      showNotification('接続確認に失敗したため保存しませんでした', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 bg-gray-50 min-h-screen">
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={() => setNotification(null)}
+        />
+      )}
+
+      <header className="text-center mb-8">
+        <h1 className="text-4xl font-extrabold text-gray-800">端末設定</h1>
+        <p className="text-sm text-gray-600 mt-2">
+          {savedConfig ? `店舗 ${savedConfig.store_cd} / POS ${savedConfig.pos_no}` : '未設定の端末です'}
+        </p>
+      </header>
+
+      <main className="max-w-2xl mx-auto bg-white p-6 rounded-2xl shadow-lg">
+        {!isUnlocked ? (
+          <div className="space-y-4">
+            <label className="block text-lg font-bold text-gray-800" htmlFor="pin">
+              設定PINを入力してください
+            </label>
+            <input
+              id="pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pinInput}
+              onChange={(e) => setPinInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-xl tracking-widest"
+            />
+            <button
+              onClick={handleUnlock}
+              className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors text-lg shadow-md active:scale-95"
+            >
+              🔓 ロック解除
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {FIELDS.map(({ key, label, placeholder, inputMode }) => (
+              <div key={key}>
+                <label className="block font-bold text-gray-800 mb-1" htmlFor={key}>
+                  {label}
+                </label>
+                <input
+                  id={key}
+                  type={key === 'settings_pin' ? 'password' : 'text'}
+                  inputMode={inputMode}
+                  autoComplete="off"
+                  placeholder={placeholder}
+                  value={form[key] ?? ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                  className={`w-full border-2 rounded-lg px-4 py-3 text-lg ${errors[key] ? 'border-red-400' : 'border-gray-300'}`}
+                />
+                {errors[key] && (
+                  <p className="text-sm text-red-600 mt-1">{errors[key]}</p>
+                )}
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block font-bold text-gray-800 mb-1" htmlFor="tax_rounding">消費税の端数処理</label>
+                <select
+                  id="tax_rounding"
+                  value={form.tax_rounding}
+                  onChange={(e) => setForm(prev => ({ ...prev, tax_rounding: e.target.value as TaxSettings['rounding'] }))}
+                  className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+                >
+                  {ROUNDING_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block font-bold text-gray-800 mb-1" htmlFor="tax_rounding_unit">端数処理の単位</label>
+                <select
+                  id="tax_rounding_unit"
+                  value={form.tax_rounding_unit}
+                  onChange={(e) => setForm(prev => ({ ...prev, tax_rounding_unit: e.target.value as TaxSettings['unit'] }))}
+                  className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+                >
+                  {ROUNDING_UNIT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="receipt_width">レシート用紙幅</label>
+              <select
+                id="receipt_width"
+                value={form.receipt_width}
+                onChange={(e) => setForm(prev => ({ ...prev, receipt_width: Number(e.target.value) as 58 | 80 }))}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+              >
+                <option value={80}>80mm</option>
+                <option value={58}>58mm</option>
+              </select>
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="scan_input">商品の読取方法</label>
+              <select
+                id="scan_input"
+                value={form.scan_input}
+                onChange={(e) => setForm(prev => ({ ...prev, scan_input: e.target.value as ScanInputSource }))}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+              >
+                {SCAN_INPUT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="customer_display">お客様用画面</label>
+              <select
+                id="customer_display"
+                value={form.customer_display}
+                onChange={(e) => setForm(prev => ({ ...prev, customer_display: e.target.value as CustomerDisplayMode }))}
+                className="w-full border-2 border-gray-300 rounded-lg px-4 py-3 text-lg bg-white"
+              >
+                {CUSTOMER_DISPLAY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {form.customer_display === 'remote' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  別の端末で /display?store={form.store_cd || '店舗コード'}&amp;pos={form.pos_no || 'POS番号'} を開いてください
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="barcode_rules">
+                インストアバーコード規則（JSON）
+              </label>
+              <textarea
+                id="barcode_rules"
+                rows={6}
+                spellCheck={false}
+                placeholder={JSON.stringify(DEFAULT_BARCODE_RULES, null, 2)}
+                value={barcodeRulesText}
+                onChange={(e) => setBarcodeRulesText(e.target.value)}
+                className={`w-full border-2 rounded-lg px-4 py-3 font-mono text-sm ${errors.barcode_rules ? 'border-red-400' : 'border-gray-300'}`}
+              />
+              <p className="text-xs text-gray-500 mt-1">空欄の場合は標準の規則（02・20〜24: 価格、25〜29: 重量）を使います</p>
+              {errors.barcode_rules && (
+                <p className="text-sm text-red-600 mt-1">{errors.barcode_rules}</p>
+              )}
+            </div>
+            <div>
+              <label className="block font-bold text-gray-800 mb-1" htmlFor="hotkeys">
+                ホットキー（1行に「商品コード,表示名」）
+              </label>
+              <textarea
+                id="hotkeys"
+                rows={6}
+                spellCheck={false}
+                placeholder={'0000000000017,レジ袋 M\n0000000000024,ホットコーヒー S'}
+                value={hotkeysText}
+                onChange={(e) => setHotkeysText(e.target.value)}
+                className={`w-full border-2 rounded-lg px-4 py-3 font-mono text-sm ${errors.hotkeys ? 'border-red-400' : 'border-gray-300'}`}
+              />
+              <p className="text-xs text-gray-500 mt-1">レジ画面に上から順に並びます（{MAX_HOTKEYS}個まで）</p>
+              {errors.hotkeys && (
+                <p className="text-sm text-red-600 mt-1">{errors.hotkeys}</p>
+              )}
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-xl shadow-md disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95"
+            >
+              {isSaving ? '接続確認中...' : '💾 接続確認して保存'}
+            </button>
+          </div>
+        )}
+
+        <Link
+          href="/"
+          className="block text-center mt-6 text-blue-600 font-bold hover:underline"
+        >
+          ← レジに戻る
+        </Link>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 // app/types/index.ts
 
+/**
+ * 消費税区分（standard: 標準税率10%, reduced: 軽減税率8%）
+ */
+export type TaxCategory = "standard" | "reduced";
+
 /**
  * 商品データの型
  */
@@ -7,7 +12,99 @@ export interface Product {
   prd_id: number;
   prd_code: string;
   prd_name: string;
-  prd_price: number;
+  prd_price: number; // 税込価格
+  tax_category?: TaxCategory; // 未指定は標準税率
+  department?: string; // 部門
+  is_active?: boolean; // 未指定は販売中（false は販売停止）
+  age_restriction?: AgeRestriction; // 年齢確認が必要な商品の区分
+  purchase_limit?: number; // お一人様あたりの購入上限（点数）
+}
+
+/**
+ * 年齢確認が必要な商品の区分（alcohol: 酒類, tobacco: たばこ）
+ */
+export type AgeRestriction = "alcohol" | "tobacco";
+
+/**
+ * 年齢確認の方法（visual: 目視・申告, id: 身分証の生年月日）
+ */
+export type AgeVerificationMethod = "visual" | "id";
+
+/**
+ * 年齢確認の記録（会計ごと）
+ */
+export interface AgeVerification {
+  method: AgeVerificationMethod;
+  verified_by: string; // 確認した担当者の社員コード
+  verified_at: string;
+}
+
+/**
+ * 商品マスタの登録・更新内容（商品IDはサーバー採番）
+ */
+export type ProductInput = Omit<Product, "prd_id">;
+
+/**
+ * 商品マスタを変更した担当者（変更履歴のため各APIに送信する）
+ */
+export interface ProductChangeActor {
+  emp_cd: string;
+  approver_emp_cd: string; // 承認した店長（店長本人の操作では本人）
+}
+
+/**
+ * 商品マスタ一覧（管理画面）の検索条件
+ */
+export interface ProductListQuery {
+  q?: string; // 商品コード・商品名（部分一致）
+  department?: string;
+  include_inactive?: boolean; // 販売停止中の商品も含める
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * 商品マスタ一覧（管理画面）の検索結果
+ */
+export interface ProductListResult {
+  products: Product[];
+  total: number; // 条件に一致する全件数
+}
+
+/**
+ * 店舗の在庫数（在庫照会APIのレスポンス）
+ */
+export interface StockLevel {
+  prd_code: string;
+  store_cd: string;
+  on_hand: number; // 店舗の在庫数
+  on_order?: number; // 発注済みで未入荷の数
+  updated_at: string;
+}
+
+/**
+ * CSV取込の行ごとの判定（new: 新規, changed: 変更, unchanged: 変更なし, error: 入力エラー）
+ */
+export type ProductImportStatus = "new" | "changed" | "unchanged" | "error";
+
+/**
+ * CSV取込のプレビュー行
+ */
+export interface ProductImportRow {
+  line: number; // CSVの行番号（見出し行 = 1）
+  status: ProductImportStatus;
+  input?: ProductInput; // 入力エラーの行は未設定
+  current?: Product; // 登録済みの商品
+  changes: { field: keyof ProductInput; before: string; after: string }[];
+  errors: string[];
+}
+
+/**
+ * CSV取込APIの結果
+ */
+export interface ProductImportResult {
+  created: number;
+  updated: number;
 }
 
 /**
@@ -15,6 +112,94 @@ export interface Product {
  */
 export interface PurchaseItem extends Product {
   quantity: number;
+  discount?: ManualDiscount; // 値引シール等の手動値引
+  embedded?: EmbeddedBarcodeValue; // インストアバーコードの埋込価格・重量（prd_price は埋込値から求めた価格）
+  original_price?: number; // 売価変更前の単価（売価変更した明細のみ。prd_price は変更後の単価）
+}
+
+/**
+ * インストアバーコードに埋め込まれた値の種類（price: 価格, weight: 重量）
+ */
+export type EmbeddedValueKind = "price" | "weight";
+
+/**
+ * インストアバーコード（02・20〜29始まり）の解析ルール
+ * 13桁の構成: プレフィックス + 商品コード + （未使用桁）+ 埋込値 + チェックデジット
+ */
+export interface InStoreBarcodeRule {
+  prefixes: string[]; // 対象のプレフィックス（例: ["02"], ["20", "21"]）
+  item_digits: number; // プレフィックスに続く商品コードの桁数
+  value_kind: EmbeddedValueKind;
+  value_digits: number; // チェックデジット直前の埋込値の桁数
+  unit_grams?: number; // 重量の場合、マスタ価格の基準重量（g）。未指定は100g
+}
+
+/**
+ * インストアバーコードから読み取った値
+ */
+export interface EmbeddedBarcodeValue {
+  barcode: string; // 読み取ったバーコード（明細の識別に使う）
+  kind: EmbeddedValueKind;
+  price: number; // 税込価格（重量の場合はマスタ価格から計算）
+  weight_g?: number;
+}
+
+/**
+ * 手動値引の型
+ * percent: 明細（または会計）金額に対する割引率（%）
+ * amount: 単価からの値引額（円）。会計値引の場合は会計からの値引額
+ */
+export interface ManualDiscount {
+  type: "percent" | "amount";
+  value: number;
+}
+
+/**
+ * バックエンドで管理される販促ルールの型
+ * bundle: quantity個でprice円（まとめ売り）
+ * percent / amount: 対象商品1点ごとの割引率・値引額
+ */
+export interface Promotion {
+  promo_id: string;
+  name: string;
+  type: "bundle" | "percent" | "amount";
+  prd_codes: string[];
+  quantity?: number;
+  price?: number;
+  value?: number;
+  starts_at?: string;
+  ends_at?: string;
+}
+
+/**
+ * 適用済み値引の型
+ */
+export interface AppliedDiscount {
+  kind: "line" | "promotion" | "receipt";
+  label: string;
+  amount: number; // 値引額（円、正の値）
+  promo_id?: string;
+}
+
+/**
+ * 値引適用後の明細
+ */
+export interface PricedLine {
+  item: PurchaseItem;
+  gross_amount: number; // 値引前金額
+  discounts: AppliedDiscount[]; // 明細値引・販促
+  net_amount: number; // 明細値引・販促適用後の金額
+  receipt_discount_share: number; // 按分された会計値引額
+}
+
+/**
+ * 値引計算結果
+ */
+export interface PricedCart {
+  lines: PricedLine[];
+  subtotal: number; // 明細値引・販促適用後の合計
+  receipt_discount?: AppliedDiscount;
+  total: number; // 会計値引適用後の合計（税込）
 }
 
 /**
@@ -24,14 +209,60 @@ export interface ProductSearchResponse {
   product: Product | null;
 }
 
+/**
+ * 購入APIに送信する明細の型
+ */
+export interface PurchaseRequestItem extends PurchaseItem {
+  applied_discounts: AppliedDiscount[];
+  line_amount: number; // 値引適用後の明細金額（会計値引の按分前）
+}
+
 /**
  * 購入APIに送信するリクエストの型
  */
 export interface PurchaseRequest {
+  transaction_id: string; // クライアント生成の取引ID（冪等キー）
   emp_cd?: string;
   store_cd: string;
   pos_no: string;
-  items: PurchaseItem[];
+  items: PurchaseRequestItem[];
+  receipt_discount?: AppliedDiscount;
+  tenders: Tender[];
+  change_amount: number; // お釣り
+  age_verification?: AgeVerification; // 年齢確認が必要な商品を含む場合のみ
+  member?: MemberPoints; // 会員の会計のみ
+  audit_log?: AuditEntry[]; // 会計中の取消・売価変更・値引の記録
+}
+
+/**
+ * 会員（ポイントカード）
+ */
+export interface Member {
+  member_id: string; // 会員番号（カードのバーコード）
+  member_name?: string;
+  point_balance: number; // 利用できるポイント（1ポイント = 1円）
+}
+
+/**
+ * 会計ごとのポイントの付与・利用
+ */
+export interface MemberPoints {
+  member_id: string;
+  points_earned: number; // 今回付与するポイント
+  points_redeemed: number; // 今回利用したポイント
+}
+
+/**
+ * 支払方法（cash: 現金, qr: QRコード決済, card: クレジットカード, points: ポイント利用）
+ */
+export type TenderType = "cash" | "qr" | "card" | "points";
+
+/**
+ * 支払（預り）の型
+ */
+export interface Tender {
+  type: TenderType;
+  amount: number;
 }
 
 /**
@@ -41,4 +272,468 @@ export interface PurchaseResponse {
   success: boolean;
   total_amount: number;
   total_amount_ex_tax: number;
+  transaction_no?: number; // サーバー採番の取引番号
+}
+
+/**
+ * オフライン時に保留された購入リクエストの型
+ */
+export interface OutboxEntry {
+  id: number;
+  payload: PurchaseRequest;
+  created_at: string;
+  attempts: number;
+  last_error?: string;
+  status?: OutboxStatus; // 未指定は pending
+}
+
+/**
+ * アウトボックスのエントリの状態
+ * pending: 送信待ち / failed: サーバーが取引を拒否したため再送しない（店舗での確認が必要）
+ */
+export type OutboxStatus = "pending" | "failed";
+
+/**
+ * アウトボックスの状態ごとの件数
+ */
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+/**
+ * 会計中の購入リスト（リロード後の復元用）
+ */
+export interface ActiveCart {
+  items: PurchaseItem[];
+  receipt_discount: ManualDiscount | null;
+  age_verification?: AgeVerification | null;
+  member?: Member | null;
+  audit_log?: AuditEntry[];
+  pending_purchase?: PendingPurchase | null; // 送信結果が分からない購入（リロード後も同じ取引IDで再送する）
+  updated_at: string;
+}
+
+/**
+ * 送信結果が分からない購入（通信失敗・5xx）
+ * 同じ内容で再送する場合のみ同じ取引IDを使い、内容が変われば新しい取引IDにする
+ */
+export interface PendingPurchase {
+  transaction_id: string;
+  fingerprint: string; // 取引ID以外のリクエスト内容
+}
+
+/**
+ * 保留中の購入リスト
+ */
+export interface HeldCart {
+  hold_id: string;
+  label: string; // 保留番号またはお客様の目印
+  items: PurchaseItem[];
+  receipt_discount: ManualDiscount | null;
+  age_verification?: AgeVerification | null; // 同じお客様の会計として再開するため保持
+  member?: Member | null;
+  audit_log?: AuditEntry[];
+  held_at: string;
+  item_count: number;
+  total_amount: number; // 保留時点の税込合計
+  store_cd: string;
+  pos_no: string; // 保留した端末
+  emp_cd?: string;
+  shared?: boolean; // サーバーに共有済み（この端末で再開する前に、他の端末で再開されていないか確認する）
+}
+
+/**
+ * 端末設定の型
+ */
+export interface TerminalConfig {
+  store_cd: string;
+  pos_no: string;
+  api_url: string;
+  settings_pin: string; // 設定画面の保護用PIN
+  tax_rounding?: TaxSettings["rounding"];
+  tax_rounding_unit?: TaxSettings["unit"];
+  store_name?: string; // レシート表示用
+  store_address?: string;
+  store_phone?: string;
+  invoice_reg_no?: string; // 適格請求書発行事業者登録番号（T+13桁）
+  receipt_width?: 58 | 80; // レシート用紙幅（mm）
+  scan_input?: ScanInputSource; // 未指定は both
+  barcode_rules?: InStoreBarcodeRule[]; // 未指定は標準ルール
+  customer_display?: CustomerDisplayMode; // 未指定は local
+  hotkeys?: HotkeyItem[]; // レジ画面のホットキー（表示順）
+}
+
+/**
+ * ホットキー（レジ袋・コーヒー等、バーコードのない商品をワンタッチで登録するボタン）
+ */
+export interface HotkeyItem {
+  prd_code: string;
+  label: string; // ボタンの表示名
+}
+
+/**
+ * お客様用画面の接続方法
+ * local: 同じ端末の別ウィンドウ（BroadcastChannel）, remote: 別端末（サーバー経由）
+ */
+export type CustomerDisplayMode = "local" | "remote";
+
+/**
+ * お客様用画面の表示段階（idle: 待機中, cart: 商品登録中, tender: お支払い中, complete: 会計完了）
+ */
+export type CustomerDisplayPhase = "idle" | "cart" | "tender" | "complete";
+
+/**
+ * お客様用画面に送る表示内容
+ */
+export interface CustomerDisplayState {
+  phase: CustomerDisplayPhase;
+  store_name?: string;
+  lines: {
+    prd_name: string;
+    quantity: number;
+    amount: number; // 値引後の金額
+    discount_amount: number;
+    reduced: boolean;
+  }[];
+  receipt_discount?: AppliedDiscount;
+  tax: TaxSummary;
+  paid: number; // お預り合計
+  change: number;
+  updated_at: string;
+}
+
+/**
+ * 商品読取の入力元（camera: カメラ, hid: USB/Bluetoothスキャナー, both: 両方）
+ */
+export type ScanInputSource = "camera" | "hid" | "both";
+
+/**
+ * レジ担当者（オペレーター）の型
+ */
+export interface Operator {
+  emp_cd: string;
+  emp_name: string;
+  role?: OperatorRole; // 未指定は cashier
+}
+
+/**
+ * 担当者の権限（cashier < supervisor < manager）
+ */
+export type OperatorRole = "cashier" | "supervisor" | "manager";
+
+/**
+ * サインイン情報の型（従業員コード+PIN、またはスタッフバッジ）
+ */
+export type OperatorCredentials =
+  | { emp_cd: string; pin: string }
+  | { badge_code: string };
+
+/**
+ * シフト（担当者の勤務セッション）の型
+ */
+export interface Shift {
+  shift_id: string;
+  operator: Operator;
+  opened_at: string;
+  closed_at?: string;
+  opening_float: number; // 開始時の釣銭準備金
+  transaction_count: number;
+  item_count: number;
+  total_amount: number;
+}
+
+/**
+ * 消費税の端数処理設定
+ * rounding: 切り捨て／四捨五入／切り上げ
+ * unit: 明細ごと（line）またはレシート単位で税率ごとに1回（receipt）
+ */
+export interface TaxSettings {
+  rounding: "floor" | "round" | "ceil";
+  unit: "line" | "receipt";
+}
+
+/**
+ * 税率ごとの集計結果
+ */
+export interface TaxBucket {
+  category: TaxCategory;
+  rate: number;
+  total_inc_tax: number;
+  total_ex_tax: number;
+  tax: number;
+}
+
+/**
+ * 会計全体の税計算結果
+ */
+export interface TaxSummary {
+  buckets: TaxBucket[];
+  total_amount: number;
+  total_amount_ex_tax: number;
+  total_tax: number;
+}
+
+/**
+ * 完了した会計の型（完了画面の表示用）
+ */
+export interface CompletedSale {
+  transaction_id: string;
+  transaction_no?: number;
+  completed_at: string;
+  cart: PricedCart;
+  tax: TaxSummary;
+  tenders: Tender[];
+  change_amount: number;
+  operator?: Operator;
+  queued: boolean; // オフラインで保留された取引
+  member?: ReceiptMember;
+}
+
+/**
+ * レシートに印字する会員・ポイント
+ */
+export interface ReceiptMember extends MemberPoints {
+  point_balance: number; // 会計後のポイント残高
+}
+
+/**
+ * レシート明細の型
+ */
+export interface ReceiptLine {
+  prd_code: string;
+  prd_name: string;
+  quantity: number;
+  unit_price: number;
+  amount: number; // 値引適用後の金額
+  reduced: boolean; // 軽減税率対象
+  discounts: AppliedDiscount[];
+  weight_g?: number; // 量り売り商品の重量
+}
+
+/**
+ * レシートの型
+ */
+export interface Receipt {
+  kind?: "sale" | "refund" | "void"; // 未指定は販売
+  original_transaction_no?: number; // 返品・取消の元取引
+  transaction_id: string;
+  transaction_no?: number;
+  issued_at: string;
+  store: {
+    store_cd: string;
+    pos_no: string;
+    name?: string;
+    address?: string;
+    phone?: string;
+    invoice_reg_no?: string;
+  };
+  cashier?: Operator;
+  lines: ReceiptLine[];
+  receipt_discount?: AppliedDiscount;
+  tax_buckets: TaxBucket[];
+  total_amount: number;
+  total_tax: number;
+  tenders: Tender[];
+  change_amount: number;
+  queued: boolean;
+  member?: ReceiptMember;
+}
+
+/**
+ * 過去取引の型（返品・取消の対象）
+ */
+export interface TransactionRecord {
+  transaction_id: string;
+  transaction_no: number;
+  created_at: string;
+  store_cd: string;
+  pos_no: string;
+  emp_cd?: string;
+  items: (PurchaseRequestItem & { returned_quantity?: number })[];
+  receipt_discount?: AppliedDiscount;
+  tenders: Tender[];
+  total_amount: number;
+  total_amount_ex_tax: number;
+  status: "completed" | "partially_refunded" | "refunded" | "voided";
+}
+
+/**
+ * 返品明細の型
+ */
+export interface RefundLine {
+  prd_id: number;
+  prd_code: string;
+  embedded_barcode?: string; // インストアバーコードの明細（同じ商品の別の明細と区別する）
+  quantity: number;
+  amount: number; // 返金額（税込）
+}
+
+/**
+ * 返品・取消APIに送信するリクエストの型
+ */
+export interface RefundRequest {
+  refund_id: string; // クライアント生成のID（冪等キー）
+  original_transaction_id: string;
+  store_cd: string;
+  pos_no: string;
+  emp_cd: string;
+  approver_emp_cd: string; // 承認した責任者
+  lines: RefundLine[];
+  refund_tender: TenderType;
+  reason: string;
+}
+
+/**
+ * 返品・取消APIのレスポンスの型
+ */
+export interface RefundResponse {
+  success: boolean;
+  refund_no?: number;
+  refund_amount: number;
+  refund_amount_ex_tax: number;
+}
+
+/**
+ * 電子ジャーナル（端末に保存する取引記録）の型
+ * 販売・返品・取消ごとに、発行したレシートの内容とサーバーの応答を記録する
+ */
+export interface JournalEntry {
+  journal_id: string; // 取引ID（返品・取消は返品ID）
+  recorded_at: string;
+  emp_cd?: string;
+  receipt: Receipt; // 明細・税率ごとの集計・支払
+  response: PurchaseResponse | RefundResponse | null; // オフラインで保留した取引はnull
+  z_no?: number; // 精算（Zレポート）済みの場合の精算番号
+}
+
+/**
+ * 売上レポートの種類（X: 中間点検・集計をリセットしない, Z: 精算・集計をリセットする）
+ */
+export type SalesReportType = "X" | "Z";
+
+/**
+ * 売上レポートの集計行（時間帯・支払方法・担当者ごと）
+ */
+export interface SalesReportRow {
+  key: string;
+  label: string;
+  count: number; // 取引件数
+  amount: number; // 純売上（返品・取消を差し引いた額）
+}
+
+/**
+ * 現金在高の照合
+ */
+export interface CashReconciliation {
+  opening_float: number; // 釣銭準備金
+  cash_sales: number; // 現金売上（お釣りを差し引いた額）
+  cash_refunds: number; // 現金返金
+  expected: number; // 想定在高
+  counted: number | null; // 実査在高（未入力はnull）
+  difference: number | null; // 過不足（実査 − 想定）
+}
+
+/**
+ * 売上レポート（X/Zレポート）
+ */
+export interface SalesReport {
+  type: SalesReportType;
+  z_no?: number;
+  generated_at: string;
+  store_cd: string;
+  pos_no: string;
+  period_from: string | null; // 最初の取引日時（取引なしはnull）
+  period_to: string | null;
+  sale_count: number;
+  refund_count: number; // 返品・取消の件数
+  item_count: number; // 販売点数（返品分を差し引いた点数）
+  gross_sales: number; // 総売上（税込）
+  refund_total: number; // 返品・取消の返金額
+  net_sales: number; // 純売上
+  discount_total: number; // 値引・販促の合計
+  queued_count: number; // オフラインで保留した取引（未送信の可能性あり）
+  by_hour: SalesReportRow[];
+  by_tax: TaxBucket[];
+  by_tender: SalesReportRow[];
+  by_operator: SalesReportRow[];
+  cash: CashReconciliation;
+}
+
+/**
+ * 接続状態（online: 正常, slow: 低速・エラー増加, offline: 接続不可）
+ */
+export type ConnectionState = "online" | "slow" | "offline";
+
+/**
+ * API呼び出しの結果（接続状態の判定用）
+ */
+export interface ApiCallSample {
+  at: number; // 完了時刻（ミリ秒）
+  latency_ms: number;
+  ok: boolean; // 通信失敗・タイムアウト・5xx は false（業務エラーの4xxはサーバーに届いているため true）
+}
+
+/**
+ * ヘルスチェックの結果
+ */
+export interface HealthCheckResult {
+  ok: boolean;
+  version?: string; // バックエンドのバージョン
+  latency_ms: number;
+  checked_at: string;
+}
+
+/**
+ * 接続状態の判定結果
+ */
+export interface ConnectionStatus {
+  state: ConnectionState;
+  reason: string; // 状態の説明（表示用）
+  version?: string;
+  latency_ms: number | null; // 直近の平均応答時間
+  error_rate: number; // 直近のAPI呼び出しの失敗率（0〜1）
+  checked_at?: string; // 最後のヘルスチェック
+}
+
+/**
+ * 監査ログの対象操作
+ * line_void: 明細の取消・数量の減算, price_override: 売価変更, discount: 値引の適用・変更・解除, sale_cancel: 取引中止
+ */
+export type AuditAction = "line_void" | "price_override" | "discount" | "sale_cancel";
+
+/**
+ * 操作前後の値
+ */
+export interface AuditSnapshot {
+  quantity?: number;
+  unit_price?: number;
+  discount?: ManualDiscount | null;
+  item_count?: number; // 取引中止時の購入点数
+  total_amount?: number; // 取引中止時の合計金額
+}
+
+/**
+ * 監査ログ（購入リストに対する操作の記録）
+ */
+export interface AuditEntry {
+  audit_id: string;
+  action: AuditAction;
+  at: string;
+  emp_cd: string; // 操作した担当者
+  approver_cd?: string; // 承認した責任者（承認が必要な操作のみ）
+  target?: { prd_code: string; prd_name: string }; // 対象の明細（会計値引・取引中止は未指定）
+  reason?: string;
+  before: AuditSnapshot;
+  after: AuditSnapshot;
+}
+
+/**
+ * 監査ログの送信内容（取引中止など、購入を伴わない場合）
+ */
+export interface AuditLogUpload {
+  transaction_id: string;
+  store_cd: string;
+  pos_no: string;
+  entries: AuditEntry[];
 }
@@ -0,0 +1,346 @@
+// app/types/schemas.ts
+
+/**
+ * APIレスポンスの実行時スキーマ
+ * app/types/index.ts の型と1対1で対応させ、受信した値を検証してから画面に渡す
+ */
+import {
+  array,
+  boolean,
+  integer,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from "@/app/lib/validation";
+import type { Schema, Shape } from "@/app/lib/validation";
+import type {
+  AgeVerification,
+  AppliedDiscount,
+  AuditEntry,
+  AuditSnapshot,
+  CustomerDisplayState,
+  EmbeddedBarcodeValue,
+  HeldCart,
+  ManualDiscount,
+  Member,
+  Operator,
+  Product,
+  ProductImportResult,
+  ProductListResult,
+  Promotion,
+  PurchaseItem,
+  PurchaseResponse,
+  Receipt,
+  ReceiptLine,
+  ReceiptMember,
+  RefundResponse,
+  StockLevel,
+  TaxBucket,
+  TaxSummary,
+  Tender,
+  TransactionRecord,
+} from "@/app/types";
+
+const taxCategory = oneOf("standard", "reduced");
+
+const productShape: Shape<Product> = {
+  prd_id: integer(),
+  prd_code: string(),
+  prd_name: string(),
+  prd_price: integer(),
+  tax_category: optional(taxCategory),
+  department: optional(string()),
+  is_active: optional(boolean()),
+  age_restriction: optional(oneOf("alcohol", "tobacco")),
+  purchase_limit: optional(integer()),
+};
+
+export const productSchema: Schema<Product> = object<Product>(productShape);
+
+const manualDiscountSchema = object<ManualDiscount>({
+  type: oneOf("percent", "amount"),
+  value: number(),
+});
+
+const embeddedSchema = object<EmbeddedBarcodeValue>({
+  barcode: string(),
+  kind: oneOf("price", "weight"),
+  price: integer(),
+  weight_g: optional(number()),
+});
+
+const purchaseItemShape: Shape<PurchaseItem> = {
+  ...productShape,
+  quantity: integer(),
+  discount: optional(manualDiscountSchema),
+  embedded: optional(embeddedSchema),
+  original_price: optional(integer()),
+};
+
+const appliedDiscountSchema = object<AppliedDiscount>({
+  kind: oneOf("line", "promotion", "receipt"),
+  label: string(),
+  amount: integer(),
+  promo_id: optional(string()),
+});
+
+const tenderSchema = object<Tender>({
+  type: oneOf("cash", "qr", "card", "points"),
+  amount: integer(),
+});
+
+const operatorSchema = object<Operator>({
+  emp_cd: string(),
+  emp_name: string(),
+  role: optional(oneOf("cashier", "supervisor", "manager")),
+});
+
+const taxBucketSchema = object<TaxBucket>({
+  category: taxCategory,
+  rate: number(),
+  total_inc_tax: integer(),
+  total_ex_tax: integer(),
+  tax: integer(),
+});
+
+const taxSummarySchema = object<TaxSummary>({
+  buckets: array(taxBucketSchema),
+  total_amount: integer(),
+  total_amount_ex_tax: integer(),
+  total_tax: integer(),
+});
+
+export const productSearchResponseSchema = object<{ product: Product | null }>({
+  product: nullable(productSchema),
+});
+
+export const productListResponseSchema = object<{ products: Product[] }>({
+  products: array(productSchema),
+});
+
+export const productAdminListResponseSchema: Schema<ProductListResult> = object<ProductListResult>({
+  products: array(productSchema),
+  total: integer(),
+});
+
+export const productResponseSchema = object<{ product: Product }>({
+  product: productSchema,
+});
+
+export const stockResponseSchema = object<{ stock: StockLevel | null }>({
+  stock: nullable(
+    object<StockLevel>({
+      prd_code: string(),
+      store_cd: string(),
+      on_hand: integer(),
+      on_order: optional(integer()),
+      updated_at: string(),
+    })
+  ),
+});
+
+export const productImportResponseSchema: Schema<ProductImportResult> = object<ProductImportResult>({
+  created: integer(),
+  updated: integer(),
+});
+
+export const purchaseResponseSchema: Schema<PurchaseResponse> = object<PurchaseResponse>({
+  success: boolean(),
+  total_amount: integer(),
+  total_amount_ex_tax: integer(),
+  transaction_no: optional(integer()),
+});
+
+const receiptLineSchema = object<ReceiptLine>({
+  prd_code: string(),
+  prd_name: string(),
+  quantity: integer(),
+  unit_price: integer(),
+  amount: integer(),
+  reduced: boolean(),
+  discounts: array(appliedDiscountSchema),
+  weight_g: optional(number()),
+});
+
+const memberSchema = object<Member>({
+  member_id: string(),
+  member_name: optional(string()),
+  point_balance: integer(),
+});
+
+export const memberResponseSchema = object<{ member: Member | null }>({
+  member: nullable(memberSchema),
+});
+
+const receiptMemberSchema = object<ReceiptMember>({
+  member_id: string(),
+  points_earned: integer(),
+  points_redeemed: integer(),
+  point_balance: integer(),
+});
+
+export const receiptResponseSchema = object<{ receipt: Receipt }>({
+  receipt: object<Receipt>({
+    kind: optional(oneOf("sale", "refund", "void")),
+    original_transaction_no: optional(integer()),
+    transaction_id: string(),
+    transaction_no: optional(integer()),
+    issued_at: string(),
+    store: object<Receipt["store"]>({
+      store_cd: string(),
+      pos_no: string(),
+      name: optional(string()),
+      address: optional(string()),
+      phone: optional(string()),
+      invoice_reg_no: optional(string()),
+    }),
+    cashier: optional(operatorSchema),
+    lines: array(receiptLineSchema),
+    receipt_discount: optional(appliedDiscountSchema),
+    tax_buckets: array(taxBucketSchema),
+    total_amount: integer(),
+    total_tax: integer(),
+    tenders: array(tenderSchema),
+    change_amount: integer(),
+    queued: boolean(),
+    member: optional(receiptMemberSchema),
+  }),
+});
+
+export const promotionsResponseSchema = object<{ promotions: Promotion[] }>({
+  promotions: array(
+    object<Promotion>({
+      promo_id: string(),
+      name: string(),
+      type: oneOf("bundle", "percent", "amount"),
+      prd_codes: array(string()),
+      quantity: optional(integer()),
+      price: optional(integer()),
+      value: optional(number()),
+      starts_at: optional(string()),
+      ends_at: optional(string()),
+    })
+  ),
+});
+
+type TransactionItem = TransactionRecord["items"][number];
+
+export const transactionResponseSchema = object<{ transaction: TransactionRecord | null }>({
+  transaction: nullable(
+    object<TransactionRecord>({
+      transaction_id: string(),
+      transaction_no: integer(),
+      created_at: string(),
+      store_cd: string(),
+      pos_no: string(),
+      emp_cd: optional(string()),
+      items: array(
+        object<TransactionItem>({
+          ...purchaseItemShape,
+          applied_discounts: array(appliedDiscountSchema),
+          line_amount: integer(),
+          returned_quantity: optional(integer()),
+        })
+      ),
+      receipt_discount: optional(appliedDiscountSchema),
+      tenders: array(tenderSchema),
+      total_amount: integer(),
+      total_amount_ex_tax: integer(),
+      status: oneOf("completed", "partially_refunded", "refunded", "voided"),
+    })
+  ),
+});
+
+export const refundResponseSchema: Schema<RefundResponse> = object<RefundResponse>({
+  success: boolean(),
+  refund_no: optional(integer()),
+  refund_amount: integer(),
+  refund_amount_ex_tax: integer(),
+});
+
+export const operatorResponseSchema = object<{ operator: Operator }>({
+  operator: operatorSchema,
+});
+
+export const healthResponseSchema = object<{ status: string; service: string; version: string }>({
+  status: string(),
+  service: string(),
+  version: string(),
+});
+
+const ageVerificationSchema = object<AgeVerification>({
+  method: oneOf("visual", "id"),
+  verified_by: string(),
+  verified_at: string(),
+});
+
+const auditSnapshotSchema = object<AuditSnapshot>({
+  quantity: optional(integer()),
+  unit_price: optional(integer()),
+  discount: nullable(manualDiscountSchema),
+  item_count: optional(integer()),
+  total_amount: optional(integer()),
+});
+
+const auditEntrySchema = object<AuditEntry>({
+  audit_id: string(),
+  action: oneOf("line_void", "price_override", "discount", "sale_cancel"),
+  at: string(),
+  emp_cd: string(),
+  approver_cd: optional(string()),
+  target: optional(object<{ prd_code: string; prd_name: string }>({ prd_code: string(), prd_name: string() })),
+  reason: optional(string()),
+  before: auditSnapshotSchema,
+  after: auditSnapshotSchema,
+});
+
+const heldCartSchema = object<HeldCart>({
+  hold_id: string(),
+  label: string(),
+  items: array(object<PurchaseItem>(purchaseItemShape)),
+  receipt_discount: nullable(manualDiscountSchema),
+  age_verification: nullable(ageVerificationSchema),
+  member: nullable(memberSchema),
+  audit_log: optional(array(auditEntrySchema)),
+  held_at: string(),
+  item_count: integer(),
+  total_amount: integer(),
+  store_cd: string(),
+  pos_no: string(),
+  emp_cd: optional(string()),
+  shared: optional(boolean()),
+});
+
+export const heldCartsResponseSchema = object<{ holds: HeldCart[] }>({
+  holds: array(heldCartSchema),
+});
+
+export const heldCartResponseSchema = object<{ hold: HeldCart | null }>({
+  hold: nullable(heldCartSchema),
+});
+
+export const displayStateResponseSchema = object<{ state: CustomerDisplayState | null }>({
+  state: nullable(
+    object<CustomerDisplayState>({
+      phase: oneOf("idle", "cart", "tender", "complete"),
+      store_name: optional(string()),
+      lines: array(
+        object<CustomerDisplayState["lines"][number]>({
+          prd_name: string(),
+          quantity: integer(),
+          amount: integer(),
+          discount_amount: integer(),
+          reduced: boolean(),
+        })
+      ),
+      receipt_discount: optional(appliedDiscountSchema),
+      tax: taxSummarySchema,
+      paid: integer(),
+      change: integer(),
+      updated_at: string(),
+    })
+  ),
+});
@@ -0,0 +1,104 @@
+import { expect, test } from "@playwright/test";
+import type { Page } from "@playwright/test";
+import { openPosWithStubBackend, signIn } from "./stubBackend";
+
+const TEA = "4901234500013";
+const PEN = "4901234500020";
+
+// 購入リストの明細
+const cartLine = (page: Page, name: string) =>
+  page.locator("div.p-4", { has: page.locator("p.text-lg", { hasText: name }) });
+
+// 手入力パネルからJANコードを追加
+async function addByCode(page: Page, code: string) {
+  await page.getByLabel("JANコード").fill(code);
+  await page.getByRole("button", { name: "追加", exact: true }).click();
+}
+
+async function payExact(page: Page) {
+  await page.getByRole("button", { name: "💳 お会計" }).click();
+  await page.getByRole("button", { name: "ちょうど" }).click();
+  await page.getByRole("button", { name: "✓ 会計を確定" }).click();
+}
+
+test.describe("会計の流れ", () => {
+  test("スキャナー入力と手入力で商品を追加し、数量を変えて会計する", async ({ page }) => {
+    await openPosWithStubBackend(page);
+    await signIn(page);
+
+    // USB/Bluetoothスキャナーの入力（短い間隔のキー入力 + Enter）
+    await page.locator("body").click();
+    await page.keyboard.type(TEA, { delay: 5 });
+    await page.keyboard.press("Enter");
+    await expect(cartLine(page, "おーいお茶 500ml")).toBeVisible();
+
+    await page.getByRole("button", { name: "⌨ 手入力・商品名検索" }).click();
+    await addByCode(page, PEN);
+    await expect(cartLine(page, "ボールペン 黒")).toBeVisible();
+
+    await cartLine(page, "おーいお茶 500ml").getByRole("button", { name: "＋" }).click();
+    await expect(cartLine(page, "おーいお茶 500ml")).toContainText("小計: 300円");
+
+    await payExact(page);
+
+    await expect(page.getByText("お会計完了")).toBeVisible();
+    await expect(page.getByText("取引番号: 1")).toBeVisible();
+    await page.getByRole("button", { name: "次のお客様へ" }).click();
+    await expect(page.getByText("商品がありません")).toBeVisible();
+  });
+
+  test("見つからない商品はエラーを表示する", async ({ page }) => {
+    await openPosWithStubBackend(page, {
+      override: async (pathname, route) => {
+        if (pathname !== "/search_product") return false;
+        await route.fulfill({ json: { product: null } });
+        return true;
+      },
+    });
+    await signIn(page);
+
+    await page.getByRole("button", { name: "⌨ 手入力・商品名検索" }).click();
+    await addByCode(page, TEA);
+
+    await expect(page.getByRole("alert")).toContainText("商品が見つかりませんでした");
+    await expect(page.getByText("商品がありません")).toBeVisible();
+  });
+
+  test("サーバーエラーが続く場合は購入リストを残す", async ({ page }) => {
+    await openPosWithStubBackend(page, {
+      override: async (pathname, route) => {
+        if (pathname !== "/purchase") return false;
+        await route.fulfill({ status: 500, json: { detail: "Internal Server Error" } });
+        return true;
+      },
+    });
+    await signIn(page);
+
+    await page.getByRole("button", { name: "⌨ 手入力・商品名検索" }).click();
+    await addByCode(page, PEN);
+    await payExact(page);
+
+    await expect(page.getByRole("alert")).toContainText("購入処理中にエラーが発生しました", { timeout: 10000 });
+    await page.getByRole("button", { name: "✕ 戻る" }).click();
+    await expect(cartLine(page, "ボールペン 黒")).toBeVisible();
+  });
+
+  test("オフライン時は取引を保留し、未送信件数を表示する", async ({ page }) => {
+    await openPosWithStubBackend(page, {
+      override: async (pathname, route) => {
+        if (pathname !== "/purchase") return false;
+        await route.abort("internetdisconnected");
+        return true;
+      },
+    });
+    await signIn(page);
+
+    await page.getByRole("button", { name: "⌨ 手入力・商品名検索" }).click();
+    await addByCode(page, PEN);
+    await payExact(page);
+
+    await expect(page.getByText("取引を保留しました")).toBeVisible({ timeout: 10000 });
+    await page.getByRole("button", { name: "次のお客様へ" }).click();
+    await expect(page.getByText("未送信の取引: 1件")).toBeVisible();
+  });
+});
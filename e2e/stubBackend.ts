@@ -0,0 +1,60 @@
+import type { Page, Route } from "@playwright/test";
+import { createMockBackend } from "@/app/lib/mockBackend";
+import type { TerminalConfig } from "@/app/types";
+
+export const STUB_API_URL = "http://api.e2e.test";
+
+export const TERMINAL_CONFIG: TerminalConfig = {
+  store_cd: "30",
+  pos_no: "90",
+  api_url: STUB_API_URL,
+  settings_pin: "1234",
+  scan_input: "both",
+};
+
+export interface StubBackendOptions {
+  // 指定したパスの応答を差し替える（オフライン・サーバーエラーの再現用）
+  override?: (pathname: string, route: Route) => Promise<boolean>;
+}
+
+/**
+ * バックエンドAPIをスタブに置き換え、端末設定を登録した状態でPOS画面を開く
+ * 担当者認証・商品検索・購入・保留などはモックバックエンドで処理する
+ */
+export async function openPosWithStubBackend(page: Page, options: StubBackendOptions = {}) {
+  const backend = createMockBackend();
+
+  await page.addInitScript(config => {
+    window.localStorage.setItem("pos-terminal-config", JSON.stringify(config));
+  }, TERMINAL_CONFIG);
+
+  await page.route(`${STUB_API_URL}/**`, async route => {
+    const request = route.request();
+    const { pathname } = new URL(request.url());
+
+    if (options.override && (await options.override(pathname, route))) {
+      return;
+    }
+    const response = await backend(request.url(), {
+      method: request.method(),
+      body: request.postData() ?? undefined,
+    });
+    await route.fulfill({
+      status: response.status,
+      contentType: "application/json",
+      body: await response.text(),
+    });
+  });
+
+  await page.goto("/");
+}
+
+/**
+ * 担当者サインイン（シフト開始）
+ */
+export async function signIn(page: Page) {
+  await page.getByLabel("従業員コード").fill("0001");
+  await page.getByLabel("PIN").fill("1234");
+  await page.getByLabel("釣銭準備金（円）").fill("30000");
+  await page.getByRole("button", { name: "▶ シフト開始" }).click();
+}
@@ -0,0 +1,24 @@
+import { defineConfig, devices } from "@playwright/test";
+
+/**
+ * ブラウザE2Eテスト
+ * バックエンドAPIはテスト内でスタブ（e2e/stubBackend.ts）に置き換える
+ */
+export default defineConfig({
+  testDir: "./e2e",
+  fullyParallel: false,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: "http://localhost:3000",
+    trace: "retain-on-failure",
+  },
+  projects: [
+    { name: "chromium", use: { ...devices["Desktop Chrome"] } },
+  ],
+  webServer: {
+    command: "npm run dev",
+    url: "http://localhost:3000",
+    reuseExistingServer: !process.env.CI,
+    timeout: 120000,
+  },
+});